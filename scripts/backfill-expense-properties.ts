@@ -0,0 +1,43 @@
+import { PrismaClient } from '@prisma/client';
+
+// Initialize Prisma client
+const prisma = new PrismaClient();
+
+/**
+ * Give expenses without a property the property of their room or maintenance event.
+ * Expenses with neither link stay without one; an admin can assign them with updateExpense.
+ */
+async function main() {
+  try {
+    console.log('Backfilling expense properties...');
+
+    const expenses = await prisma.expense.findMany({
+      where: { propertyId: null },
+      include: { room: true, maintenanceEvent: { include: { room: true } } }
+    });
+
+    let updated = 0;
+    for (const expense of expenses) {
+      const propertyId = expense.room?.propertyId || expense.maintenanceEvent?.room.propertyId;
+      if (!propertyId) continue;
+
+      await prisma.expense.update({
+        where: { id: expense.id },
+        data: { propertyId, updatedAt: new Date() }
+      });
+      updated++;
+    }
+
+    console.log(`Updated ${updated} of ${expenses.length} expenses without a property.`);
+    if (updated < expenses.length) {
+      console.log(`${expenses.length - updated} expenses have no room or maintenance event to take a property from.`);
+    }
+  } catch (error) {
+    console.error('Error backfilling expense properties:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
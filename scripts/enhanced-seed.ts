@@ -625,6 +625,7 @@ async function main() {
           category: category as any,
           description: faker.lorem.sentence(),
           receipt: Math.random() > 0.3 ? `https://example.com/receipts/receipt_${i}.pdf` : null,
+          propertyId: faker.helpers.arrayElement(properties).id,
         },
       });
       
@@ -5,11 +5,15 @@ import jwt from 'jsonwebtoken';
 // Create a new Prisma client instance
 const prisma = new PrismaClient();
 
+export type UserRole = 'USER' | 'PROPERTY_MANAGER' | 'ADMIN' | 'RENTER';
+
 // Define user interface
 export interface User {
   id: string;
   email: string;
-  role: 'USER' | 'PROPERTY_MANAGER' | 'ADMIN';
+  role: UserRole;
+  // The renter record of a RENTER, whose data is all they can reach
+  renterId: string | null;
 }
 
 // Define GraphQL context interface
@@ -41,6 +45,46 @@ const getToken = (req: Request): string | null => {
   return token;
 };
 
+// Load a user with their primary role, e.g. for work done on their behalf outside a request
+export const loadUser = async (prisma: PrismaClient, userId: string): Promise<User | null> => {
+  // Find user in database with their roles
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: {
+      userRoles: {
+        include: {
+          role: true
+        }
+      }
+    }
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  // Get the primary role (or default to 'USER')
+  let role: UserRole = 'USER';
+  if (user.userRoles && user.userRoles.length > 0) {
+    const primaryRole = user.userRoles[0].role.name;
+    if (primaryRole === 'ADMIN' || primaryRole === 'PROPERTY_MANAGER' || primaryRole === 'RENTER') {
+      role = primaryRole;
+    }
+  }
+
+  // Users registered as renters are renters even where no RENTER role has been set up
+  if (role === 'USER' && user.isRenter) {
+    role = 'RENTER';
+  }
+
+  return {
+    id: user.id,
+    email: user.email,
+    role: role,
+    renterId: user.renterId
+  };
+};
+
 // Verify JWT token and get user
 const getUserFromToken = async (token: string, prisma: PrismaClient): Promise<User | null> => {
   try {
@@ -53,36 +97,7 @@ const getUserFromToken = async (token: string, prisma: PrismaClient): Promise<Us
       return null;
     }
 
-    // Find user in database with their roles
-    const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
-      include: {
-        userRoles: {
-          include: {
-            role: true
-          }
-        }
-      }
-    });
-
-    if (!user) {
-      return null;
-    }
-
-    // Get the primary role (or default to 'USER')
-    let role: 'USER' | 'PROPERTY_MANAGER' | 'ADMIN' = 'USER';
-    if (user.userRoles && user.userRoles.length > 0) {
-      const primaryRole = user.userRoles[0].role.name;
-      if (primaryRole === 'ADMIN' || primaryRole === 'PROPERTY_MANAGER') {
-        role = primaryRole;
-      }
-    }
-
-    return {
-      id: user.id,
-      email: user.email,
-      role: role
-    };
+    return await loadUser(prisma, decoded.userId);
   } catch (error) {
     console.error('Error verifying token:', error);
     return null;
@@ -101,5 +116,31 @@ export const createContext = async ({ req }: { req: Request & { res?: Response }
   };
 };
 
+// Create context for each GraphQL subscription over WebSocket.
+// The token is read from the connection_init payload, falling back to the upgrade request's cookies.
+export const createSubscriptionContext = async ({
+  connectionParams,
+  req
+}: {
+  connectionParams?: Record<string, unknown>;
+  req: Request;
+}): Promise<GraphQLContext> => {
+  const authorization = connectionParams?.authorization || connectionParams?.Authorization;
+  if (typeof authorization === 'string') {
+    req.headers.authorization = authorization;
+  }
+
+  if (!req.cookies && req.headers.cookie) {
+    req.cookies = Object.fromEntries(
+      req.headers.cookie.split(';').map((cookie) => {
+        const [name, ...value] = cookie.trim().split('=');
+        return [name, decodeURIComponent(value.join('='))];
+      })
+    );
+  }
+
+  return createContext({ req });
+};
+
 // Export Prisma client for use outside of GraphQL context
 export { prisma };
\ No newline at end of file
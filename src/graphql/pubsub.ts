@@ -0,0 +1,7 @@
+import { PubSub } from 'graphql-subscriptions';
+
+// In-memory PubSub for GraphQL subscriptions (single server instance)
+export const pubsub = new PubSub();
+
+// Subscription topics
+export const NOTIFICATION_CREATED = 'NOTIFICATION_CREATED';
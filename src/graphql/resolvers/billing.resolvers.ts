@@ -0,0 +1,241 @@
+import { GraphQLContext } from '../context';
+import { resolverLogger } from '../../utils/resolverLogger';
+import { getUserId } from './common';
+import { LateFeeType } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import {
+  generateRentInvoices,
+  generateServiceCharges,
+  LateFeeRule,
+  previewLateFees,
+  validateLateFeeRule
+} from '../../services/billing';
+
+/**
+ * Make sure the current user manages the given property
+ */
+async function assertManagesProperty(ctx: GraphQLContext, propertyId: string) {
+  const property = await ctx.prisma.property.findUnique({
+    where: { id: propertyId }
+  });
+
+  if (!property) {
+    throw new Error('Property not found');
+  }
+
+  if (ctx.user!.role !== 'ADMIN' && property.userId !== ctx.user!.id) {
+    throw new Error('You do not have permission to manage billing for this property');
+  }
+
+  return property;
+}
+
+// Billing resolvers
+export const billingResolvers = {
+  Query: {
+    // Get a property's late-fee policy
+    lateFeePolicy: async (_: any, { propertyId }: { propertyId: string }, ctx: GraphQLContext) => {
+      const resolverName = 'lateFeePolicy';
+      try {
+        resolverLogger.log(resolverName, { propertyId }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view late fee policies');
+        }
+
+        await assertManagesProperty(ctx, propertyId);
+
+        return await ctx.prisma.lateFeePolicy.findUnique({
+          where: { propertyId }
+        });
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Preview the late fees a property's unpaid payments would be charged,
+    // with its saved policy or with a policy being drafted
+    previewLateFees: async (
+      _: any,
+      {
+        propertyId,
+        policy,
+        asOf,
+      }: {
+        propertyId: string;
+        policy?: LateFeeRule;
+        asOf?: Date;
+      },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'previewLateFees';
+      try {
+        resolverLogger.log(resolverName, { propertyId, policy, asOf }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to preview late fees');
+        }
+
+        await assertManagesProperty(ctx, propertyId);
+
+        if (policy) {
+          validateLateFeeRule(policy);
+        }
+
+        const preview = await previewLateFees(ctx.prisma, { propertyId, asOf, rule: policy });
+
+        resolverLogger.log(resolverName, { payments: preview.length });
+        return preview;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+  },
+
+  Mutation: {
+    // Generate monthly rent invoices for active contracts, optionally as a dry run
+    generateInvoices: async (
+      _: any,
+      {
+        period,
+        dryRun = false,
+        propertyId,
+      }: {
+        period: string;
+        dryRun?: boolean;
+        propertyId?: string;
+      },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'generateInvoices';
+      try {
+        resolverLogger.log(resolverName, { period, dryRun, propertyId }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to generate invoices');
+        }
+
+        // Non-admins can only bill contracts in their own properties
+        const result = await generateRentInvoices(ctx.prisma, {
+          period,
+          dryRun,
+          propertyId,
+          ownerId: ctx.user.role === 'ADMIN' ? undefined : ctx.user.id
+        });
+
+        resolverLogger.log(resolverName, { created: result.created, skipped: result.skipped });
+        return result;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Generate recurring service charges for active room services, optionally as a dry run
+    generateServiceCharges: async (
+      _: any,
+      {
+        period,
+        dryRun = false,
+        propertyId,
+      }: {
+        period: string;
+        dryRun?: boolean;
+        propertyId?: string;
+      },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'generateServiceCharges';
+      try {
+        resolverLogger.log(resolverName, { period, dryRun, propertyId }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to generate service charges');
+        }
+
+        // Non-admins can only bill rooms in their own properties
+        const result = await generateServiceCharges(ctx.prisma, {
+          period,
+          dryRun,
+          propertyId,
+          ownerId: ctx.user.role === 'ADMIN' ? undefined : ctx.user.id
+        });
+
+        resolverLogger.log(resolverName, { created: result.created, skipped: result.skipped });
+        return result;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Create or replace a property's late-fee policy
+    setLateFeePolicy: async (
+      _: any,
+      { propertyId, input }: { propertyId: string; input: any },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'setLateFeePolicy';
+      try {
+        resolverLogger.log(resolverName, { propertyId, input }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to configure late fees');
+        }
+
+        await assertManagesProperty(ctx, propertyId);
+        validateLateFeeRule(input);
+
+        const data = {
+          ...input,
+          type: input.type as LateFeeType,
+          updatedAt: new Date()
+        };
+
+        const policy = await ctx.prisma.lateFeePolicy.upsert({
+          where: { propertyId },
+          create: { id: nanoid(), propertyId, ...data },
+          update: data
+        });
+
+        resolverLogger.log(resolverName, { policy: policy.id });
+        return policy;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Remove a property's late-fee policy; fees already charged are kept
+    deleteLateFeePolicy: async (_: any, { propertyId }: { propertyId: string }, ctx: GraphQLContext) => {
+      const resolverName = 'deleteLateFeePolicy';
+      try {
+        resolverLogger.log(resolverName, { propertyId }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to configure late fees');
+        }
+
+        await assertManagesProperty(ctx, propertyId);
+
+        const { count } = await ctx.prisma.lateFeePolicy.deleteMany({
+          where: { propertyId }
+        });
+
+        resolverLogger.log(resolverName, { deleted: count });
+        return count > 0;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+  },
+};
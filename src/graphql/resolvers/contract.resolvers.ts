@@ -3,6 +3,40 @@ import { resolverLogger } from '../../utils/resolverLogger';
 import { calculatePagination, getUserId } from './common';
 import { Contract, ContractStatus, RoomStatus } from '@prisma/client';
 import { nanoid } from 'nanoid';
+import {
+  getDepositSettlement,
+  recordDepositCollection,
+  settleDeposit,
+  validateExtraDeductions
+} from '../../services/billing';
+import {
+  assertRoomAvailable,
+  createSuccessorContract,
+  getRenewalChain,
+  initialContractStatus,
+  reconcileRoomStatus
+} from '../../services/contracts';
+import { contractFilters } from '../../services/exports';
+
+/**
+ * Load a contract and make sure the current user manages its room
+ */
+async function getManagedContract(ctx: GraphQLContext, id: string) {
+  const contract = await ctx.prisma.contract.findUnique({
+    where: { id },
+    include: { room: { include: { property: true } } }
+  });
+
+  if (!contract) {
+    throw new Error('Contract not found');
+  }
+
+  if (ctx.user!.role !== 'ADMIN' && contract.room.property.userId !== ctx.user!.id) {
+    throw new Error('You do not have permission to manage this contract');
+  }
+
+  return contract;
+}
 
 // Contract resolvers
 export const contractResolvers = {
@@ -80,37 +114,7 @@ export const contractResolvers = {
         }
 
         // Build where clause for filters
-        const where: any = {
-          ...(roomId && { roomId }),
-          ...(renterId && { renters: { some: { id: renterId } } } ),
-          ...(status && { status: status as ContractStatus }),
-          ...(type && { type }),
-          ...(search && {
-            OR: [
-              { name: { contains: search, mode: 'insensitive' } },
-              { renters: { some: { name: { contains: search, mode: 'insensitive' } } } },
-              { room: { number: { contains: search, mode: 'insensitive' } } }
-            ],
-          }),
-        };
-
-        // Add date range filter if provided
-        if (dateFrom || dateTo) {
-          where.OR = [
-            {
-              startDate: {
-                ...(dateFrom && { gte: dateFrom }),
-                ...(dateTo && { lte: dateTo })
-              }
-            },
-            {
-              endDate: {
-                ...(dateTo && { lte: dateTo }),
-                ...(dateFrom && { gte: dateFrom })
-              }
-            }
-          ];
-        }
+        const where = contractFilters({ search, roomId, renterId, status, type, dateFrom, dateTo });
 
         // Get total count for pagination
         const totalCount = await ctx.prisma.contract.count({ where });
@@ -138,6 +142,46 @@ export const contractResolvers = {
         throw error;
       }
     },
+
+    // Get a contract's deposit settlement, or a preview of it while the contract is still running
+    depositSettlement: async (_: any, { contractId }: { contractId: string }, ctx: GraphQLContext) => {
+      const resolverName = 'depositSettlement';
+      try {
+        resolverLogger.log(resolverName, { contractId }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view deposit settlements');
+        }
+
+        await getManagedContract(ctx, contractId);
+
+        return await getDepositSettlement(ctx.prisma, contractId);
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Get every contract in a renewal chain, from the original contract to the latest renewal
+    contractRenewalChain: async (_: any, { contractId }: { contractId: string }, ctx: GraphQLContext) => {
+      const resolverName = 'contractRenewalChain';
+      try {
+        resolverLogger.log(resolverName, { contractId }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view contracts');
+        }
+
+        await getManagedContract(ctx, contractId);
+
+        return await getRenewalChain(ctx.prisma, contractId);
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
   },
 
   Mutation: {
@@ -173,9 +217,14 @@ export const contractResolvers = {
           throw new Error('At least one renter is required');
         }
 
+        // Future-dated contracts are booked as PENDING and reserve the room until they start
+        const startDate = new Date(input.startDate);
+        const endDate = new Date(input.endDate);
+        const status = initialContractStatus(startDate);
+
         // Handle contract creation with transaction to ensure room status is updated together
         const contract = await ctx.prisma.$transaction(async (prisma) => {
-          // Check if room exists and is available
+          // Check if room exists and is free for the contract's dates
           const room = await prisma.room.findUnique({
             where: { id: input.roomId }
           });
@@ -184,10 +233,12 @@ export const contractResolvers = {
             throw new Error('Room not found');
           }
 
-          if (room.status !== 'AVAILABLE') {
-            throw new Error(`Room is currently ${room.status.toLowerCase()}`);
+          if (status === 'ACTIVE' && room.status === 'MAINTENANCE') {
+            throw new Error('Room is currently under maintenance');
           }
 
+          await assertRoomAvailable(prisma, input.roomId, startDate, endDate);
+
           // Check if renters exist
           const renters = await prisma.renter.findMany({
             where: { id: { in: input.renterIds } }
@@ -197,19 +248,22 @@ export const contractResolvers = {
             throw new Error('One or more renters not found');
           }
 
-          // Update room status to OCCUPIED
-          await prisma.room.update({
-            where: { id: input.roomId },
-            data: {
-              status: 'OCCUPIED' as RoomStatus
-            }
-          });
+          // Occupy the room now, or reserve it if it is free until the contract starts
+          if (status === 'ACTIVE' || room.status === 'AVAILABLE') {
+            await prisma.room.update({
+              where: { id: input.roomId },
+              data: {
+                status: (status === 'ACTIVE' ? 'OCCUPIED' : 'RESERVED') as RoomStatus
+              }
+            });
+          }
 
           // Create the contract
           const createdContract = await prisma.contract.create({
             data: {
               id: nanoid(),
               ...input,
+              status,
               updatedAt: new Date(),
               renters: {
                 connect: input.renterIds.map((id: string) => ({ id })),
@@ -221,6 +275,9 @@ export const contractResolvers = {
             }
           });
 
+          // Bill the security deposit so its collection shows up on the ledger
+          await recordDepositCollection(prisma, createdContract);
+
           return createdContract;
         });
 
@@ -257,8 +314,27 @@ export const contractResolvers = {
           throw new Error('Contract not found');
         }
 
+        // A booking must not overlap another one, whether it was moved or a cancelled or expired contract is reopened
+        const datesChanged = input.roomId !== undefined || input.startDate !== undefined || input.endDate !== undefined;
+        const isBooking = ['PENDING', 'ACTIVE'].includes(input.status || existingContract.status);
+
         // Handle contract update with transaction to ensure room status is updated together
         const updatedContract = await ctx.prisma.$transaction(async (prisma) => {
+          if (isBooking) {
+            const startDate = input.startDate !== undefined ? input.startDate : existingContract.startDate;
+            const endDate = input.endDate !== undefined ? input.endDate : existingContract.endDate;
+
+            if (startDate) {
+              await assertRoomAvailable(
+                prisma,
+                input.roomId || existingContract.roomId,
+                new Date(startDate),
+                endDate ? new Date(endDate) : null,
+                [id]
+              );
+            }
+          }
+
           // Update the contract
           const updated = await prisma.contract.update({
             where: { id },
@@ -269,25 +345,11 @@ export const contractResolvers = {
             }
           });
 
-          // Handle room status changes if contract status changes
-          if (input.status === 'TERMINATED' || input.status === 'EXPIRED') {
-            // Check if this is the active contract for the room
-            const isActiveContractForRoom = await prisma.contract.count({
-              where: {
-                id: { not: id },
-                roomId: updated.roomId,
-                renters: { some: { id: { in: updated.renters.map(r => r.id) } } }
-              }
-            }) === 0;
-
-            // If this was the active contract, set room to AVAILABLE
-            if (isActiveContractForRoom) {
-              await prisma.room.update({
-                where: { id: updated.roomId },
-                data: {
-                  status: 'AVAILABLE' as RoomStatus
-                }
-              });
+          // Other bookings may still hold the room, so derive its status from all of them
+          if (input.status !== undefined || input.roomId !== undefined || datesChanged) {
+            await reconcileRoomStatus(prisma, updated.roomId);
+            if (updated.roomId !== existingContract.roomId) {
+              await reconcileRoomStatus(prisma, existingContract.roomId);
             }
           }
 
@@ -341,23 +403,81 @@ export const contractResolvers = {
       }
     },
 
+    // Renew a contract with a new term, optionally changing the rent
+    renewContract: async (
+      _: any,
+      { id, input }: { id: string; input: any },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'renewContract';
+      try {
+        resolverLogger.log(resolverName, { id, input }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to renew a contract');
+        }
+
+        await getManagedContract(ctx, id);
+
+        const renewal = await createSuccessorContract(ctx.prisma, id, input);
+
+        resolverLogger.log(resolverName, { renewed: id, successor: renewal.id });
+        return renewal;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Extend a contract to a later end date on the same terms, optionally changing the rent
+    extendContract: async (
+      _: any,
+      { id, endDate, amount }: { id: string; endDate: Date; amount?: number },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'extendContract';
+      try {
+        resolverLogger.log(resolverName, { id, endDate, amount }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to extend a contract');
+        }
+
+        await getManagedContract(ctx, id);
+
+        const extension = await createSuccessorContract(ctx.prisma, id, { endDate, amount });
+
+        resolverLogger.log(resolverName, { extended: id, successor: extension.id });
+        return extension;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
     // Terminate a contract
     terminateContract: async (
       _: any,
       {
         id,
         reason,
-        terminationDate = new Date()
+        terminationDate = new Date(),
+        deductions,
+        settlementNotes
       }: {
         id: string;
         reason?: string;
         terminationDate?: Date;
+        deductions?: { description: string; amount: number }[];
+        settlementNotes?: string;
       },
       ctx: GraphQLContext
     ) => {
       const resolverName = 'terminateContract';
       try {
-        resolverLogger.log(resolverName, { id, reason, terminationDate }, getUserId(ctx));
+        resolverLogger.log(resolverName, { id, reason, terminationDate, deductions }, getUserId(ctx));
 
         // Check authentication
         if (!ctx.user) {
@@ -387,7 +507,9 @@ export const contractResolvers = {
           throw new Error(`Contract is already ${contract.status.toLowerCase()}`);
         }
 
-        // Terminate contract transaction
+        validateExtraDeductions(deductions);
+
+        // Terminate contract transaction, settling the deposit with it
         const terminatedContract = await ctx.prisma.$transaction(async (prisma) => {
           // Update the contract
           const updated = await prisma.contract.update({
@@ -403,23 +525,23 @@ export const contractResolvers = {
             }
           });
 
-          // Check if this is the active contract for the room
-          const isActiveContractForRoom = await prisma.contract.count({
-            where: {
-              id: { not: id },
-              roomId: contract.roomId,
-              renters: { some: { id: { in: updated.renters.map(r => r.id) } } }
-            }
-          }) === 0;
-
-          // If this was the active contract, set room to AVAILABLE
-          if (isActiveContractForRoom) {
-            await prisma.room.update({
-              where: { id: contract.roomId },
-              data: {
-                status: 'AVAILABLE' as RoomStatus
-              }
+          // Another booking may still hold the room, so derive its status from the rest
+          await reconcileRoomStatus(prisma, contract.roomId);
+
+          // Settle the security deposit against what the renters still owe,
+          // unless it was carried over to a renewal
+          const renewed = await prisma.contract.count({ where: { previousContractId: id } }) > 0;
+          const hasDeposit = !renewed && (!!contract.securityDeposit || (await prisma.payment.count({
+            where: { contractId: id, type: 'DEPOSIT' }
+          })) > 0);
+
+          if (hasDeposit) {
+            const settlement = await settleDeposit(prisma, id, {
+              asOf: terminationDate,
+              extraDeductions: deductions,
+              notes: settlementNotes
             });
+            resolverLogger.log(resolverName, { refundDue: settlement.refundDue, amountOwed: settlement.amountOwed });
           }
 
           return updated;
@@ -432,6 +554,60 @@ export const contractResolvers = {
         throw error;
       }
     },
+
+    // Settle the deposit of a contract that ran to its end date; terminated contracts are settled on termination
+    settleDeposit: async (
+      _: any,
+      {
+        contractId,
+        deductions,
+        notes
+      }: {
+        contractId: string;
+        deductions?: { description: string; amount: number }[];
+        notes?: string;
+      },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'settleDeposit';
+      try {
+        resolverLogger.log(resolverName, { contractId, deductions }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to settle a deposit');
+        }
+
+        const contract = await getManagedContract(ctx, contractId);
+
+        if (contract.status !== 'EXPIRED') {
+          throw new Error('Only the deposit of an expired contract can be settled on its own');
+        }
+
+        const renewed = await ctx.prisma.contract.count({ where: { previousContractId: contractId } }) > 0;
+        if (renewed) {
+          throw new Error('The deposit was carried over to the renewal of this contract');
+        }
+
+        validateExtraDeductions(deductions);
+
+        const settlement = await ctx.prisma.$transaction((prisma) => settleDeposit(prisma, contractId, {
+          asOf: contract.endDate || new Date(),
+          extraDeductions: deductions,
+          notes
+        }));
+
+        resolverLogger.log(resolverName, {
+          settled: contractId,
+          refundDue: settlement.refundDue,
+          amountOwed: settlement.amountOwed
+        });
+        return settlement;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
   },
 
   // Contract type resolvers
@@ -478,5 +654,28 @@ export const contractResolvers = {
         where: { contractId: parent.id }
       });
     },
+
+    // Resolver for previousContract field
+    previousContract: async (parent: Contract, _: any, ctx: GraphQLContext) => {
+      if (!parent.previousContractId) return null;
+      return ctx.prisma.contract.findUnique({
+        where: { id: parent.previousContractId }
+      });
+    },
+
+    // Resolver for nextContract field
+    nextContract: async (parent: Contract, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.contract.findUnique({
+        where: { previousContractId: parent.id }
+      });
+    },
+
+    // Resolver for depositSettlement field, only set once the deposit has been settled
+    depositSettlement: async (parent: Contract, _: any, ctx: GraphQLContext) => {
+      const settled = await ctx.prisma.depositSettlement.count({
+        where: { contractId: parent.id }
+      });
+      return settled ? getDepositSettlement(ctx.prisma, parent.id) : null;
+    },
   },
 };
\ No newline at end of file
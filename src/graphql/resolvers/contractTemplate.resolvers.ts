@@ -0,0 +1,219 @@
+import { GraphQLContext } from '../context';
+import { resolverLogger } from '../../utils/resolverLogger';
+import { getUserId } from './common';
+import { ContractTemplate } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { generateContractDocument, TEMPLATE_PLACEHOLDERS, validateTemplateContent } from '../../services/contracts';
+
+/**
+ * Load a contract template and make sure the current user owns it
+ */
+async function getManagedContractTemplate(ctx: GraphQLContext, id: string) {
+  const template = await ctx.prisma.contractTemplate.findUnique({
+    where: { id }
+  });
+
+  if (!template) {
+    throw new Error('Contract template not found');
+  }
+
+  if (ctx.user!.role !== 'ADMIN' && template.userId !== ctx.user!.id) {
+    throw new Error('You do not have permission to manage this contract template');
+  }
+
+  return template;
+}
+
+// Contract template resolvers
+export const contractTemplateResolvers = {
+  Query: {
+    // Get a single contract template by ID
+    contractTemplate: async (_: any, { id }: { id: string }, ctx: GraphQLContext) => {
+      const resolverName = 'contractTemplate';
+      try {
+        resolverLogger.log(resolverName, { id }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view contract templates');
+        }
+
+        return await getManagedContractTemplate(ctx, id);
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // List the current user's contract templates (all templates for admins)
+    contractTemplates: async (_: any, __: any, ctx: GraphQLContext) => {
+      const resolverName = 'contractTemplates';
+      try {
+        resolverLogger.log(resolverName, {}, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view contract templates');
+        }
+
+        return await ctx.prisma.contractTemplate.findMany({
+          where: ctx.user.role !== 'ADMIN' ? { userId: ctx.user.id } : undefined,
+          orderBy: { name: 'asc' }
+        });
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Placeholders that can be used in template content
+    contractTemplatePlaceholders: () => [...TEMPLATE_PLACEHOLDERS]
+  },
+
+  Mutation: {
+    // Create a contract template owned by the current user
+    createContractTemplate: async (
+      _: any,
+      { input }: { input: { name: string; description?: string; content: string } },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'createContractTemplate';
+      try {
+        resolverLogger.log(resolverName, { name: input.name }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to create a contract template');
+        }
+
+        if (!input.name.trim()) {
+          throw new Error('Template name is required');
+        }
+
+        validateTemplateContent(input.content);
+
+        const template = await ctx.prisma.contractTemplate.create({
+          data: {
+            id: nanoid(),
+            ...input,
+            userId: ctx.user.id,
+            updatedAt: new Date()
+          }
+        });
+
+        resolverLogger.log(resolverName, { created: template.id });
+        return template;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Update a contract template
+    updateContractTemplate: async (
+      _: any,
+      { id, input }: { id: string; input: { name?: string; description?: string; content?: string } },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'updateContractTemplate';
+      try {
+        resolverLogger.log(resolverName, { id, name: input.name }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to update a contract template');
+        }
+
+        await getManagedContractTemplate(ctx, id);
+
+        if (input.name !== undefined && !input.name.trim()) {
+          throw new Error('Template name is required');
+        }
+
+        if (input.content !== undefined) {
+          validateTemplateContent(input.content);
+        }
+
+        const template = await ctx.prisma.contractTemplate.update({
+          where: { id },
+          data: { ...input, updatedAt: new Date() }
+        });
+
+        resolverLogger.log(resolverName, { updated: id });
+        return template;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Delete a contract template; documents already generated from it are kept
+    deleteContractTemplate: async (_: any, { id }: { id: string }, ctx: GraphQLContext) => {
+      const resolverName = 'deleteContractTemplate';
+      try {
+        resolverLogger.log(resolverName, { id }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to delete a contract template');
+        }
+
+        await getManagedContractTemplate(ctx, id);
+
+        await ctx.prisma.contractTemplate.delete({ where: { id } });
+
+        resolverLogger.log(resolverName, { deleted: id });
+        return true;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Render a contract from a template as a PDF and attach it to the contract and its renters
+    generateContractDocument: async (
+      _: any,
+      { contractId, templateId }: { contractId: string; templateId: string },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'generateContractDocument';
+      try {
+        resolverLogger.log(resolverName, { contractId, templateId }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to generate a contract document');
+        }
+
+        const contract = await ctx.prisma.contract.findUnique({
+          where: { id: contractId },
+          include: { room: { include: { property: true } } }
+        });
+
+        if (!contract) {
+          throw new Error('Contract not found');
+        }
+
+        if (ctx.user.role !== 'ADMIN' && contract.room.property.userId !== ctx.user.id) {
+          throw new Error('You do not have permission to manage this contract');
+        }
+
+        await getManagedContractTemplate(ctx, templateId);
+
+        const updated = await generateContractDocument(ctx.prisma, contractId, templateId);
+
+        resolverLogger.log(resolverName, { generated: contractId, document: updated.document });
+        return updated;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    }
+  },
+
+  ContractTemplate: {
+    user: async (parent: ContractTemplate, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.user.findUnique({ where: { id: parent.userId } });
+    }
+  }
+};
@@ -2,6 +2,25 @@ import { GraphQLContext } from '../context';
 import { resolverLogger } from '../../utils/resolverLogger';
 import { PaginatedResult, getUserId, calculatePagination } from './common';
 import { nanoid } from 'nanoid';
+import { createSignedFileUrl, isExternalPath, removeDocumentFiles } from '../../services/storage';
+import {
+  DOCUMENT_EXPIRY_NOTICE_DAYS,
+  expiringDocumentsWhere,
+  resetDocumentExpiryNotices
+} from '../../services/documents';
+
+// Files are uploaded through the REST route; GraphQL only accepts links to files hosted elsewhere
+function validateDocumentPath(path: string) {
+  if (!isExternalPath(path)) {
+    throw new Error('Document path must be an http(s) URL; upload files with POST /uploads/documents');
+  }
+}
+
+function validateDocumentDates(issueDate?: Date | null, expiryDate?: Date | null) {
+  if (issueDate && expiryDate && expiryDate <= issueDate) {
+    throw new Error('Expiry date must be after the issue date');
+  }
+}
 
 /**
  * Check if the user has access to a specific document
@@ -243,6 +262,46 @@ export const documentResolvers = {
         throw error; // Just rethrow the error
       }
     },
+
+    // Documents expiring between today and the given number of days from now, soonest first
+    expiringDocuments: async (
+      _: any,
+      { withinDays = DOCUMENT_EXPIRY_NOTICE_DAYS, type }: { withinDays?: number; type?: string },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'expiringDocuments';
+      try {
+        resolverLogger.log(resolverName, { withinDays, type }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view documents');
+        }
+
+        if (withinDays < 0) {
+          throw new Error('withinDays cannot be negative');
+        }
+
+        const where: any = {
+          ...expiringDocumentsWhere(withinDays),
+          ...(type && { type }),
+        };
+
+        // Non-admins only see documents of renters in their properties
+        if (ctx.user.role !== 'ADMIN') {
+          where.renter = { room: { property: { userId: ctx.user.id } } };
+        }
+
+        resolverLogger.db('findMany', 'Document', where);
+        return await ctx.prisma.document.findMany({
+          where,
+          orderBy: { expiryDate: 'asc' },
+        });
+      } catch (error: any) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
   },
 
   Mutation: {
@@ -268,6 +327,9 @@ export const documentResolvers = {
           throw new Error('Renter ID is required');
         }
 
+        validateDocumentPath(input.path);
+        validateDocumentDates(input.issueDate, input.expiryDate);
+
         // Check if renter exists
         resolverLogger.db('findUnique', 'Renter', { id: input.renterId });
         const renter = await ctx.prisma.renter.findUnique({
@@ -347,13 +409,48 @@ export const documentResolvers = {
           }
         }
 
+        if (input.path !== undefined) {
+          validateDocumentPath(input.path);
+        }
+
+        validateDocumentDates(
+          input.issueDate !== undefined ? input.issueDate : document.issueDate,
+          input.expiryDate !== undefined ? input.expiryDate : document.expiryDate
+        );
+
+        // A verification only vouches for the file and dates that were checked
+        const sameDate = (a?: Date | null, b?: Date | null) => (a?.getTime() ?? null) === (b?.getTime() ?? null);
+        const checkedDetailsChanged =
+          (input.path !== undefined && input.path !== document.path) ||
+          (input.type !== undefined && input.type !== document.type) ||
+          (input.issueDate !== undefined && !sameDate(input.issueDate, document.issueDate)) ||
+          (input.expiryDate !== undefined && !sameDate(input.expiryDate, document.expiryDate));
+
         // Update the document
         resolverLogger.db('update', 'Document', { id });
         const updatedDocument = await ctx.prisma.document.update({
           where: { id },
-          data: input,
+          data: {
+            ...input,
+            ...(checkedDetailsChanged && document.verificationStatus !== 'PENDING' && {
+              verificationStatus: 'PENDING',
+              verificationNote: null,
+              verifiedAt: null,
+              verifiedById: null
+            })
+          },
         });
 
+        // Replacing an uploaded file with a link leaves the old file unused
+        if (input.path !== undefined && input.path !== document.path) {
+          await removeDocumentFiles(ctx.prisma, document);
+        }
+
+        // A new expiry date needs a new reminder
+        if (input.expiryDate !== undefined && input.expiryDate?.getTime() !== document.expiryDate?.getTime()) {
+          await resetDocumentExpiryNotices(ctx.prisma, id);
+        }
+
         resolverLogger.log(resolverName, { updated: id });
         return updatedDocument;
       } catch (error: any) {
@@ -398,6 +495,8 @@ export const documentResolvers = {
           where: { id },
         });
 
+        await removeDocumentFiles(ctx.prisma, document);
+
         resolverLogger.log(resolverName, { deleted: id });
         return true;
       } catch (error: any) {
@@ -405,6 +504,65 @@ export const documentResolvers = {
         throw error; // Just rethrow the error
       }
     },
+
+    // Record that a document was checked, and by whom (VERIFIED or REJECTED)
+    verifyDocument: async (
+      _: any,
+      { id, status = 'VERIFIED', note }: { id: string; status?: string; note?: string },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'verifyDocument';
+      try {
+        resolverLogger.log(resolverName, { id, status }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to verify a document');
+        }
+
+        if (status !== 'VERIFIED' && status !== 'REJECTED') {
+          throw new Error('Verification status must be VERIFIED or REJECTED');
+        }
+
+        if (status === 'REJECTED' && !note) {
+          throw new Error('A note is required when rejecting a document');
+        }
+
+        resolverLogger.db('findUnique', 'Document', { id });
+        const document = await ctx.prisma.document.findUnique({
+          where: { id },
+        });
+
+        if (!document) {
+          throw new Error('Document not found');
+        }
+
+        if (ctx.user.role !== 'ADMIN') {
+          const hasAccess = await checkDocumentAccess(ctx, document);
+          if (!hasAccess) {
+            throw new Error('You do not have permission to verify this document');
+          }
+        }
+
+        resolverLogger.db('update', 'Document', { id });
+        const verified = await ctx.prisma.document.update({
+          where: { id },
+          data: {
+            verificationStatus: status,
+            verificationNote: note,
+            verifiedAt: new Date(),
+            verifiedById: ctx.user.id,
+            updatedAt: new Date(),
+          },
+        });
+
+        resolverLogger.log(resolverName, { verified: id, status });
+        return verified;
+      } catch (error: any) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
   },
 
   // Document type resolvers
@@ -417,5 +575,29 @@ export const documentResolvers = {
         where: { id: parent.renterId },
       });
     },
+
+    // Resolver for verifiedBy field
+    verifiedBy: async (parent: any, _: any, ctx: GraphQLContext) => {
+      if (!parent.verifiedById) return null;
+
+      return ctx.prisma.user.findUnique({
+        where: { id: parent.verifiedById },
+      });
+    },
+
+    // Short-lived signed link to the file, only for users who may read the document
+    downloadUrl: async (parent: any, _: any, ctx: GraphQLContext) => {
+      if (isExternalPath(parent.path)) return parent.path;
+      if (!(await checkDocumentAccess(ctx, parent))) return null;
+
+      return createSignedFileUrl(parent.path);
+    },
+
+    thumbnailUrl: async (parent: any, _: any, ctx: GraphQLContext) => {
+      if (!parent.thumbnailPath) return null;
+      if (!(await checkDocumentAccess(ctx, parent))) return null;
+
+      return createSignedFileUrl(parent.thumbnailPath);
+    },
   },
 };
\ No newline at end of file
@@ -0,0 +1,465 @@
+import { GraphQLContext } from '../context';
+import { resolverLogger } from '../../utils/resolverLogger';
+import { calculatePagination, getUserId } from './common';
+import { Event, EventTarget, EventType, NotifyMethod, Prisma } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { computeNextRun, fireEvent, validateSchedule } from '../../services/scheduler';
+
+const EVENT_TYPES = Object.values(EventType) as string[];
+const NOTIFY_METHODS = Object.values(NotifyMethod) as string[];
+const SORT_FIELDS = ['name', 'eventType', 'nextRun', 'lastRun', 'active', 'createdAt'];
+
+/**
+ * Load an event and make sure the current user may manage it
+ */
+async function getOwnedEvent(ctx: GraphQLContext, id: string) {
+  const event = await ctx.prisma.event.findUnique({
+    where: { id },
+    include: { eventTargets: true }
+  });
+
+  if (!event) {
+    throw new Error('Event not found');
+  }
+
+  if (ctx.user!.role !== 'ADMIN' && event.createdById !== ctx.user!.id) {
+    throw new Error('You do not have permission to manage this event');
+  }
+
+  return event;
+}
+
+/**
+ * Validate enum values supplied as strings
+ */
+function validateEventInput(input: any) {
+  if (input.eventType && !EVENT_TYPES.includes(input.eventType)) {
+    throw new Error(`Invalid event type: ${input.eventType}`);
+  }
+
+  if (input.notifyBy) {
+    const invalid = input.notifyBy.filter((method: string) => !NOTIFY_METHODS.includes(method));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid notification method: ${invalid.join(', ')}`);
+    }
+  }
+}
+
+/**
+ * Validate an event target: exactly one of room, renter or user must be set.
+ * Rooms and renters must be in a property the current user manages.
+ */
+async function validateTarget(ctx: GraphQLContext, target: any) {
+  const keys = ['roomId', 'renterId', 'userId'].filter((key) => target[key]);
+  if (keys.length !== 1) {
+    throw new Error('An event target must reference exactly one of room, renter or user');
+  }
+
+  if (target.roomId) {
+    const room = await ctx.prisma.room.findUnique({
+      where: { id: target.roomId },
+      include: { property: true }
+    });
+    if (!room) {
+      throw new Error('Room not found');
+    }
+    if (ctx.user!.role !== 'ADMIN' && room.property.userId !== ctx.user!.id) {
+      throw new Error('You do not have permission to target this room');
+    }
+  }
+  if (target.renterId) {
+    const renter = await ctx.prisma.renter.findUnique({
+      where: { id: target.renterId },
+      include: { room: { include: { property: true } } }
+    });
+    if (!renter) {
+      throw new Error('Renter not found');
+    }
+    if (ctx.user!.role !== 'ADMIN' && renter.room?.property.userId !== ctx.user!.id) {
+      throw new Error('You do not have permission to target this renter');
+    }
+  }
+  if (target.userId && !(await ctx.prisma.user.findUnique({ where: { id: target.userId } }))) {
+    throw new Error('User not found');
+  }
+}
+
+// Event resolvers
+export const eventResolvers = {
+  Query: {
+    // Get a single event by ID
+    event: async (_: any, { id }: { id: string }, ctx: GraphQLContext) => {
+      const resolverName = 'event';
+      try {
+        resolverLogger.log(resolverName, { id }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view event details');
+        }
+
+        return await getOwnedEvent(ctx, id);
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Get a list of events with pagination and filtering
+    events: async (
+      _: any,
+      {
+        page = 1,
+        limit = 10,
+        search,
+        eventType,
+        active,
+        sortBy = 'nextRun',
+        sortOrder = 'asc',
+      }: {
+        page?: number;
+        limit?: number;
+        search?: string;
+        eventType?: string;
+        active?: boolean;
+        sortBy?: string;
+        sortOrder?: 'asc' | 'desc';
+      },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'events';
+      try {
+        resolverLogger.log(resolverName, { page, limit, search, eventType, active }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view events');
+        }
+
+        // Build where clause for filters
+        const where: Prisma.EventWhereInput = {
+          ...(ctx.user.role !== 'ADMIN' && { createdById: ctx.user.id }),
+          ...(eventType && { eventType: eventType as EventType }),
+          ...(active !== undefined && active !== null && { active }),
+          ...(search && {
+            OR: [
+              { name: { contains: search, mode: 'insensitive' } },
+              { message: { contains: search, mode: 'insensitive' } }
+            ]
+          })
+        };
+
+        const sortField = SORT_FIELDS.includes(sortBy) ? sortBy : 'nextRun';
+
+        // Get total count for pagination
+        const totalCount = await ctx.prisma.event.count({ where });
+
+        // Get events with pagination, sorting, and filtering
+        const events = await ctx.prisma.event.findMany({
+          skip: (page - 1) * limit,
+          take: limit,
+          where,
+          orderBy: { [sortField]: sortOrder === 'desc' ? 'desc' : 'asc' },
+          include: { eventTargets: true }
+        });
+
+        // Return paginated result
+        const result = calculatePagination(page, limit, totalCount, events);
+
+        resolverLogger.log(resolverName, { total: totalCount });
+        return result;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+  },
+
+  Mutation: {
+    // Create a new event with its targets
+    createEvent: async (_: any, { input }: { input: any }, ctx: GraphQLContext) => {
+      const resolverName = 'createEvent';
+      try {
+        resolverLogger.log(resolverName, { input }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to create an event');
+        }
+
+        // Validate required fields
+        const requiredFields = [
+          { field: 'name', message: 'Name is required' },
+          { field: 'message', message: 'Message is required' },
+        ];
+
+        for (const { field, message } of requiredFields) {
+          if (!input[field]) {
+            throw new Error(message);
+          }
+        }
+
+        validateEventInput(input);
+
+        const { targets = [], ...eventInput } = input;
+        const schedule = {
+          eventType: (eventInput.eventType || 'ONE_TIME') as EventType,
+          scheduleDate: eventInput.scheduleDate || null,
+          scheduleDay: eventInput.scheduleDay ?? null,
+          scheduleTime: eventInput.scheduleTime || null
+        };
+        validateSchedule(schedule);
+
+        for (const target of targets) {
+          await validateTarget(ctx, target);
+        }
+
+        // Create the event
+        const event = await ctx.prisma.event.create({
+          data: {
+            id: nanoid(),
+            ...eventInput,
+            notifyBy: eventInput.notifyBy || ['IN_APP'],
+            nextRun: computeNextRun(schedule),
+            createdById: ctx.user.id,
+            updatedAt: new Date(),
+            eventTargets: {
+              create: targets.map((target: any) => ({ id: nanoid(), ...target }))
+            }
+          },
+          include: { eventTargets: true }
+        });
+
+        resolverLogger.log(resolverName, { created: event.id });
+        return event;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Update an existing event and recompute its next run
+    updateEvent: async (
+      _: any,
+      { id, input }: { id: string; input: any },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'updateEvent';
+      try {
+        resolverLogger.log(resolverName, { id, input }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to update an event');
+        }
+
+        const existingEvent = await getOwnedEvent(ctx, id);
+
+        validateEventInput(input);
+
+        const schedule = {
+          eventType: (input.eventType || existingEvent.eventType) as EventType,
+          scheduleDate: input.scheduleDate !== undefined ? input.scheduleDate : existingEvent.scheduleDate,
+          scheduleDay: input.scheduleDay !== undefined ? input.scheduleDay : existingEvent.scheduleDay,
+          scheduleTime: input.scheduleTime !== undefined ? input.scheduleTime : existingEvent.scheduleTime
+        };
+        validateSchedule(schedule);
+
+        // Update the event
+        const updatedEvent = await ctx.prisma.event.update({
+          where: { id },
+          data: {
+            ...input,
+            nextRun: computeNextRun(schedule),
+            updatedAt: new Date()
+          },
+          include: { eventTargets: true }
+        });
+
+        resolverLogger.log(resolverName, { updated: id });
+        return updatedEvent;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Delete an event (targets are removed by cascade)
+    deleteEvent: async (_: any, { id }: { id: string }, ctx: GraphQLContext) => {
+      const resolverName = 'deleteEvent';
+      try {
+        resolverLogger.log(resolverName, { id }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to delete an event');
+        }
+
+        await getOwnedEvent(ctx, id);
+
+        await ctx.prisma.event.delete({
+          where: { id }
+        });
+
+        resolverLogger.log(resolverName, { deleted: id });
+        return true;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Add a room, renter or user target to an event
+    addEventTarget: async (
+      _: any,
+      { eventId, input }: { eventId: string; input: any },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'addEventTarget';
+      try {
+        resolverLogger.log(resolverName, { eventId, input }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to update an event');
+        }
+
+        const event = await getOwnedEvent(ctx, eventId);
+        await validateTarget(ctx, input);
+
+        const duplicate = event.eventTargets.some((target) =>
+          (input.roomId && target.roomId === input.roomId) ||
+          (input.renterId && target.renterId === input.renterId) ||
+          (input.userId && target.userId === input.userId)
+        );
+
+        if (duplicate) {
+          throw new Error('This target is already assigned to the event');
+        }
+
+        const eventTarget = await ctx.prisma.eventTarget.create({
+          data: {
+            id: nanoid(),
+            eventId,
+            ...input
+          }
+        });
+
+        resolverLogger.log(resolverName, { created: eventTarget.id });
+        return eventTarget;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Remove a target from an event
+    removeEventTarget: async (_: any, { id }: { id: string }, ctx: GraphQLContext) => {
+      const resolverName = 'removeEventTarget';
+      try {
+        resolverLogger.log(resolverName, { id }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to update an event');
+        }
+
+        const eventTarget = await ctx.prisma.eventTarget.findUnique({
+          where: { id }
+        });
+
+        if (!eventTarget) {
+          throw new Error('Event target not found');
+        }
+
+        await getOwnedEvent(ctx, eventTarget.eventId);
+
+        await ctx.prisma.eventTarget.delete({
+          where: { id }
+        });
+
+        resolverLogger.log(resolverName, { deleted: id });
+        return true;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Fire an event immediately, outside of its schedule
+    runEvent: async (_: any, { id }: { id: string }, ctx: GraphQLContext) => {
+      const resolverName = 'runEvent';
+      try {
+        resolverLogger.log(resolverName, { id }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to run an event');
+        }
+
+        const event = await getOwnedEvent(ctx, id);
+        const firedEvent = await fireEvent(ctx.prisma, event);
+
+        resolverLogger.log(resolverName, { fired: id });
+        return firedEvent;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+  },
+
+  // Event type resolvers
+  Event: {
+    // Resolver for createdBy field
+    createdBy: async (parent: Event, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.user.findUnique({
+        where: { id: parent.createdById }
+      });
+    },
+
+    // Resolver for targets field
+    targets: async (parent: Event & { eventTargets?: EventTarget[] }, _: any, ctx: GraphQLContext) => {
+      if (parent.eventTargets) {
+        return parent.eventTargets;
+      }
+      return ctx.prisma.eventTarget.findMany({
+        where: { eventId: parent.id }
+      });
+    },
+  },
+
+  // EventTarget type resolvers
+  EventTarget: {
+    // Resolver for event field
+    event: async (parent: EventTarget, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.event.findUnique({
+        where: { id: parent.eventId }
+      });
+    },
+
+    // Resolver for room field
+    room: async (parent: EventTarget, _: any, ctx: GraphQLContext) => {
+      if (!parent.roomId) return null;
+      return ctx.prisma.room.findUnique({
+        where: { id: parent.roomId }
+      });
+    },
+
+    // Resolver for renter field
+    renter: async (parent: EventTarget, _: any, ctx: GraphQLContext) => {
+      if (!parent.renterId) return null;
+      return ctx.prisma.renter.findUnique({
+        where: { id: parent.renterId }
+      });
+    },
+
+    // Resolver for user field
+    user: async (parent: EventTarget, _: any, ctx: GraphQLContext) => {
+      if (!parent.userId) return null;
+      return ctx.prisma.user.findUnique({
+        where: { id: parent.userId }
+      });
+    },
+  },
+};
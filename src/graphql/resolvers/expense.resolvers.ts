@@ -0,0 +1,415 @@
+import { GraphQLContext } from '../context';
+import { resolverLogger } from '../../utils/resolverLogger';
+import { calculatePagination, getUserId } from './common';
+import { Expense, ExpenseCategory, Prisma } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import {
+  createSignedFileUrl,
+  isExternalPath,
+  storeUploadedFile,
+  UploadedFile
+} from '../../services/storage';
+import { removeReceiptFile } from '../../services/expenses';
+
+const EXPENSE_CATEGORIES = Object.values(ExpenseCategory) as string[];
+
+interface ExpenseInput {
+  name?: string;
+  amount?: number;
+  date?: Date;
+  category?: string;
+  description?: string;
+  propertyId?: string;
+  roomId?: string | null;
+  maintenanceEventId?: string | null;
+}
+
+/**
+ * Make sure the current user manages the given property
+ */
+async function assertManagesProperty(ctx: GraphQLContext, propertyId: string) {
+  const property = await ctx.prisma.property.findUnique({
+    where: { id: propertyId }
+  });
+
+  if (!property) {
+    throw new Error('Property not found');
+  }
+
+  if (ctx.user!.role !== 'ADMIN' && property.userId !== ctx.user!.id) {
+    throw new Error('You do not have permission to manage this property');
+  }
+
+  return property;
+}
+
+/**
+ * Load an expense and make sure the current user manages its property
+ */
+async function getManagedExpense(ctx: GraphQLContext, id: string) {
+  const expense = await ctx.prisma.expense.findUnique({
+    where: { id },
+    include: { property: true }
+  });
+
+  if (!expense) {
+    throw new Error('Expense not found');
+  }
+
+  // Expenses recorded before they were kept per property have none, and only admins can manage them
+  if (ctx.user!.role !== 'ADMIN' && expense.property?.userId !== ctx.user!.id) {
+    throw new Error('You do not have permission to manage this expense');
+  }
+
+  return expense;
+}
+
+/**
+ * Check amounts and categories, and that the linked room and maintenance event belong to the property
+ */
+async function validateExpenseInput(
+  ctx: GraphQLContext,
+  input: ExpenseInput,
+  propertyId: string | null,
+  expenseId?: string
+) {
+  if (input.name !== undefined && !input.name.trim()) {
+    throw new Error('Expense name is required');
+  }
+
+  if (input.amount !== undefined && input.amount <= 0) {
+    throw new Error('Amount must be greater than zero');
+  }
+
+  if (input.category !== undefined && !EXPENSE_CATEGORIES.includes(input.category)) {
+    throw new Error(`Invalid expense category: ${input.category}`);
+  }
+
+  if (input.roomId) {
+    const room = await ctx.prisma.room.findUnique({ where: { id: input.roomId } });
+    if (!room || room.propertyId !== propertyId) {
+      throw new Error('Room does not belong to this property');
+    }
+  }
+
+  if (input.maintenanceEventId) {
+    const maintenanceEvent = await ctx.prisma.maintenanceEvent.findUnique({
+      where: { id: input.maintenanceEventId },
+      include: { room: true, expense: true }
+    });
+
+    if (!maintenanceEvent || maintenanceEvent.room.propertyId !== propertyId) {
+      throw new Error('Maintenance event does not belong to this property');
+    }
+
+    if (maintenanceEvent.expense && maintenanceEvent.expense.id !== expenseId) {
+      throw new Error('This maintenance event already has an expense');
+    }
+  }
+}
+
+// Expense resolvers
+export const expenseResolvers = {
+  Query: {
+    // Get a single expense by ID
+    expense: async (_: any, { id }: { id: string }, ctx: GraphQLContext) => {
+      const resolverName = 'expense';
+      try {
+        resolverLogger.log(resolverName, { id }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view expenses');
+        }
+
+        return await getManagedExpense(ctx, id);
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Get a list of expenses with pagination and filtering
+    expenses: async (
+      _: any,
+      {
+        page = 1,
+        limit = 10,
+        propertyId,
+        roomId,
+        category,
+        fromDate,
+        toDate,
+        sortBy = 'date',
+        sortOrder = 'desc',
+      }: {
+        page?: number;
+        limit?: number;
+        propertyId?: string;
+        roomId?: string;
+        category?: string;
+        fromDate?: Date;
+        toDate?: Date;
+        sortBy?: string;
+        sortOrder?: 'asc' | 'desc';
+      },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'expenses';
+      try {
+        resolverLogger.log(resolverName, {
+          page, limit, propertyId, roomId, category, fromDate, toDate
+        }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view expenses');
+        }
+
+        const where: Prisma.ExpenseWhereInput = {
+          ...(propertyId && { propertyId }),
+          ...(roomId && { roomId }),
+          ...(category && { category: category as ExpenseCategory }),
+          ...(fromDate || toDate) && {
+            date: {
+              ...(fromDate && { gte: fromDate }),
+              ...(toDate && { lte: toDate })
+            }
+          },
+          ...(ctx.user.role !== 'ADMIN' && { property: { userId: ctx.user.id } })
+        };
+
+        const validSortFields = ['date', 'amount', 'name', 'category', 'createdAt'];
+        const sortField = validSortFields.includes(sortBy) ? sortBy : 'date';
+
+        const [totalCount, totals, expenses] = await Promise.all([
+          ctx.prisma.expense.count({ where }),
+          ctx.prisma.expense.aggregate({ where, _sum: { amount: true } }),
+          ctx.prisma.expense.findMany({
+            skip: (page - 1) * limit,
+            take: limit,
+            where,
+            orderBy: { [sortField]: sortOrder === 'asc' ? 'asc' : 'desc' }
+          })
+        ]);
+
+        const result = {
+          ...calculatePagination(page, limit, totalCount, expenses),
+          totalAmount: totals._sum.amount || 0
+        };
+
+        resolverLogger.log(resolverName, { total: totalCount });
+        return result;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+  },
+
+  Mutation: {
+    // Record an expense against a property
+    createExpense: async (
+      _: any,
+      { input }: { input: ExpenseInput & { name: string; amount: number; date: Date; category: string; propertyId: string } },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'createExpense';
+      try {
+        resolverLogger.log(resolverName, { input }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to create an expense');
+        }
+
+        await assertManagesProperty(ctx, input.propertyId);
+        await validateExpenseInput(ctx, input, input.propertyId);
+
+        const expense = await ctx.prisma.expense.create({
+          data: {
+            id: nanoid(),
+            ...input,
+            category: input.category as ExpenseCategory,
+            createdById: ctx.user.id,
+            updatedAt: new Date()
+          }
+        });
+
+        resolverLogger.log(resolverName, { created: expense.id });
+        return expense;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Update an expense
+    updateExpense: async (
+      _: any,
+      { id, input }: { id: string; input: ExpenseInput },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'updateExpense';
+      try {
+        resolverLogger.log(resolverName, { id, input }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to update an expense');
+        }
+
+        const expense = await getManagedExpense(ctx, id);
+        const propertyId = input.propertyId || expense.propertyId;
+
+        if (input.propertyId && input.propertyId !== expense.propertyId) {
+          await assertManagesProperty(ctx, input.propertyId);
+        }
+
+        await validateExpenseInput(
+          ctx,
+          {
+            ...input,
+            // Re-check links that would otherwise move to another property with the expense
+            roomId: input.roomId !== undefined ? input.roomId : expense.roomId,
+            maintenanceEventId: input.maintenanceEventId !== undefined ? input.maintenanceEventId : expense.maintenanceEventId
+          },
+          propertyId,
+          id
+        );
+
+        const updated = await ctx.prisma.expense.update({
+          where: { id },
+          data: {
+            ...input,
+            category: input.category as ExpenseCategory | undefined,
+            // Once edited by hand, a booked maintenance expense no longer follows its event
+            autoBooked: false,
+            updatedAt: new Date()
+          }
+        });
+
+        resolverLogger.log(resolverName, { updated: id });
+        return updated;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Delete an expense and its receipt
+    deleteExpense: async (_: any, { id }: { id: string }, ctx: GraphQLContext) => {
+      const resolverName = 'deleteExpense';
+      try {
+        resolverLogger.log(resolverName, { id }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to delete an expense');
+        }
+
+        const expense = await getManagedExpense(ctx, id);
+
+        await ctx.prisma.expense.delete({ where: { id } });
+        await removeReceiptFile(expense.receipt);
+
+        resolverLogger.log(resolverName, { deleted: id });
+        return true;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Attach a receipt (PDF or image) to an expense, replacing any previous one
+    attachExpenseReceipt: async (
+      _: any,
+      { id, file }: { id: string; file: UploadedFile },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'attachExpenseReceipt';
+      try {
+        resolverLogger.log(resolverName, { id, fileName: file.originalname }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to attach a receipt');
+        }
+
+        const expense = await getManagedExpense(ctx, id);
+
+        const stored = await storeUploadedFile(file, `receipts/${expense.propertyId || 'unassigned'}`, { thumbnail: false });
+
+        const updated = await ctx.prisma.expense.update({
+          where: { id },
+          data: { receipt: stored.path, updatedAt: new Date() }
+        });
+
+        await removeReceiptFile(expense.receipt);
+
+        resolverLogger.log(resolverName, { attached: id, path: stored.path });
+        return updated;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Remove an expense's receipt
+    removeExpenseReceipt: async (_: any, { id }: { id: string }, ctx: GraphQLContext) => {
+      const resolverName = 'removeExpenseReceipt';
+      try {
+        resolverLogger.log(resolverName, { id }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to remove a receipt');
+        }
+
+        const expense = await getManagedExpense(ctx, id);
+
+        const updated = await ctx.prisma.expense.update({
+          where: { id },
+          data: { receipt: null, updatedAt: new Date() }
+        });
+
+        await removeReceiptFile(expense.receipt);
+
+        resolverLogger.log(resolverName, { removed: id });
+        return updated;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+  },
+
+  // Expense type resolvers
+  Expense: {
+    property: async (parent: Expense, _: any, ctx: GraphQLContext) => {
+      if (!parent.propertyId) return null;
+      return ctx.prisma.property.findUnique({ where: { id: parent.propertyId } });
+    },
+
+    room: async (parent: Expense, _: any, ctx: GraphQLContext) => {
+      if (!parent.roomId) return null;
+      return ctx.prisma.room.findUnique({ where: { id: parent.roomId } });
+    },
+
+    maintenanceEvent: async (parent: Expense, _: any, ctx: GraphQLContext) => {
+      if (!parent.maintenanceEventId) return null;
+      return ctx.prisma.maintenanceEvent.findUnique({ where: { id: parent.maintenanceEventId } });
+    },
+
+    createdBy: async (parent: Expense, _: any, ctx: GraphQLContext) => {
+      if (!parent.createdById) return null;
+      return ctx.prisma.user.findUnique({ where: { id: parent.createdById } });
+    },
+
+    // Short-lived signed link to the receipt
+    receiptUrl: (parent: Expense) => {
+      if (!parent.receipt) return null;
+      return isExternalPath(parent.receipt) ? parent.receipt : createSignedFileUrl(parent.receipt);
+    },
+  },
+};
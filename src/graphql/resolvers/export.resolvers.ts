@@ -0,0 +1,172 @@
+import { GraphQLContext } from '../context';
+import { resolverLogger } from '../../utils/resolverLogger';
+import { calculatePagination, getUserId } from './common';
+import { ExportJob } from '@prisma/client';
+import { createSignedFileUrl } from '../../services/storage';
+import {
+  createExportJob,
+  ExportFormat,
+  getExportDataset,
+  removeExportJob
+} from '../../services/exports';
+
+interface ExportJobInput {
+  dataset: string;
+  format?: string;
+  filters?: Record<string, unknown>;
+  columns?: string[];
+  dateFormat?: string;
+}
+
+/**
+ * Load an export job and make sure it belongs to the current user
+ */
+async function getOwnExportJob(ctx: GraphQLContext, id: string) {
+  const job = await ctx.prisma.exportJob.findUnique({ where: { id } });
+
+  if (!job) {
+    throw new Error('Export job not found');
+  }
+
+  if (ctx.user!.role !== 'ADMIN' && job.userId !== ctx.user!.id) {
+    throw new Error('You do not have permission to access this export');
+  }
+
+  return job;
+}
+
+// Export resolvers
+export const exportResolvers = {
+  Query: {
+    // Columns available for an export, in default order
+    exportColumns: async (_: any, { dataset }: { dataset: string }, ctx: GraphQLContext) => {
+      const resolverName = 'exportColumns';
+      try {
+        resolverLogger.log(resolverName, { dataset }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to export data');
+        }
+
+        return getExportDataset(dataset).columns.map(({ key, header, date }) => ({ key, header, date: !!date }));
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Get a single export job by ID
+    exportJob: async (_: any, { id }: { id: string }, ctx: GraphQLContext) => {
+      const resolverName = 'exportJob';
+      try {
+        resolverLogger.log(resolverName, { id }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view exports');
+        }
+
+        return await getOwnExportJob(ctx, id);
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // The current user's export jobs, newest first
+    exportJobs: async (
+      _: any,
+      { page = 1, limit = 10 }: { page?: number; limit?: number },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'exportJobs';
+      try {
+        resolverLogger.log(resolverName, { page, limit }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view exports');
+        }
+
+        const where = { userId: ctx.user.id };
+
+        const [totalCount, jobs] = await Promise.all([
+          ctx.prisma.exportJob.count({ where }),
+          ctx.prisma.exportJob.findMany({
+            skip: (page - 1) * limit,
+            take: limit,
+            where,
+            orderBy: { createdAt: 'desc' }
+          })
+        ]);
+
+        resolverLogger.log(resolverName, { total: totalCount });
+        return calculatePagination(page, limit, totalCount, jobs);
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+  },
+
+  Mutation: {
+    // Queue an export of a list query to run in the background
+    createExportJob: async (_: any, { input }: { input: ExportJobInput }, ctx: GraphQLContext) => {
+      const resolverName = 'createExportJob';
+      try {
+        resolverLogger.log(resolverName, { input }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to export data');
+        }
+
+        const job = await createExportJob(ctx.prisma, ctx.user, {
+          dataset: input.dataset,
+          format: (input.format || 'CSV').toUpperCase() as ExportFormat,
+          filters: input.filters || {},
+          columns: input.columns || [],
+          dateFormat: input.dateFormat
+        });
+
+        resolverLogger.log(resolverName, { created: job.id });
+        return job;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Delete an export job and its file
+    deleteExportJob: async (_: any, { id }: { id: string }, ctx: GraphQLContext) => {
+      const resolverName = 'deleteExportJob';
+      try {
+        resolverLogger.log(resolverName, { id }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to delete an export');
+        }
+
+        const job = await getOwnExportJob(ctx, id);
+        await removeExportJob(ctx.prisma, job);
+
+        resolverLogger.log(resolverName, { deleted: id });
+        return true;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+  },
+
+  // ExportJob type resolvers
+  ExportJob: {
+    // Short-lived signed link to the finished file
+    downloadUrl: (parent: ExportJob) => {
+      if (parent.status !== 'COMPLETED' || !parent.path) return null;
+      return createSignedFileUrl(parent.path);
+    },
+  },
+};
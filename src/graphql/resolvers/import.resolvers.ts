@@ -0,0 +1,60 @@
+import { GraphQLContext } from '../context';
+import { resolverLogger } from '../../utils/resolverLogger';
+import { getUserId } from './common';
+import { UploadedFile } from '../../services/storage';
+import { getImportEntity, importCsv } from '../../services/imports';
+
+// Import resolvers
+export const importResolvers = {
+  Query: {
+    // Columns an import file may contain
+    importColumns: async (_: any, { entity }: { entity: string }, ctx: GraphQLContext) => {
+      const resolverName = 'importColumns';
+      try {
+        resolverLogger.log(resolverName, { entity }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to import data');
+        }
+
+        return getImportEntity(entity).columns;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    }
+  },
+
+  Mutation: {
+    // Check a CSV file and, unless it is a dry run, import it
+    importCsv: async (
+      _: any,
+      { entity, file, dryRun = true }: { entity: string; file: UploadedFile; dryRun?: boolean },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'importCsv';
+      try {
+        resolverLogger.log(resolverName, { entity, fileName: file.originalname, dryRun }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to import data');
+        }
+
+        const report = await importCsv(ctx.prisma, ctx.user, entity, file.buffer.toString('utf8'), dryRun);
+
+        resolverLogger.log(resolverName, {
+          committed: report.committed,
+          created: report.created,
+          updated: report.updated,
+          errors: report.errors.length
+        });
+        return report;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    }
+  }
+};
@@ -6,11 +6,25 @@ import { renterResolvers } from './renter.resolvers';
 import { documentResolvers } from './document.resolvers';
 import { authResolvers } from './auth.resolvers';
 import { contractResolvers } from './contract.resolvers';
+import { contractTemplateResolvers } from './contractTemplate.resolvers';
 import { serviceResolvers } from './service.resolvers';
+import { roomServiceResolvers } from './roomService.resolvers';
+import { meterResolvers } from './meter.resolvers';
 import { paymentResolvers } from './payment.resolvers';
+import { paymentTransactionResolvers } from './paymentTransaction.resolvers';
 import { maintenanceResolvers } from './maintenance.resolvers';
+import { maintenanceRequestResolvers } from './maintenanceRequest.resolvers';
+import { expenseResolvers } from './expense.resolvers';
+import { exportResolvers } from './export.resolvers';
+import { importResolvers } from './import.resolvers';
 import { propertyResolvers } from './property.resolvers';
 import { themeSettingsResolvers } from './themeSettings.resolvers';
+import { eventResolvers } from './event.resolvers';
+import { notificationResolvers } from './notification.resolvers';
+import { billingResolvers } from './billing.resolvers';
+import { reportResolvers } from './report.resolvers';
+import { portalResolvers } from './portal.resolvers';
+import { applyPermissionExcept, isNotRenter } from '../utils/permissions';
 import { merge } from 'lodash';
 
 // Create base resolver object with scalars
@@ -19,29 +33,86 @@ const baseResolvers = {
   
   Query: {},
   Mutation: {},
+  Subscription: {},
   
   // Type resolvers
   Room: roomResolvers.Room,
+  RoomImage: roomResolvers.RoomImage,
   Renter: renterResolvers.Renter,
   Document: documentResolvers.Document,
   Contract: contractResolvers.Contract,
+  ContractTemplate: contractTemplateResolvers.ContractTemplate,
   Service: serviceResolvers.Service,
+  RoomService: roomServiceResolvers.RoomService,
+  Meter: meterResolvers.Meter,
+  MeterReading: meterResolvers.MeterReading,
   Payment: paymentResolvers.Payment,
+  PaymentTransaction: paymentTransactionResolvers.PaymentTransaction,
+  PaymentAllocation: paymentTransactionResolvers.PaymentAllocation,
+  PaymentAllocationResult: paymentTransactionResolvers.PaymentAllocationResult,
   MaintenanceEvent: maintenanceResolvers.MaintenanceEvent,
+  MaintenanceRequest: maintenanceRequestResolvers.MaintenanceRequest,
+  Expense: expenseResolvers.Expense,
+  ExportJob: exportResolvers.ExportJob,
+  Event: eventResolvers.Event,
+  EventTarget: eventResolvers.EventTarget,
+  NotificationDelivery: notificationResolvers.NotificationDelivery,
 };
 
+// Operations open to renters; everything else is for managers
+const RENTER_OPERATIONS = [
+  'me',
+  'login',
+  'register',
+  'logout',
+  'refreshToken',
+  'changePassword',
+  'notifications',
+  'unreadNotificationCount',
+  'markNotificationRead',
+  'markAllNotificationsRead',
+  'myTenancy',
+  'updateMyContactDetails',
+  'myMaintenanceRequests',
+  'submitMaintenanceRequest',
+  'rateMaintenanceRequest'
+];
+
 // Combine all resolvers using merge to avoid overwriting
-export const resolvers = merge(
+const mergedResolvers = merge(
   baseResolvers,
   { Query: authResolvers.Query, Mutation: authResolvers.Mutation },
   { Query: roomResolvers.Query, Mutation: roomResolvers.Mutation },
   { Query: renterResolvers.Query, Mutation: renterResolvers.Mutation },
   { Query: documentResolvers.Query, Mutation: documentResolvers.Mutation },
   { Query: contractResolvers.Query, Mutation: contractResolvers.Mutation },
+  { Query: contractTemplateResolvers.Query, Mutation: contractTemplateResolvers.Mutation },
   { Query: serviceResolvers.Query, Mutation: serviceResolvers.Mutation },
+  { Query: roomServiceResolvers.Query, Mutation: roomServiceResolvers.Mutation },
+  { Query: meterResolvers.Query, Mutation: meterResolvers.Mutation },
   { Query: paymentResolvers.Query, Mutation: paymentResolvers.Mutation },
+  { Query: paymentTransactionResolvers.Query, Mutation: paymentTransactionResolvers.Mutation },
   { Query: maintenanceResolvers.Query, Mutation: maintenanceResolvers.Mutation },
+  { Query: maintenanceRequestResolvers.Query, Mutation: maintenanceRequestResolvers.Mutation },
+  { Query: expenseResolvers.Query, Mutation: expenseResolvers.Mutation },
+  { Query: exportResolvers.Query, Mutation: exportResolvers.Mutation },
+  { Query: importResolvers.Query, Mutation: importResolvers.Mutation },
   propertyResolvers,
   { Query: themeSettingsResolvers.Query, Mutation: themeSettingsResolvers.Mutation },
-  { User: themeSettingsResolvers.User }
-); 
\ No newline at end of file
+  { User: themeSettingsResolvers.User },
+  { Query: eventResolvers.Query, Mutation: eventResolvers.Mutation },
+  {
+    Query: notificationResolvers.Query,
+    Mutation: notificationResolvers.Mutation,
+    Subscription: notificationResolvers.Subscription
+  },
+  { Query: billingResolvers.Query, Mutation: billingResolvers.Mutation },
+  { Query: reportResolvers.Query },
+  { Query: portalResolvers.Query, Mutation: portalResolvers.Mutation }
+);
+
+export const resolvers = {
+  ...mergedResolvers,
+  Query: applyPermissionExcept(isNotRenter, mergedResolvers.Query as Record<string, Function>, RENTER_OPERATIONS),
+  Mutation: applyPermissionExcept(isNotRenter, mergedResolvers.Mutation as Record<string, Function>, RENTER_OPERATIONS)
+}; 
\ No newline at end of file
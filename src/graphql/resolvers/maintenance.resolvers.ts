@@ -1,8 +1,12 @@
 import { GraphQLContext } from '../context';
 import { resolverLogger } from '../../utils/resolverLogger';
 import { calculatePagination } from './common';
-import { MaintenanceEvent, Prisma, MaintenanceStatus, MaintenancePriority } from '@prisma/client';
+import { MaintenanceEvent, MaintenanceStatus, MaintenancePriority } from '@prisma/client';
 import { nanoid } from 'nanoid';
+import { notifyMaintenanceRequested } from '../../services/notifications';
+import { recordMaintenanceExpense } from '../../services/expenses';
+import { maintenanceEventFilters } from '../../services/exports';
+import { notifyMaintenanceProgress } from '../../services/maintenance';
 
 // Function to safely get user ID for logging
 function getUserId(ctx: GraphQLContext): string {
@@ -92,17 +96,7 @@ export const maintenanceResolvers = {
         }
 
         // Build where clause for filters
-        const where: Prisma.MaintenanceEventWhereInput = {
-          ...(roomId && { roomId }),
-          ...(status && { status: status as MaintenanceStatus }),
-          ...(priority && { priority: priority as MaintenancePriority }),
-          ...(fromDate || toDate) && {
-            scheduledDate: {
-              ...(fromDate && { gte: new Date(fromDate) }),
-              ...(toDate && { lte: new Date(toDate) })
-            }
-          }
-        };
+        const where = maintenanceEventFilters({ roomId, status, priority, fromDate, toDate });
         
         // Get total count for pagination
         const totalCount = await ctx.prisma.maintenanceEvent.count({ where });
@@ -189,6 +183,16 @@ export const maintenanceResolvers = {
           include: { room: true }
         });
 
+        // Alert the property owner's dashboard
+        await notifyMaintenanceRequested(ctx.prisma, maintenanceEvent).catch((error) =>
+          resolverLogger.error(resolverName, error)
+        );
+
+        // Work logged as already completed is booked as an expense straight away; the event is saved either way
+        await recordMaintenanceExpense(ctx.prisma, maintenanceEvent, ctx.user.id).catch((error) =>
+          resolverLogger.error(resolverName, error)
+        );
+
         resolverLogger.log(resolverName, { created: maintenanceEvent.id });
         return maintenanceEvent;
       } catch (error) {
@@ -241,6 +245,14 @@ export const maintenanceResolvers = {
           include: { room: true }
         });
 
+        // Book the cost of completed work as an expense, keeping it in step with later cost and status changes
+        await recordMaintenanceExpense(ctx.prisma, updatedMaintenanceEvent, ctx.user.id).catch((error) =>
+          resolverLogger.error(resolverName, error)
+        );
+
+        // Let renters whose requests became this work follow its progress
+        await notifyMaintenanceProgress(ctx.prisma, updatedMaintenanceEvent, maintenanceEvent.status);
+
         resolverLogger.log(resolverName, { updated: id, status: input.status });
         return updatedMaintenanceEvent;
       } catch (error) {
@@ -298,6 +310,21 @@ export const maintenanceResolvers = {
         where: { id: parent.roomId }
       });
     },
+
+    // Resolver for expense field
+    expense: async (parent: MaintenanceEvent, _args: unknown, ctx: GraphQLContext) => {
+      return ctx.prisma.expense.findUnique({
+        where: { maintenanceEventId: parent.id }
+      });
+    },
+
+    // Resolver for requests field - renters' requests this work came from
+    requests: async (parent: MaintenanceEvent, _args: unknown, ctx: GraphQLContext) => {
+      return ctx.prisma.maintenanceRequest.findMany({
+        where: { maintenanceEventId: parent.id },
+        orderBy: { createdAt: 'asc' }
+      });
+    },
   },
 };
 
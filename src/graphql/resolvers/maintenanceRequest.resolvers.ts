@@ -0,0 +1,219 @@
+import { GraphQLContext } from '../context';
+import { resolverLogger } from '../../utils/resolverLogger';
+import { calculatePagination, getUserId } from './common';
+import { MaintenanceRequest, MaintenanceRequestStatus, Prisma } from '@prisma/client';
+import { createSignedFileUrl } from '../../services/storage';
+import {
+  AcceptRequestInput,
+  acceptMaintenanceRequest,
+  managedRequestsWhere,
+  mergeMaintenanceRequest,
+  rejectMaintenanceRequest
+} from '../../services/maintenance';
+
+/**
+ * Load a maintenance request and make sure it is for a room in one of the user's properties
+ */
+async function getManagedMaintenanceRequest(ctx: GraphQLContext, id: string) {
+  const request = await ctx.prisma.maintenanceRequest.findUnique({
+    where: { id },
+    include: { room: { include: { property: true } } }
+  });
+
+  if (!request) {
+    throw new Error('Maintenance request not found');
+  }
+
+  if (ctx.user!.role !== 'ADMIN' && request.room.property.userId !== ctx.user!.id) {
+    throw new Error('You do not have permission to manage this maintenance request');
+  }
+
+  return request;
+}
+
+// MaintenanceRequest resolvers
+export const maintenanceRequestResolvers = {
+  Query: {
+    // Get a single maintenance request by ID
+    maintenanceRequest: async (_: any, { id }: { id: string }, ctx: GraphQLContext) => {
+      const resolverName = 'maintenanceRequest';
+      try {
+        resolverLogger.log(resolverName, { id }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view maintenance requests');
+        }
+
+        return await getManagedMaintenanceRequest(ctx, id);
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Renters' maintenance requests for the user's properties, oldest first so triage works through them in order
+    maintenanceRequests: async (
+      _: any,
+      {
+        page = 1,
+        limit = 10,
+        status,
+        roomId,
+        propertyId
+      }: { page?: number; limit?: number; status?: string; roomId?: string; propertyId?: string },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'maintenanceRequests';
+      try {
+        resolverLogger.log(resolverName, { page, limit, status, roomId, propertyId }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view maintenance requests');
+        }
+
+        const where: Prisma.MaintenanceRequestWhereInput = {
+          AND: [
+            managedRequestsWhere(ctx.user),
+            {
+              ...(status && { status: status as MaintenanceRequestStatus }),
+              ...(roomId && { roomId }),
+              ...(propertyId && { room: { propertyId } })
+            }
+          ]
+        };
+
+        const [totalCount, requests] = await Promise.all([
+          ctx.prisma.maintenanceRequest.count({ where }),
+          ctx.prisma.maintenanceRequest.findMany({
+            skip: (page - 1) * limit,
+            take: limit,
+            where,
+            orderBy: { createdAt: 'asc' }
+          })
+        ]);
+
+        resolverLogger.log(resolverName, { total: totalCount });
+        return calculatePagination(page, limit, totalCount, requests);
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    }
+  },
+
+  Mutation: {
+    // Accept a request and schedule the work as a maintenance event
+    acceptMaintenanceRequest: async (
+      _: any,
+      { id, input }: { id: string; input: AcceptRequestInput },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'acceptMaintenanceRequest';
+      try {
+        resolverLogger.log(resolverName, { id, input }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to triage maintenance requests');
+        }
+
+        const request = await getManagedMaintenanceRequest(ctx, id);
+        const accepted = await acceptMaintenanceRequest(ctx.prisma, request, input, ctx.user.id);
+
+        resolverLogger.log(resolverName, { accepted: id, maintenanceEventId: accepted.maintenanceEventId });
+        return accepted;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Turn down a request with a reason for the renter
+    rejectMaintenanceRequest: async (
+      _: any,
+      { id, reason }: { id: string; reason: string },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'rejectMaintenanceRequest';
+      try {
+        resolverLogger.log(resolverName, { id, reason }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to triage maintenance requests');
+        }
+
+        const request = await getManagedMaintenanceRequest(ctx, id);
+        const rejected = await rejectMaintenanceRequest(ctx.prisma, request, reason, ctx.user.id);
+
+        resolverLogger.log(resolverName, { rejected: id });
+        return rejected;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Merge a duplicate request into another request for the same room
+    mergeMaintenanceRequest: async (
+      _: any,
+      { id, intoId }: { id: string; intoId: string },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'mergeMaintenanceRequest';
+      try {
+        resolverLogger.log(resolverName, { id, intoId }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to triage maintenance requests');
+        }
+
+        const request = await getManagedMaintenanceRequest(ctx, id);
+        const into = await getManagedMaintenanceRequest(ctx, intoId);
+        const merged = await mergeMaintenanceRequest(ctx.prisma, request, into, ctx.user.id);
+
+        resolverLogger.log(resolverName, { merged: id, into: intoId });
+        return merged;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    }
+  },
+
+  // MaintenanceRequest type resolvers
+  MaintenanceRequest: {
+    renter: async (parent: MaintenanceRequest, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.renter.findUnique({ where: { id: parent.renterId } });
+    },
+
+    room: async (parent: MaintenanceRequest, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.room.findUnique({ where: { id: parent.roomId } });
+    },
+
+    maintenanceEvent: async (parent: MaintenanceRequest, _: any, ctx: GraphQLContext) => {
+      if (!parent.maintenanceEventId) return null;
+      return ctx.prisma.maintenanceEvent.findUnique({ where: { id: parent.maintenanceEventId } });
+    },
+
+    duplicateOf: async (parent: MaintenanceRequest, _: any, ctx: GraphQLContext) => {
+      if (!parent.duplicateOfId) return null;
+      return ctx.prisma.maintenanceRequest.findUnique({ where: { id: parent.duplicateOfId } });
+    },
+
+    duplicates: async (parent: MaintenanceRequest, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.maintenanceRequest.findMany({
+        where: { duplicateOfId: parent.id },
+        orderBy: { createdAt: 'asc' }
+      });
+    },
+
+    // Short-lived signed links to the renter's photos
+    photoUrls: (parent: MaintenanceRequest) => {
+      return parent.photos.map((path) => createSignedFileUrl(path));
+    }
+  }
+};
@@ -0,0 +1,413 @@
+import { GraphQLContext } from '../context';
+import { resolverLogger } from '../../utils/resolverLogger';
+import { calculatePagination, getUserId } from './common';
+import { Meter, MeterReading, MeterType, Prisma } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { recordMeterReading, TariffTier, validateTiers } from '../../services/billing';
+
+const METER_TYPES = Object.values(MeterType) as string[];
+
+function validateMeterType(type: string) {
+  if (!METER_TYPES.includes(type)) {
+    throw new Error(`Invalid meter type: ${type}`);
+  }
+}
+
+/**
+ * Make sure the current user manages the given property
+ */
+async function assertManagesProperty(ctx: GraphQLContext, propertyId: string) {
+  const property = await ctx.prisma.property.findUnique({
+    where: { id: propertyId }
+  });
+
+  if (!property) {
+    throw new Error('Property not found');
+  }
+
+  if (ctx.user!.role !== 'ADMIN' && property.userId !== ctx.user!.id) {
+    throw new Error('You do not have permission to manage this property');
+  }
+
+  return property;
+}
+
+/**
+ * Load a meter and make sure the current user manages its room
+ */
+async function getManagedMeter(ctx: GraphQLContext, id: string) {
+  const meter = await ctx.prisma.meter.findUnique({
+    where: { id },
+    include: { room: { include: { property: true } } }
+  });
+
+  if (!meter) {
+    throw new Error('Meter not found');
+  }
+
+  if (ctx.user!.role !== 'ADMIN' && meter.room.property.userId !== ctx.user!.id) {
+    throw new Error('You do not have permission to manage this meter');
+  }
+
+  return meter;
+}
+
+// Meter resolvers
+export const meterResolvers = {
+  Query: {
+    // Get a single meter by ID
+    meter: async (_: any, { id }: { id: string }, ctx: GraphQLContext) => {
+      const resolverName = 'meter';
+      try {
+        resolverLogger.log(resolverName, { id }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view meters');
+        }
+
+        return await getManagedMeter(ctx, id);
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // List meters by room or property
+    meters: async (
+      _: any,
+      {
+        roomId,
+        propertyId,
+        type,
+        active,
+      }: {
+        roomId?: string;
+        propertyId?: string;
+        type?: string;
+        active?: boolean;
+      },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'meters';
+      try {
+        resolverLogger.log(resolverName, { roomId, propertyId, type, active }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view meters');
+        }
+
+        const where: Prisma.MeterWhereInput = {
+          ...(roomId && { roomId }),
+          ...(type && { type: type as MeterType }),
+          ...(active !== undefined && { active }),
+          room: {
+            ...(propertyId && { propertyId }),
+            ...(ctx.user.role !== 'ADMIN' && { property: { userId: ctx.user.id } })
+          }
+        };
+
+        return await ctx.prisma.meter.findMany({
+          where,
+          orderBy: [{ roomId: 'asc' }, { type: 'asc' }]
+        });
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Get a meter's reading history, newest period first
+    meterReadings: async (
+      _: any,
+      {
+        meterId,
+        page = 1,
+        limit = 12,
+      }: {
+        meterId: string;
+        page?: number;
+        limit?: number;
+      },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'meterReadings';
+      try {
+        resolverLogger.log(resolverName, { meterId, page, limit }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view meter readings');
+        }
+
+        await getManagedMeter(ctx, meterId);
+
+        const where: Prisma.MeterReadingWhereInput = { meterId };
+
+        // Get total count for pagination
+        const totalCount = await ctx.prisma.meterReading.count({ where });
+
+        const readings = await ctx.prisma.meterReading.findMany({
+          skip: (page - 1) * limit,
+          take: limit,
+          where,
+          orderBy: { period: 'desc' }
+        });
+
+        // Return paginated result
+        const result = calculatePagination(page, limit, totalCount, readings);
+
+        resolverLogger.log(resolverName, { total: totalCount });
+        return result;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Get the utility tariffs configured for a property
+    utilityTariffs: async (_: any, { propertyId }: { propertyId: string }, ctx: GraphQLContext) => {
+      const resolverName = 'utilityTariffs';
+      try {
+        resolverLogger.log(resolverName, { propertyId }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view utility tariffs');
+        }
+
+        await assertManagesProperty(ctx, propertyId);
+
+        return await ctx.prisma.utilityTariff.findMany({
+          where: { propertyId },
+          orderBy: { meterType: 'asc' }
+        });
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+  },
+
+  Mutation: {
+    // Register a meter in a room, billed through one of the room's services
+    registerMeter: async (_: any, { input }: { input: any }, ctx: GraphQLContext) => {
+      const resolverName = 'registerMeter';
+      try {
+        resolverLogger.log(resolverName, { input }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to register meters');
+        }
+
+        validateMeterType(input.type);
+
+        const roomService = await ctx.prisma.roomService.findUnique({
+          where: { id: input.roomServiceId },
+          include: { room: { include: { property: true } } }
+        });
+
+        if (!roomService || roomService.roomId !== input.roomId) {
+          throw new Error('Room service not found for this room');
+        }
+
+        if (ctx.user.role !== 'ADMIN' && roomService.room.property.userId !== ctx.user.id) {
+          throw new Error('You do not have permission to manage meters for this room');
+        }
+
+        // Only one active meter of each type per room
+        const existingMeter = await ctx.prisma.meter.findFirst({
+          where: { roomId: input.roomId, type: input.type as MeterType, active: true }
+        });
+
+        if (existingMeter) {
+          throw new Error(`Room already has an active ${input.type.toLowerCase()} meter`);
+        }
+
+        if (input.initialReading != null && input.initialReading < 0) {
+          throw new Error('Initial reading cannot be negative');
+        }
+
+        const meter = await ctx.prisma.meter.create({
+          data: {
+            id: nanoid(),
+            ...input,
+            type: input.type as MeterType,
+            updatedAt: new Date()
+          }
+        });
+
+        resolverLogger.log(resolverName, { created: meter.id });
+        return meter;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Update a meter's details or deactivate it
+    updateMeter: async (
+      _: any,
+      { id, input }: { id: string; input: any },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'updateMeter';
+      try {
+        resolverLogger.log(resolverName, { id, input }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to update meters');
+        }
+
+        const meter = await getManagedMeter(ctx, id);
+
+        if (input.roomServiceId) {
+          const roomService = await ctx.prisma.roomService.findUnique({
+            where: { id: input.roomServiceId }
+          });
+
+          if (!roomService || roomService.roomId !== meter.roomId) {
+            throw new Error('Room service not found for this room');
+          }
+        }
+
+        const updatedMeter = await ctx.prisma.meter.update({
+          where: { id },
+          data: {
+            ...input,
+            updatedAt: new Date()
+          }
+        });
+
+        resolverLogger.log(resolverName, { updated: id });
+        return updatedMeter;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Create or replace a property's tier table for a meter type
+    setUtilityTariff: async (
+      _: any,
+      {
+        propertyId,
+        meterType,
+        tiers,
+      }: {
+        propertyId: string;
+        meterType: string;
+        tiers: TariffTier[];
+      },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'setUtilityTariff';
+      try {
+        resolverLogger.log(resolverName, { propertyId, meterType, tiers }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to configure utility tariffs');
+        }
+
+        validateMeterType(meterType);
+        await assertManagesProperty(ctx, propertyId);
+
+        const normalizedTiers = tiers.map((tier) => ({
+          upTo: tier.upTo ?? null,
+          unitPrice: tier.unitPrice
+        }));
+        validateTiers(normalizedTiers);
+
+        const tariff = await ctx.prisma.utilityTariff.upsert({
+          where: { propertyId_meterType: { propertyId, meterType: meterType as MeterType } },
+          create: {
+            id: nanoid(),
+            propertyId,
+            meterType: meterType as MeterType,
+            tiers: normalizedTiers as unknown as Prisma.InputJsonValue,
+            updatedAt: new Date()
+          },
+          update: {
+            tiers: normalizedTiers as unknown as Prisma.InputJsonValue,
+            updatedAt: new Date()
+          }
+        });
+
+        resolverLogger.log(resolverName, { tariff: tariff.id });
+        return tariff;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Record a monthly reading and bill its consumption
+    recordMeterReading: async (_: any, { input }: { input: any }, ctx: GraphQLContext) => {
+      const resolverName = 'recordMeterReading';
+      try {
+        resolverLogger.log(resolverName, { input }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to record meter readings');
+        }
+
+        await getManagedMeter(ctx, input.meterId);
+
+        const reading = await recordMeterReading(ctx.prisma, input);
+
+        resolverLogger.log(resolverName, { created: reading.id, consumption: reading.consumption, amount: reading.amount });
+        return reading;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+  },
+
+  // Meter type resolvers
+  Meter: {
+    // Resolver for room field
+    room: async (parent: Meter, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.room.findUnique({
+        where: { id: parent.roomId }
+      });
+    },
+
+    // Resolver for roomService field
+    roomService: async (parent: Meter, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.roomService.findUnique({
+        where: { id: parent.roomServiceId }
+      });
+    },
+
+    // Resolver for latestReading field
+    latestReading: async (parent: Meter, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.meterReading.findFirst({
+        where: { meterId: parent.id },
+        orderBy: { period: 'desc' }
+      });
+    },
+  },
+
+  // MeterReading type resolvers
+  MeterReading: {
+    // Resolver for meter field
+    meter: async (parent: MeterReading, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.meter.findUnique({
+        where: { id: parent.meterId }
+      });
+    },
+
+    // Resolver for payments field
+    payments: async (parent: MeterReading, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.payment.findMany({
+        where: { meterReadingId: parent.id }
+      });
+    },
+  },
+};
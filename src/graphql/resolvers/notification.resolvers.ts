@@ -0,0 +1,293 @@
+import { GraphQLContext } from '../context';
+import { resolverLogger } from '../../utils/resolverLogger';
+import { calculatePagination, getUserId } from './common';
+import { DeliveryStatus, Notification, NotificationDelivery, NotifyMethod, Prisma } from '@prisma/client';
+import { withFilter } from 'graphql-subscriptions';
+import { retryDelivery } from '../../services/notifications';
+import { pubsub, NOTIFICATION_CREATED } from '../pubsub';
+
+/**
+ * Restrict deliveries to those the current user may see:
+ * admins see everything, others see their own and those of renters in their properties
+ */
+function deliveryScope(ctx: GraphQLContext): Prisma.NotificationDeliveryWhereInput {
+  if (ctx.user!.role === 'ADMIN') {
+    return {};
+  }
+
+  return {
+    OR: [
+      { userId: ctx.user!.id },
+      { renter: { room: { property: { userId: ctx.user!.id } } } }
+    ]
+  };
+}
+
+// Notification resolvers
+export const notificationResolvers = {
+  Query: {
+    // Get the current user's in-app notifications
+    notifications: async (
+      _: any,
+      {
+        page = 1,
+        limit = 10,
+        unreadOnly = false,
+      }: {
+        page?: number;
+        limit?: number;
+        unreadOnly?: boolean;
+      },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'notifications';
+      try {
+        resolverLogger.log(resolverName, { page, limit, unreadOnly }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view notifications');
+        }
+
+        const where: Prisma.NotificationWhereInput = {
+          userId: ctx.user.id,
+          ...(unreadOnly && { readAt: null })
+        };
+
+        // Get total count for pagination
+        const totalCount = await ctx.prisma.notification.count({ where });
+
+        // Get notifications, newest first
+        const notifications = await ctx.prisma.notification.findMany({
+          skip: (page - 1) * limit,
+          take: limit,
+          where,
+          orderBy: { createdAt: 'desc' }
+        });
+
+        // Return paginated result
+        const result = calculatePagination(page, limit, totalCount, notifications);
+
+        resolverLogger.log(resolverName, { total: totalCount });
+        return result;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Count the current user's unread notifications
+    unreadNotificationCount: async (_: any, __: any, ctx: GraphQLContext) => {
+      const resolverName = 'unreadNotificationCount';
+      try {
+        resolverLogger.log(resolverName, {}, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view notifications');
+        }
+
+        return await ctx.prisma.notification.count({
+          where: { userId: ctx.user.id, readAt: null }
+        });
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Get notification delivery history with pagination and filtering
+    notificationDeliveries: async (
+      _: any,
+      {
+        page = 1,
+        limit = 10,
+        renterId,
+        eventId,
+        channel,
+        status,
+        sortBy = 'createdAt',
+        sortOrder = 'desc',
+      }: {
+        page?: number;
+        limit?: number;
+        renterId?: string;
+        eventId?: string;
+        channel?: string;
+        status?: string;
+        sortBy?: string;
+        sortOrder?: 'asc' | 'desc';
+      },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'notificationDeliveries';
+      try {
+        resolverLogger.log(resolverName, { page, limit, renterId, eventId, channel, status }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view notification history');
+        }
+
+        // Build where clause for filters
+        const where: Prisma.NotificationDeliveryWhereInput = {
+          ...deliveryScope(ctx),
+          ...(renterId && { renterId }),
+          ...(eventId && { eventId }),
+          ...(channel && { channel: channel as NotifyMethod }),
+          ...(status && { status: status as DeliveryStatus })
+        };
+
+        // Get total count for pagination
+        const totalCount = await ctx.prisma.notificationDelivery.count({ where });
+
+        // Get deliveries with pagination, sorting, and filtering
+        const deliveries = await ctx.prisma.notificationDelivery.findMany({
+          skip: (page - 1) * limit,
+          take: limit,
+          where,
+          orderBy: { [sortBy]: sortOrder }
+        });
+
+        // Return paginated result
+        const result = calculatePagination(page, limit, totalCount, deliveries);
+
+        resolverLogger.log(resolverName, { total: totalCount });
+        return result;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+  },
+
+  Mutation: {
+    // Mark a single notification as read
+    markNotificationRead: async (_: any, { id }: { id: string }, ctx: GraphQLContext) => {
+      const resolverName = 'markNotificationRead';
+      try {
+        resolverLogger.log(resolverName, { id }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to update notifications');
+        }
+
+        const notification = await ctx.prisma.notification.findUnique({
+          where: { id }
+        });
+
+        if (!notification || notification.userId !== ctx.user.id) {
+          throw new Error('Notification not found');
+        }
+
+        if (notification.readAt) {
+          return notification;
+        }
+
+        const updated = await ctx.prisma.notification.update({
+          where: { id },
+          data: { readAt: new Date() }
+        });
+
+        resolverLogger.log(resolverName, { read: id });
+        return updated;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Mark all of the current user's notifications as read, returning how many changed
+    markAllNotificationsRead: async (_: any, __: any, ctx: GraphQLContext) => {
+      const resolverName = 'markAllNotificationsRead';
+      try {
+        resolverLogger.log(resolverName, {}, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to update notifications');
+        }
+
+        const { count } = await ctx.prisma.notification.updateMany({
+          where: { userId: ctx.user.id, readAt: null },
+          data: { readAt: new Date() }
+        });
+
+        resolverLogger.log(resolverName, { read: count });
+        return count;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Retry a failed notification delivery immediately
+    retryNotificationDelivery: async (_: any, { id }: { id: string }, ctx: GraphQLContext) => {
+      const resolverName = 'retryNotificationDelivery';
+      try {
+        resolverLogger.log(resolverName, { id }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to retry a notification');
+        }
+
+        const delivery = await ctx.prisma.notificationDelivery.findFirst({
+          where: { id, ...deliveryScope(ctx) }
+        });
+
+        if (!delivery) {
+          throw new Error('Notification delivery not found');
+        }
+
+        if (delivery.status !== 'FAILED') {
+          throw new Error('Only failed deliveries can be retried');
+        }
+
+        const retried = await retryDelivery(ctx.prisma, delivery);
+
+        resolverLogger.log(resolverName, { retried: id, status: retried.status });
+        return retried;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+  },
+
+  Subscription: {
+    // Push new in-app notifications to their recipient
+    notificationReceived: {
+      subscribe: withFilter(
+        (_: any, __: any, ctx: GraphQLContext) => {
+          if (!ctx.user) {
+            throw new Error('You must be authenticated to subscribe to notifications');
+          }
+          return pubsub.asyncIterator(NOTIFICATION_CREATED);
+        },
+        (payload: { notificationReceived: Notification }, _: any, ctx: GraphQLContext) =>
+          payload.notificationReceived.userId === ctx.user?.id
+      ),
+    },
+  },
+
+  // NotificationDelivery type resolvers
+  NotificationDelivery: {
+    // Resolver for renter field
+    renter: async (parent: NotificationDelivery, _: any, ctx: GraphQLContext) => {
+      if (!parent.renterId) return null;
+      return ctx.prisma.renter.findUnique({
+        where: { id: parent.renterId }
+      });
+    },
+
+    // Resolver for event field
+    event: async (parent: NotificationDelivery, _: any, ctx: GraphQLContext) => {
+      if (!parent.eventId) return null;
+      return ctx.prisma.event.findUnique({
+        where: { id: parent.eventId }
+      });
+    },
+  },
+};
@@ -1,8 +1,11 @@
 import { GraphQLContext } from '../context';
 import { resolverLogger } from '../../utils/resolverLogger';
 import { calculatePagination, getUserId } from './common';
-import { Payment, Prisma, PaymentStatus } from '@prisma/client';
+import { Payment, PaymentStatus } from '@prisma/client';
 import { nanoid } from 'nanoid';
+import { notifyPaymentOverdue } from '../../services/notifications';
+import { paymentBalance, recordPaymentTransaction } from '../../services/billing';
+import { paymentFilters } from '../../services/exports';
 
 // Interface defining paginated results
 interface PaginatedResult<T> {
@@ -89,17 +92,7 @@ export const paymentResolvers = {
         }
 
         // Build where clause for filters
-        const where: Prisma.PaymentWhereInput = {
-          ...(renterId && { renterId }),
-          ...(contractId && { contractId }),
-          ...(status && { status: status as PaymentStatus }),
-          ...(fromDate || toDate) && {
-            dueDate: {
-              ...(fromDate && { gte: new Date(fromDate) }),
-              ...(toDate && { lte: new Date(toDate) })
-            }
-          }
-        };
+        const where = paymentFilters({ renterId, contractId, status, fromDate, toDate });
 
         // Get total count for pagination
         const totalCount = await ctx.prisma.payment.count({ where });
@@ -238,6 +231,11 @@ export const paymentResolvers = {
           input.status = input.status as PaymentStatus;
         }
 
+        // Payments are paid through the ledger, so the money received is recorded against them
+        if (input.status === 'PAID' && payment.status !== 'PAID') {
+          throw new Error('Use markPaymentAsPaid or recordPaymentTransaction to mark a payment as paid');
+        }
+
         // If changing renter, verify the new renter exists
         if (input.renterId && input.renterId !== payment.renterId) {
           const renter = await ctx.prisma.renter.findUnique({
@@ -280,6 +278,13 @@ export const paymentResolvers = {
           }
         });
 
+        // Alert the property owner's dashboard when a payment goes overdue
+        if (input.status === 'OVERDUE' && payment.status !== 'OVERDUE') {
+          await notifyPaymentOverdue(ctx.prisma, updatedPayment).catch((error) =>
+            resolverLogger.error(resolverName, error)
+          );
+        }
+
         resolverLogger.log(resolverName, { updated: id });
         return updatedPayment;
       } catch (error) {
@@ -332,17 +337,19 @@ export const paymentResolvers = {
       {
         id,
         paidDate = new Date(),
-        reference
+        reference,
+        method = 'OTHER'
       }: {
         id: string;
         paidDate?: Date;
         reference?: string;
+        method?: string;
       },
       ctx: GraphQLContext
     ) => {
       const resolverName = 'markPaymentAsPaid';
       try {
-        resolverLogger.log(resolverName, { id, paidDate, reference }, getUserId(ctx));
+        resolverLogger.log(resolverName, { id, paidDate, reference, method }, getUserId(ctx));
 
         // Check authentication
         if (!ctx.user) {
@@ -351,7 +358,8 @@ export const paymentResolvers = {
 
         // Check if payment exists
         const payment = await ctx.prisma.payment.findUnique({
-          where: { id }
+          where: { id },
+          include: { allocations: true }
         });
 
         if (!payment) {
@@ -363,14 +371,23 @@ export const paymentResolvers = {
           throw new Error('Payment has already been marked as paid');
         }
 
-        // Update the payment
-        const updatedPayment = await ctx.prisma.payment.update({
+        if (payment.status === 'CANCELLED') {
+          throw new Error('Cancelled payments cannot be marked as paid');
+        }
+
+        // Record a receipt for whatever is still owed, so the ledger stays complete
+        await recordPaymentTransaction(ctx.prisma, {
+          renterId: payment.renterId,
+          amount: paymentBalance(payment),
+          method,
+          reference,
+          receivedAt: paidDate,
+          paymentIds: [id],
+          recordedById: ctx.user.id
+        });
+
+        const updatedPayment = await ctx.prisma.payment.findUnique({
           where: { id },
-          data: {
-            status: 'PAID' as PaymentStatus,
-            paidDate,
-            description: reference || payment.description
-          },
           include: {
             renter: true,
             contract: true
@@ -403,5 +420,29 @@ export const paymentResolvers = {
         where: { id: parent.contractId }
       });
     },
+
+    // Resolver for allocations field
+    allocations: async (parent: Payment, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.paymentAllocation.findMany({
+        where: { paymentId: parent.id },
+        orderBy: { createdAt: 'asc' }
+      });
+    },
+
+    // Resolver for balance field
+    balance: async (parent: Payment, _: any, ctx: GraphQLContext) => {
+      const allocations = await ctx.prisma.paymentAllocation.findMany({
+        where: { paymentId: parent.id },
+        select: { amount: true }
+      });
+      return paymentBalance({ ...parent, allocations });
+    },
+
+    // Resolver for lateFees field
+    lateFees: async (parent: Payment, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.payment.findMany({
+        where: { lateFeeForId: parent.id }
+      });
+    },
   },
 };
\ No newline at end of file
@@ -0,0 +1,189 @@
+import { GraphQLContext } from '../context';
+import { resolverLogger } from '../../utils/resolverLogger';
+import { calculatePagination, getUserId } from './common';
+import { PaymentAllocation, PaymentMethod, PaymentTransaction, Prisma } from '@prisma/client';
+import { AllocationResult, applyRenterCredit, recordPaymentTransaction } from '../../services/billing';
+
+/**
+ * Make sure the current user manages the renter's room
+ */
+async function assertManagesRenter(ctx: GraphQLContext, renterId: string) {
+  const renter = await ctx.prisma.renter.findUnique({
+    where: { id: renterId },
+    include: { room: { include: { property: true } } }
+  });
+
+  if (!renter) {
+    throw new Error('Renter not found');
+  }
+
+  if (ctx.user!.role !== 'ADMIN' && renter.room?.property.userId !== ctx.user!.id) {
+    throw new Error('You do not have permission to manage payments for this renter');
+  }
+
+  return renter;
+}
+
+// PaymentTransaction resolvers
+export const paymentTransactionResolvers = {
+  Query: {
+    // Get the receipts recorded for renters, newest first
+    paymentTransactions: async (
+      _: any,
+      {
+        page = 1,
+        limit = 10,
+        renterId,
+        method,
+      }: {
+        page?: number;
+        limit?: number;
+        renterId?: string;
+        method?: string;
+      },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'paymentTransactions';
+      try {
+        resolverLogger.log(resolverName, { page, limit, renterId, method }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view payment transactions');
+        }
+
+        // Build where clause for filters, scoped to the user's properties
+        const where: Prisma.PaymentTransactionWhereInput = {
+          ...(renterId && { renterId }),
+          ...(method && { method: method as PaymentMethod }),
+          ...(ctx.user.role !== 'ADMIN' && {
+            renter: { room: { property: { userId: ctx.user.id } } }
+          })
+        };
+
+        // Get total count for pagination
+        const totalCount = await ctx.prisma.paymentTransaction.count({ where });
+
+        const transactions = await ctx.prisma.paymentTransaction.findMany({
+          skip: (page - 1) * limit,
+          take: limit,
+          where,
+          orderBy: { receivedAt: 'desc' }
+        });
+
+        // Return paginated result
+        const result = calculatePagination(page, limit, totalCount, transactions);
+
+        resolverLogger.log(resolverName, { total: totalCount });
+        return result;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+  },
+
+  Mutation: {
+    // Record money received from a renter and allocate it to their outstanding payments
+    recordPaymentTransaction: async (_: any, { input }: { input: any }, ctx: GraphQLContext) => {
+      const resolverName = 'recordPaymentTransaction';
+      try {
+        resolverLogger.log(resolverName, { input }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to record payments');
+        }
+
+        await assertManagesRenter(ctx, input.renterId);
+
+        const receipt = await recordPaymentTransaction(ctx.prisma, {
+          ...input,
+          recordedById: ctx.user.id
+        });
+
+        resolverLogger.log(resolverName, {
+          created: receipt.transaction.id,
+          allocations: receipt.allocations.length,
+          credit: receipt.credit
+        });
+        return receipt;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Apply a renter's carried-forward credit to their outstanding payments
+    applyRenterCredit: async (
+      _: any,
+      { renterId, paymentIds }: { renterId: string; paymentIds?: string[] },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'applyRenterCredit';
+      try {
+        resolverLogger.log(resolverName, { renterId, paymentIds }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to apply credit');
+        }
+
+        await assertManagesRenter(ctx, renterId);
+
+        const receipt = await applyRenterCredit(ctx.prisma, renterId, paymentIds);
+
+        resolverLogger.log(resolverName, { allocations: receipt.allocations.length, credit: receipt.credit });
+        return receipt;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+  },
+
+  // PaymentTransaction type resolvers
+  PaymentTransaction: {
+    // Resolver for renter field
+    renter: async (parent: PaymentTransaction, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.renter.findUnique({
+        where: { id: parent.renterId }
+      });
+    },
+
+    // Resolver for allocations field
+    allocations: async (parent: PaymentTransaction, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.paymentAllocation.findMany({
+        where: { transactionId: parent.id },
+        orderBy: { createdAt: 'asc' }
+      });
+    },
+  },
+
+  // PaymentAllocation type resolvers
+  PaymentAllocation: {
+    // Resolver for payment field
+    payment: async (parent: PaymentAllocation, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.payment.findUnique({
+        where: { id: parent.paymentId }
+      });
+    },
+
+    // Resolver for transaction field
+    transaction: async (parent: PaymentAllocation, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.paymentTransaction.findUnique({
+        where: { id: parent.transactionId }
+      });
+    },
+  },
+
+  // PaymentAllocationResult type resolvers
+  PaymentAllocationResult: {
+    // Resolver for payment field
+    payment: async (parent: AllocationResult, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.payment.findUnique({
+        where: { id: parent.paymentId }
+      });
+    },
+  },
+};
@@ -0,0 +1,151 @@
+import { GraphQLContext } from '../context';
+import { resolverLogger } from '../../utils/resolverLogger';
+import { getUserId } from './common';
+import { ContactDetailsInput, getTenancy, updateContactDetails } from '../../services/portal';
+import {
+  MaintenanceRequestInput,
+  rateMaintenanceRequest,
+  renterMaintenanceRequest,
+  submitMaintenanceRequest
+} from '../../services/maintenance';
+import { UploadedFile } from '../../services/storage';
+
+/**
+ * The renter record behind the signed-in renter's account
+ */
+function getOwnRenterId(ctx: GraphQLContext): string {
+  if (ctx.user!.role !== 'RENTER' || !ctx.user!.renterId) {
+    throw new Error('Your account is not linked to a renter');
+  }
+
+  return ctx.user!.renterId;
+}
+
+// Renter self-service portal resolvers
+export const portalResolvers = {
+  Query: {
+    // The signed-in renter's room, contracts, bills, documents and services
+    myTenancy: async (_: any, __: any, ctx: GraphQLContext) => {
+      const resolverName = 'myTenancy';
+      try {
+        resolverLogger.log(resolverName, {}, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view your tenancy');
+        }
+
+        return await getTenancy(ctx.prisma, getOwnRenterId(ctx));
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // The signed-in renter's maintenance requests, newest first
+    myMaintenanceRequests: async (_: any, __: any, ctx: GraphQLContext) => {
+      const resolverName = 'myMaintenanceRequests';
+      try {
+        resolverLogger.log(resolverName, {}, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view your maintenance requests');
+        }
+
+        const requests = await ctx.prisma.maintenanceRequest.findMany({
+          where: { renterId: getOwnRenterId(ctx) },
+          include: { maintenanceEvent: true },
+          orderBy: { createdAt: 'desc' }
+        });
+
+        return requests.map(renterMaintenanceRequest);
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    }
+  },
+
+  Mutation: {
+    // Update the signed-in renter's email, phone number and emergency contact
+    updateMyContactDetails: async (_: any, { input }: { input: ContactDetailsInput }, ctx: GraphQLContext) => {
+      const resolverName = 'updateMyContactDetails';
+      try {
+        resolverLogger.log(resolverName, { input }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to update your contact details');
+        }
+
+        const profile = await updateContactDetails(ctx.prisma, getOwnRenterId(ctx), input);
+
+        resolverLogger.log(resolverName, { updated: profile.id });
+        return profile;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Report a problem with the renter's room, with optional photos
+    submitMaintenanceRequest: async (
+      _: any,
+      { input, photos = [] }: { input: MaintenanceRequestInput; photos?: UploadedFile[] },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'submitMaintenanceRequest';
+      try {
+        resolverLogger.log(resolverName, { input, photos: photos.length }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to submit a maintenance request');
+        }
+
+        const request = await submitMaintenanceRequest(ctx.prisma, getOwnRenterId(ctx), input, photos);
+
+        resolverLogger.log(resolverName, { created: request.id });
+        return renterMaintenanceRequest(request);
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Rate the completed work for one of the renter's requests
+    rateMaintenanceRequest: async (
+      _: any,
+      { id, rating, comment }: { id: string; rating: number; comment?: string },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'rateMaintenanceRequest';
+      try {
+        resolverLogger.log(resolverName, { id, rating }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to rate maintenance work');
+        }
+
+        const request = await ctx.prisma.maintenanceRequest.findFirst({
+          where: { id, renterId: getOwnRenterId(ctx) },
+          include: { maintenanceEvent: true }
+        });
+
+        if (!request) {
+          throw new Error('Maintenance request not found');
+        }
+
+        const rated = await rateMaintenanceRequest(ctx.prisma, request, rating, comment);
+
+        resolverLogger.log(resolverName, { rated: id, rating });
+        return renterMaintenanceRequest(rated);
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    }
+  }
+};
@@ -1,5 +1,7 @@
 import { GraphQLContext } from '../context';
 import { nanoid } from 'nanoid';
+import { renterCredit } from '../../services/billing';
+import { renterFilters } from '../../services/exports';
 
 // Interface defining paginated results
 interface PaginatedResult<T> {
@@ -84,16 +86,7 @@ export const renterResolvers = {
         const skip = (page - 1) * limit;
 
         // Build where clause for filters
-        const where: any = {};
-
-        // Add search filter if provided
-        if (searchText) {
-          where.OR = [
-            { name: { contains: searchText, mode: 'insensitive' } },
-            { email: { contains: searchText, mode: 'insensitive' } },
-            { phone: { contains: searchText, mode: 'insensitive' } },
-          ];
-        }
+        const where: any = renterFilters({ searchText });
 
         // Add user-specific filters based on role
         if (ctx.user.role !== 'ADMIN') {
@@ -412,6 +405,11 @@ export const renterResolvers = {
 
   // Renter type resolvers
   Renter: {
+    // Resolver for creditBalance field
+    creditBalance: async (parent: any, _: any, ctx: GraphQLContext) => {
+      return renterCredit(ctx.prisma, parent.id);
+    },
+
     // Resolver for room field
     room: async (parent: any, _: any, ctx: GraphQLContext) => {
       if (!parent.roomId) return null;
@@ -441,5 +439,13 @@ export const renterResolvers = {
         where: { renterId: parent.id },
       });
     },
+
+    // Resolver for notification delivery history
+    notificationDeliveries: async (parent: any, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.notificationDelivery.findMany({
+        where: { renterId: parent.id },
+        orderBy: { createdAt: 'desc' },
+      });
+    },
   },
 };
\ No newline at end of file
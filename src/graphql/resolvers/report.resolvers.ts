@@ -0,0 +1,181 @@
+import { GraphQLContext } from '../context';
+import { resolverLogger } from '../../utils/resolverLogger';
+import { getUserId } from './common';
+import {
+  buildAgingReport,
+  buildFinancialReport,
+  buildOccupancyReport,
+  buildRentRoll,
+  ReportGrouping
+} from '../../services/reports';
+
+/**
+ * Work out which properties a report covers: a single managed property, or the whole portfolio.
+ * Admins get every property unless they ask for one owner's portfolio.
+ */
+async function reportPropertyIds(ctx: GraphQLContext, propertyId?: string, userId?: string) {
+  if (propertyId) {
+    const property = await ctx.prisma.property.findUnique({ where: { id: propertyId } });
+
+    if (!property) {
+      throw new Error('Property not found');
+    }
+
+    if (ctx.user!.role !== 'ADMIN' && property.userId !== ctx.user!.id) {
+      throw new Error('You do not have permission to view reports for this property');
+    }
+
+    return [property.id];
+  }
+
+  if (userId && ctx.user!.role !== 'ADMIN' && userId !== ctx.user!.id) {
+    throw new Error('You do not have permission to view reports for this user');
+  }
+
+  const ownerId = ctx.user!.role === 'ADMIN' ? userId : ctx.user!.id;
+  const properties = await ctx.prisma.property.findMany({
+    where: ownerId ? { userId: ownerId } : {},
+    select: { id: true }
+  });
+
+  return properties.map((property) => property.id);
+}
+
+// Report resolvers
+export const reportResolvers = {
+  Query: {
+    // Profit & loss and cash flow for one property, or the portfolio when no property is given
+    propertyFinancialReport: async (
+      _: any,
+      {
+        propertyId,
+        userId,
+        from,
+        to,
+        groupBy = 'MONTH',
+      }: {
+        propertyId?: string;
+        userId?: string;
+        from: Date;
+        to: Date;
+        groupBy?: string;
+      },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'propertyFinancialReport';
+      try {
+        resolverLogger.log(resolverName, { propertyId, userId, from, to, groupBy }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view reports');
+        }
+
+        const propertyIds = await reportPropertyIds(ctx, propertyId, userId);
+        const report = await buildFinancialReport(ctx.prisma, propertyIds, from, to, groupBy as ReportGrouping);
+
+        resolverLogger.log(resolverName, {
+          properties: propertyIds.length,
+          netOperatingIncome: report.summary.netOperatingIncome
+        });
+        return report;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Historical occupancy, vacancy and turnover for one property, or the portfolio when no property is given
+    occupancyReport: async (
+      _: any,
+      {
+        propertyId,
+        userId,
+        from,
+        to,
+        groupBy = 'MONTH',
+      }: {
+        propertyId?: string;
+        userId?: string;
+        from: Date;
+        to: Date;
+        groupBy?: string;
+      },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'occupancyReport';
+      try {
+        resolverLogger.log(resolverName, { propertyId, userId, from, to, groupBy }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view reports');
+        }
+
+        const propertyIds = await reportPropertyIds(ctx, propertyId, userId);
+        const report = await buildOccupancyReport(ctx.prisma, propertyIds, from, to, groupBy as ReportGrouping);
+
+        resolverLogger.log(resolverName, {
+          properties: propertyIds.length,
+          occupancyRate: report.summary.occupancyRate
+        });
+        return report;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Rooms of a property with their current contract, renters, rent, deposit and balance
+    rentRoll: async (
+      _: any,
+      { propertyId, asOf = new Date() }: { propertyId: string; asOf?: Date },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'rentRoll';
+      try {
+        resolverLogger.log(resolverName, { propertyId, asOf }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view reports');
+        }
+
+        await reportPropertyIds(ctx, propertyId);
+        const rentRoll = await buildRentRoll(ctx.prisma, propertyId, asOf);
+
+        resolverLogger.log(resolverName, { rooms: rentRoll.entries.length, balance: rentRoll.totalBalance });
+        return rentRoll;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Unpaid payments by days past due, per renter and per property
+    agingReport: async (
+      _: any,
+      { propertyId, userId, asOf = new Date() }: { propertyId?: string; userId?: string; asOf?: Date },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'agingReport';
+      try {
+        resolverLogger.log(resolverName, { propertyId, userId, asOf }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view reports');
+        }
+
+        const propertyIds = await reportPropertyIds(ctx, propertyId, userId);
+        const report = await buildAgingReport(ctx.prisma, propertyIds, asOf);
+
+        resolverLogger.log(resolverName, { renters: report.renters.length, total: report.totals.total });
+        return report;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+  },
+};
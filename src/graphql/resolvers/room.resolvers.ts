@@ -1,5 +1,40 @@
 import { GraphQLContext } from '../context';
 import { nanoid } from 'nanoid';
+import { resolverLogger } from '../../utils/resolverLogger';
+import { getUserId } from './common';
+import { lockRoom, reconcileRoomStatuses } from '../../services/contracts';
+import { roomFilters } from '../../services/exports';
+import {
+  createSignedFileUrl,
+  isExternalPath,
+  removeImageVariants,
+  storeImageVariants,
+  UploadedFile
+} from '../../services/storage';
+import { RoomImage } from '@prisma/client';
+
+/**
+ * Load a room and make sure the current user manages its property
+ */
+async function getManagedRoom(ctx: GraphQLContext, id: string) {
+  const room = await ctx.prisma.room.findUnique({
+    where: { id },
+    include: { property: true }
+  });
+
+  if (!room) {
+    throw new Error('Room not found');
+  }
+
+  if (ctx.user!.role !== 'ADMIN' && room.property.userId !== ctx.user!.id) {
+    throw new Error('You do not have permission to manage this room');
+  }
+
+  return room;
+}
+
+// Stored images get a signed link; legacy images are plain links to another host
+const imageUrl = (path: string) => (isExternalPath(path) ? path : createSignedFileUrl(path));
 
 // Interface defining paginated results
 interface PaginatedResult<T> {
@@ -55,32 +90,7 @@ export const roomResolvers = {
       const skip = (page - 1) * limit;
 
       // Build where clause for filters
-      const where: any = {};
-
-      // Search by room number or name (case-insensitive)
-      if (search) {
-        where.OR = [
-          { number: { contains: search, mode: 'insensitive' } },
-          { name: { contains: search, mode: 'insensitive' } }
-        ];
-      }
-
-      // Filter by type
-      if (type) {
-        where.type = type;
-      }
-
-      // Filter by status
-      if (status) {
-        where.status = status;
-      }
-
-      // Filter by price range
-      if (minPrice !== undefined || maxPrice !== undefined) {
-        where.price = {};
-        if (minPrice !== undefined) where.price.gte = minPrice;
-        if (maxPrice !== undefined) where.price.lte = maxPrice;
-      }
+      const where = roomFilters({ search, type, status, minPrice, maxPrice });
 
       // Get total count for pagination
       const totalCount = await ctx.prisma.room.count({ where }) || 0;
@@ -150,6 +160,169 @@ export const roomResolvers = {
 
       return true;
     },
+
+    // Report rooms whose status disagrees with their contracts and maintenance, fixing them
+    // unless dryRun is set (admin only)
+    reconcileRoomStatuses: async (
+      _: any,
+      { dryRun = false, propertyId }: { dryRun?: boolean; propertyId?: string },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'reconcileRoomStatuses';
+      try {
+        resolverLogger.log(resolverName, { dryRun, propertyId }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to reconcile room statuses');
+        }
+
+        if (ctx.user.role !== 'ADMIN') {
+          throw new Error('Only administrators can reconcile room statuses');
+        }
+
+        const result = await reconcileRoomStatuses(ctx.prisma, { dryRun, propertyId });
+
+        resolverLogger.log(resolverName, { checked: result.checked, mismatches: result.mismatches.length });
+        return { ...result, dryRun };
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Upload an image to the end of a room's gallery
+    addRoomImage: async (
+      _: any,
+      { roomId, file, caption }: { roomId: string; file: UploadedFile; caption?: string },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'addRoomImage';
+      try {
+        resolverLogger.log(resolverName, { roomId, fileName: file.originalname, caption }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to add room images');
+        }
+
+        await getManagedRoom(ctx, roomId);
+
+        const stored = await storeImageVariants(file, `rooms/${roomId}`);
+
+        // Uploads to the same room queue on its lock, so each one gets its own position
+        const image = await ctx.prisma.$transaction(async (prisma) => {
+          await lockRoom(prisma, roomId);
+          const last = await prisma.roomImage.aggregate({ where: { roomId }, _max: { position: true } });
+
+          return prisma.roomImage.create({
+            data: {
+              id: nanoid(),
+              roomId,
+              position: (last._max.position ?? -1) + 1,
+              caption,
+              ...stored,
+              updatedAt: new Date()
+            }
+          });
+        }).catch(async (error) => {
+          // Don't leave the uploaded files behind without an image record
+          await removeImageVariants(stored).catch((cleanupError) => resolverLogger.error(resolverName, cleanupError));
+          throw error;
+        });
+
+        resolverLogger.log(resolverName, { created: image.id });
+        return image;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Remove an image from a room's gallery and delete its files
+    removeRoomImage: async (_: any, { id }: { id: string }, ctx: GraphQLContext) => {
+      const resolverName = 'removeRoomImage';
+      try {
+        resolverLogger.log(resolverName, { id }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to remove room images');
+        }
+
+        const image = await ctx.prisma.roomImage.findUnique({ where: { id } });
+        if (!image) {
+          throw new Error('Room image not found');
+        }
+
+        await getManagedRoom(ctx, image.roomId);
+
+        // Close the gap left in the gallery order
+        await ctx.prisma.$transaction([
+          ctx.prisma.roomImage.delete({ where: { id } }),
+          ctx.prisma.roomImage.updateMany({
+            where: { roomId: image.roomId, position: { gt: image.position } },
+            data: { position: { decrement: 1 } }
+          })
+        ]);
+
+        await removeImageVariants(image);
+
+        resolverLogger.log(resolverName, { deleted: id });
+        return true;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Put a room's images in the given order; every image of the room must be listed once
+    reorderRoomImages: async (
+      _: any,
+      { roomId, imageIds }: { roomId: string; imageIds: string[] },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'reorderRoomImages';
+      try {
+        resolverLogger.log(resolverName, { roomId, imageIds }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to reorder room images');
+        }
+
+        await getManagedRoom(ctx, roomId);
+
+        const images = await ctx.prisma.roomImage.findMany({ where: { roomId } });
+        const currentIds = new Set(images.map((image) => image.id));
+
+        if (
+          imageIds.length !== images.length ||
+          new Set(imageIds).size !== imageIds.length ||
+          imageIds.some((imageId) => !currentIds.has(imageId))
+        ) {
+          throw new Error("Image order must list each of the room's images exactly once");
+        }
+
+        await ctx.prisma.$transaction(
+          imageIds.map((imageId, position) =>
+            ctx.prisma.roomImage.update({
+              where: { id: imageId },
+              data: { position, updatedAt: new Date() }
+            })
+          )
+        );
+
+        resolverLogger.log(resolverName, { reordered: roomId });
+        return ctx.prisma.roomImage.findMany({
+          where: { roomId },
+          orderBy: { position: 'asc' }
+        });
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
   },
 
   // Room type resolvers
@@ -167,5 +340,51 @@ export const roomResolvers = {
         where: { roomId: parent.id },
       });
     },
+
+    // Resolver for roomServices field
+    roomServices: async (parent: any, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.roomService.findMany({
+        where: { roomId: parent.id },
+        orderBy: { startDate: 'desc' },
+      });
+    },
+
+    // Resolver for meters field
+    meters: async (parent: any, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.meter.findMany({
+        where: { roomId: parent.id },
+      });
+    },
+
+    // Resolver for images field, in gallery order. Rooms without uploaded images
+    // fall back to their legacy image links.
+    images: async (parent: any, _: any, ctx: GraphQLContext) => {
+      const images = await ctx.prisma.roomImage.findMany({
+        where: { roomId: parent.id },
+        orderBy: { position: 'asc' },
+      });
+
+      if (images.length > 0 || !parent.images?.length) {
+        return images;
+      }
+
+      return (parent.images as string[]).map((link, position) => ({
+        id: `${parent.id}-legacy-${position}`,
+        roomId: parent.id,
+        position,
+        caption: null,
+        originalPath: link,
+        mediumPath: link,
+        thumbnailPath: link,
+        createdAt: parent.createdAt,
+      }));
+    },
+  },
+
+  // RoomImage type resolvers
+  RoomImage: {
+    url: (parent: RoomImage) => imageUrl(parent.originalPath),
+    mediumUrl: (parent: RoomImage) => imageUrl(parent.mediumPath),
+    thumbnailUrl: (parent: RoomImage) => imageUrl(parent.thumbnailPath),
   },
 };
\ No newline at end of file
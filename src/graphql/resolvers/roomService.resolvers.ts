@@ -0,0 +1,366 @@
+import { GraphQLContext } from '../context';
+import { resolverLogger } from '../../utils/resolverLogger';
+import { calculatePagination, getUserId } from './common';
+import { Prisma, RoomService, ServiceStatus } from '@prisma/client';
+import { nanoid } from 'nanoid';
+
+const SERVICE_STATUSES = Object.values(ServiceStatus) as string[];
+
+/**
+ * Load a room and make sure the current user manages its property
+ */
+async function getManagedRoom(ctx: GraphQLContext, roomId: string) {
+  const room = await ctx.prisma.room.findUnique({
+    where: { id: roomId },
+    include: { property: true }
+  });
+
+  if (!room) {
+    throw new Error('Room not found');
+  }
+
+  if (ctx.user!.role !== 'ADMIN' && room.property.userId !== ctx.user!.id) {
+    throw new Error('You do not have permission to manage services for this room');
+  }
+
+  return room;
+}
+
+/**
+ * Load a room service and make sure the current user manages its room
+ */
+async function getManagedRoomService(ctx: GraphQLContext, id: string) {
+  const roomService = await ctx.prisma.roomService.findUnique({
+    where: { id }
+  });
+
+  if (!roomService) {
+    throw new Error('Room service not found');
+  }
+
+  await getManagedRoom(ctx, roomService.roomId);
+  return roomService;
+}
+
+/**
+ * Validate the status and date range of a room service
+ */
+function validateRoomServiceInput(input: any, startDate: Date, endDate: Date | null) {
+  if (input.status && !SERVICE_STATUSES.includes(input.status)) {
+    throw new Error(`Invalid room service status: ${input.status}`);
+  }
+
+  if (endDate && endDate < startDate) {
+    throw new Error('End date cannot be before start date');
+  }
+}
+
+// RoomService resolvers
+export const roomServiceResolvers = {
+  Query: {
+    // Get a single room service by ID
+    roomService: async (_: any, { id }: { id: string }, ctx: GraphQLContext) => {
+      const resolverName = 'roomService';
+      try {
+        resolverLogger.log(resolverName, { id }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view room services');
+        }
+
+        return await getManagedRoomService(ctx, id);
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // List room services per room or property with pagination and filtering
+    roomServices: async (
+      _: any,
+      {
+        page = 1,
+        limit = 10,
+        roomId,
+        propertyId,
+        serviceId,
+        status,
+        sortBy = 'startDate',
+        sortOrder = 'desc',
+      }: {
+        page?: number;
+        limit?: number;
+        roomId?: string;
+        propertyId?: string;
+        serviceId?: string;
+        status?: string;
+        sortBy?: string;
+        sortOrder?: 'asc' | 'desc';
+      },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'roomServices';
+      try {
+        resolverLogger.log(resolverName, { page, limit, roomId, propertyId, serviceId, status }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to view room services');
+        }
+
+        // Build where clause for filters, scoped to the user's properties
+        const where: Prisma.RoomServiceWhereInput = {
+          ...(roomId && { roomId }),
+          ...(serviceId && { serviceId }),
+          ...(status && { status: status as ServiceStatus }),
+          room: {
+            ...(propertyId && { propertyId }),
+            ...(ctx.user.role !== 'ADMIN' && { property: { userId: ctx.user.id } })
+          }
+        };
+
+        // Get total count for pagination
+        const totalCount = await ctx.prisma.roomService.count({ where });
+
+        // Get room services with pagination, sorting, and filtering
+        const roomServices = await ctx.prisma.roomService.findMany({
+          skip: (page - 1) * limit,
+          take: limit,
+          where,
+          orderBy: { [sortBy]: sortOrder },
+          include: { service: true }
+        });
+
+        // Return paginated result
+        const result = calculatePagination(page, limit, totalCount, roomServices);
+
+        resolverLogger.log(resolverName, { total: totalCount });
+        return result;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+  },
+
+  Mutation: {
+    // Assign a service to a room
+    assignServiceToRoom: async (_: any, { input }: { input: any }, ctx: GraphQLContext) => {
+      const resolverName = 'assignServiceToRoom';
+      try {
+        resolverLogger.log(resolverName, { input }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to assign services');
+        }
+
+        // Validate required fields
+        const requiredFields = [
+          { field: 'roomId', message: 'Room is required' },
+          { field: 'serviceId', message: 'Service is required' },
+          { field: 'startDate', message: 'Start date is required' },
+        ];
+
+        for (const { field, message } of requiredFields) {
+          if (!input[field]) {
+            throw new Error(message);
+          }
+        }
+
+        validateRoomServiceInput(input, input.startDate, input.endDate || null);
+
+        await getManagedRoom(ctx, input.roomId);
+
+        // Inactive services cannot be assigned
+        const service = await ctx.prisma.service.findUnique({
+          where: { id: input.serviceId }
+        });
+
+        if (!service) {
+          throw new Error('Service not found');
+        }
+
+        if (!service.active) {
+          throw new Error('Inactive services cannot be assigned to a room');
+        }
+
+        // A service can only be active once per room
+        const existingAssignment = await ctx.prisma.roomService.findFirst({
+          where: {
+            roomId: input.roomId,
+            serviceId: input.serviceId,
+            status: 'ACTIVE'
+          }
+        });
+
+        if (existingAssignment) {
+          throw new Error('This service is already active for the room');
+        }
+
+        const roomService = await ctx.prisma.roomService.create({
+          data: {
+            id: nanoid(),
+            ...input,
+            status: (input.status || 'ACTIVE') as ServiceStatus,
+            updatedAt: new Date()
+          },
+          include: { service: true }
+        });
+
+        resolverLogger.log(resolverName, { created: roomService.id });
+        return roomService;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // Change the dates or status of a room service
+    updateRoomService: async (
+      _: any,
+      { id, input }: { id: string; input: any },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'updateRoomService';
+      try {
+        resolverLogger.log(resolverName, { id, input }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to update room services');
+        }
+
+        const roomService = await getManagedRoomService(ctx, id);
+
+        validateRoomServiceInput(
+          input,
+          input.startDate || roomService.startDate,
+          input.endDate !== undefined ? input.endDate : roomService.endDate
+        );
+
+        // Re-activating requires the service itself to still be active
+        if (input.status === 'ACTIVE' && roomService.status !== 'ACTIVE') {
+          const service = await ctx.prisma.service.findUnique({
+            where: { id: roomService.serviceId }
+          });
+
+          if (!service?.active) {
+            throw new Error('Inactive services cannot be assigned to a room');
+          }
+
+          // A service can only be active once per room
+          const existingAssignment = await ctx.prisma.roomService.findFirst({
+            where: {
+              id: { not: id },
+              roomId: roomService.roomId,
+              serviceId: roomService.serviceId,
+              status: 'ACTIVE'
+            }
+          });
+
+          if (existingAssignment) {
+            throw new Error('This service is already active for the room');
+          }
+        }
+
+        const updatedRoomService = await ctx.prisma.roomService.update({
+          where: { id },
+          data: {
+            ...input,
+            updatedAt: new Date()
+          },
+          include: { service: true }
+        });
+
+        resolverLogger.log(resolverName, { updated: id });
+        return updatedRoomService;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+
+    // End a room service, marking it INACTIVE or TERMINATED
+    endRoomService: async (
+      _: any,
+      {
+        id,
+        endDate = new Date(),
+        status = 'TERMINATED',
+      }: {
+        id: string;
+        endDate?: Date;
+        status?: string;
+      },
+      ctx: GraphQLContext
+    ) => {
+      const resolverName = 'endRoomService';
+      try {
+        resolverLogger.log(resolverName, { id, endDate, status }, getUserId(ctx));
+
+        // Check authentication
+        if (!ctx.user) {
+          throw new Error('You must be authenticated to end room services');
+        }
+
+        if (status !== 'INACTIVE' && status !== 'TERMINATED') {
+          throw new Error('A room service can only be ended as INACTIVE or TERMINATED');
+        }
+
+        const roomService = await getManagedRoomService(ctx, id);
+
+        if (roomService.status !== 'ACTIVE') {
+          throw new Error(`Room service is already ${roomService.status.toLowerCase()}`);
+        }
+
+        validateRoomServiceInput({}, roomService.startDate, endDate);
+
+        const endedRoomService = await ctx.prisma.roomService.update({
+          where: { id },
+          data: {
+            endDate,
+            status: status as ServiceStatus,
+            updatedAt: new Date()
+          },
+          include: { service: true }
+        });
+
+        resolverLogger.log(resolverName, { ended: id, status });
+        return endedRoomService;
+      } catch (error) {
+        resolverLogger.error(resolverName, error);
+        throw error;
+      }
+    },
+  },
+
+  // RoomService type resolvers
+  RoomService: {
+    // Resolver for room field
+    room: async (parent: RoomService, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.room.findUnique({
+        where: { id: parent.roomId }
+      });
+    },
+
+    // Resolver for service field
+    service: async (parent: RoomService & { service?: any }, _: any, ctx: GraphQLContext) => {
+      if (parent.service) {
+        return parent.service;
+      }
+      return ctx.prisma.service.findUnique({
+        where: { id: parent.serviceId }
+      });
+    },
+
+    // Resolver for payments field
+    payments: async (parent: RoomService, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.payment.findMany({
+        where: { roomServiceId: parent.id },
+        orderBy: { dueDate: 'desc' }
+      });
+    },
+  },
+};
@@ -254,13 +254,15 @@ export const serviceResolvers = {
 
   // Service type resolvers
   Service: {
-    // Example of a future resolver if needed
-    /*
-    transactions: async (parent: Service, _: any, ctx: GraphQLContext) => {
-      return ctx.prisma.serviceTransaction.findMany({
-        where: { serviceId: parent.id }
+    // Resolver for roomServices field, limited to rooms the user manages
+    roomServices: async (parent: Service, _: any, ctx: GraphQLContext) => {
+      return ctx.prisma.roomService.findMany({
+        where: {
+          serviceId: parent.id,
+          ...(ctx.user?.role !== 'ADMIN' && { room: { property: { userId: ctx.user?.id } } })
+        },
+        orderBy: { startDate: 'desc' }
       });
     },
-    */
   },
 }; 
\ No newline at end of file
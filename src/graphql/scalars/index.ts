@@ -51,8 +51,30 @@ export const JSONScalar = new GraphQLScalarType({
   },
 });
 
+// Upload scalar for files sent as multipart requests (see graphql/uploads.ts)
+export const uploadScalar = new GraphQLScalarType({
+  name: 'Upload',
+  description: 'A file uploaded with a GraphQL multipart request',
+
+  serialize() {
+    throw new Error('Upload values cannot be returned');
+  },
+
+  parseValue(value) {
+    if (value && typeof value === 'object' && Buffer.isBuffer((value as { buffer?: unknown }).buffer)) {
+      return value;
+    }
+    throw new Error('Upload value must be a file sent in a multipart request');
+  },
+
+  parseLiteral() {
+    throw new Error('Upload values must be sent as variables in a multipart request');
+  },
+});
+
 // Export all scalars
 export const scalars = {
   DateTime: dateTimeScalar,
-  JSON: JSONScalar
+  JSON: JSONScalar,
+  Upload: uploadScalar
 }; 
\ No newline at end of file
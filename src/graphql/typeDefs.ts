@@ -5,6 +5,7 @@ export const typeDefs = gql`
   # Custom scalars
   scalar DateTime
   scalar JSON
+  scalar Upload
 
   # Base types
   type Query {
@@ -54,6 +55,7 @@ export const typeDefs = gql`
       limit: Int
       renterId: ID
     ): DocumentConnection
+    expiringDocuments(withinDays: Int, type: String): [Document!]!
 
     # Contract queries
     contract(id: ID!): Contract
@@ -66,6 +68,11 @@ export const typeDefs = gql`
       sortBy: String
       sortOrder: String
     ): ContractConnection
+    depositSettlement(contractId: ID!): DepositSettlement
+    contractRenewalChain(contractId: ID!): [Contract!]!
+    contractTemplate(id: ID!): ContractTemplate
+    contractTemplates: [ContractTemplate!]!
+    contractTemplatePlaceholders: [String!]!
 
     # Service queries
     service(id: ID!): Service
@@ -78,6 +85,25 @@ export const typeDefs = gql`
       sortOrder: String
     ): ServiceConnection
 
+    # RoomService queries
+    roomService(id: ID!): RoomService
+    roomServices(
+      page: Int
+      limit: Int
+      roomId: ID
+      propertyId: ID
+      serviceId: ID
+      status: String
+      sortBy: String
+      sortOrder: String
+    ): RoomServiceConnection
+
+    # Meter queries
+    meter(id: ID!): Meter
+    meters(roomId: ID, propertyId: ID, type: String, active: Boolean): [Meter!]!
+    meterReadings(meterId: ID!, page: Int, limit: Int): MeterReadingConnection
+    utilityTariffs(propertyId: ID!): [UtilityTariff!]!
+
     # Payment queries
     payment(id: ID!): Payment
     payments(
@@ -92,6 +118,7 @@ export const typeDefs = gql`
       sortBy: String
       sortOrder: String
     ): PaymentConnection
+    paymentTransactions(page: Int, limit: Int, renterId: ID, method: String): PaymentTransactionConnection
 
     # Maintenance queries
     maintenanceEvent(id: ID!): MaintenanceEvent
@@ -106,9 +133,91 @@ export const typeDefs = gql`
       sortBy: String
       sortOrder: String
     ): MaintenanceEventConnection
+    maintenanceRequest(id: ID!): MaintenanceRequest
+    maintenanceRequests(
+      page: Int
+      limit: Int
+      status: String
+      roomId: ID
+      propertyId: ID
+    ): MaintenanceRequestConnection
+
+    # Expense queries
+    expense(id: ID!): Expense
+    expenses(
+      page: Int
+      limit: Int
+      propertyId: ID
+      roomId: ID
+      category: String
+      fromDate: DateTime
+      toDate: DateTime
+      sortBy: String
+      sortOrder: String
+    ): ExpenseConnection
+
+    # Export queries
+    exportColumns(dataset: String!): [ExportColumn!]!
+    exportJob(id: ID!): ExportJob
+    exportJobs(page: Int, limit: Int): ExportJobConnection
+
+    # Import queries
+    importColumns(entity: String!): [ImportColumn!]!
+
+    # Report queries
+    propertyFinancialReport(
+      propertyId: ID
+      userId: ID
+      from: DateTime!
+      to: DateTime!
+      groupBy: String
+    ): FinancialReport!
+    occupancyReport(
+      propertyId: ID
+      userId: ID
+      from: DateTime!
+      to: DateTime!
+      groupBy: String
+    ): OccupancyReport!
+    rentRoll(propertyId: ID!, asOf: DateTime): RentRoll!
+    agingReport(propertyId: ID, userId: ID, asOf: DateTime): AgingReport!
 
     # ThemeSettings queries
     themeSettings(userId: ID!): ThemeSettings
+
+    # Late fee queries
+    lateFeePolicy(propertyId: ID!): LateFeePolicy
+    previewLateFees(propertyId: ID!, policy: LateFeePolicyInput, asOf: DateTime): [LateFeePreview!]!
+
+    # Event queries
+    event(id: ID!): Event
+    events(
+      page: Int
+      limit: Int
+      search: String
+      eventType: String
+      active: Boolean
+      sortBy: String
+      sortOrder: String
+    ): EventConnection
+
+    # Notification queries
+    notifications(page: Int, limit: Int, unreadOnly: Boolean): NotificationConnection
+    unreadNotificationCount: Int!
+    notificationDeliveries(
+      page: Int
+      limit: Int
+      renterId: ID
+      eventId: ID
+      channel: String
+      status: String
+      sortBy: String
+      sortOrder: String
+    ): NotificationDeliveryConnection
+
+    # Renter portal queries
+    myTenancy: Tenancy!
+    myMaintenanceRequests: [RenterMaintenanceRequest!]!
   }
 
   type Mutation {
@@ -128,6 +237,10 @@ export const typeDefs = gql`
     createRoom(input: CreateRoomInput!): Room
     updateRoom(id: ID!, input: UpdateRoomInput!): Room
     deleteRoom(id: ID!): Boolean
+    reconcileRoomStatuses(dryRun: Boolean, propertyId: ID): RoomStatusReconciliation
+    addRoomImage(roomId: ID!, file: Upload!, caption: String): RoomImage
+    removeRoomImage(id: ID!): Boolean
+    reorderRoomImages(roomId: ID!, imageIds: [ID!]!): [RoomImage!]!
 
     # Renter mutations
     createRenter(input: CreateRenterInput!): Renter
@@ -138,11 +251,25 @@ export const typeDefs = gql`
     createDocument(input: CreateDocumentInput!): Document
     updateDocument(id: ID!, input: UpdateDocumentInput!): Document
     deleteDocument(id: ID!): Boolean
+    verifyDocument(id: ID!, status: String, note: String): Document
 
     # Contract mutations
     createContract(input: CreateContractInput!): Contract
     updateContract(id: ID!, input: UpdateContractInput!): Contract
-    terminateContract(id: ID!, reason: String!, terminationDate: DateTime): Contract
+    renewContract(id: ID!, input: RenewContractInput!): Contract
+    extendContract(id: ID!, endDate: DateTime!, amount: Float): Contract
+    createContractTemplate(input: CreateContractTemplateInput!): ContractTemplate
+    updateContractTemplate(id: ID!, input: UpdateContractTemplateInput!): ContractTemplate
+    deleteContractTemplate(id: ID!): Boolean
+    generateContractDocument(contractId: ID!, templateId: ID!): Contract
+    terminateContract(
+      id: ID!
+      reason: String!
+      terminationDate: DateTime
+      deductions: [DepositDeductionInput!]
+      settlementNotes: String
+    ): Contract
+    settleDeposit(contractId: ID!, deductions: [DepositDeductionInput!], notes: String): DepositSettlement
     deleteContract(id: ID!): Boolean
 
     # Service mutations
@@ -150,21 +277,80 @@ export const typeDefs = gql`
     updateService(id: ID!, input: UpdateServiceInput!): Service
     deleteService(id: ID!): Boolean
 
+    # RoomService mutations
+    assignServiceToRoom(input: CreateRoomServiceInput!): RoomService
+    updateRoomService(id: ID!, input: UpdateRoomServiceInput!): RoomService
+    endRoomService(id: ID!, endDate: DateTime, status: String): RoomService
+
+    # Meter mutations
+    registerMeter(input: CreateMeterInput!): Meter
+    updateMeter(id: ID!, input: UpdateMeterInput!): Meter
+    setUtilityTariff(propertyId: ID!, meterType: String!, tiers: [TariffTierInput!]!): UtilityTariff
+    recordMeterReading(input: RecordMeterReadingInput!): MeterReading
+
     # Payment mutations
     createPayment(input: CreatePaymentInput!): Payment
     updatePayment(id: ID!, input: UpdatePaymentInput!): Payment
     deletePayment(id: ID!): Boolean
-    markPaymentAsPaid(id: ID!, paidDate: DateTime, reference: String): Payment
+    markPaymentAsPaid(id: ID!, paidDate: DateTime, reference: String, method: String): Payment
+    recordPaymentTransaction(input: RecordPaymentTransactionInput!): PaymentReceipt
+    applyRenterCredit(renterId: ID!, paymentIds: [ID!]): PaymentReceipt
+
+    # Billing mutations
+    generateInvoices(period: String!, dryRun: Boolean, propertyId: ID): InvoiceGenerationResult
+    generateServiceCharges(period: String!, dryRun: Boolean, propertyId: ID): InvoiceGenerationResult
+    setLateFeePolicy(propertyId: ID!, input: LateFeePolicyInput!): LateFeePolicy
+    deleteLateFeePolicy(propertyId: ID!): Boolean
 
     # Maintenance mutations
     createMaintenanceEvent(input: CreateMaintenanceEventInput!): MaintenanceEvent
     updateMaintenanceEvent(id: ID!, input: UpdateMaintenanceEventInput!): MaintenanceEvent
     deleteMaintenanceEvent(id: ID!): Boolean
+    acceptMaintenanceRequest(id: ID!, input: AcceptMaintenanceRequestInput!): MaintenanceRequest
+    rejectMaintenanceRequest(id: ID!, reason: String!): MaintenanceRequest
+    mergeMaintenanceRequest(id: ID!, intoId: ID!): MaintenanceRequest
+
+    # Expense mutations
+    createExpense(input: CreateExpenseInput!): Expense
+    updateExpense(id: ID!, input: UpdateExpenseInput!): Expense
+    deleteExpense(id: ID!): Boolean
+    attachExpenseReceipt(id: ID!, file: Upload!): Expense
+    removeExpenseReceipt(id: ID!): Expense
+
+    # Export mutations
+    createExportJob(input: CreateExportJobInput!): ExportJob
+    deleteExportJob(id: ID!): Boolean
+
+    # Import mutations
+    importCsv(entity: String!, file: Upload!, dryRun: Boolean): ImportReport!
 
     # ThemeSettings mutations
     createThemeSettings(input: CreateThemeSettingsInput!): ThemeSettings
     updateThemeSettings(id: ID!, input: UpdateThemeSettingsInput!): ThemeSettings
     deleteThemeSettings(id: ID!): Boolean
+
+    # Event mutations
+    createEvent(input: CreateEventInput!): Event
+    updateEvent(id: ID!, input: UpdateEventInput!): Event
+    deleteEvent(id: ID!): Boolean
+    addEventTarget(eventId: ID!, input: EventTargetInput!): EventTarget
+    removeEventTarget(id: ID!): Boolean
+    runEvent(id: ID!): Event
+
+    # Notification mutations
+    markNotificationRead(id: ID!): Notification
+    markAllNotificationsRead: Int!
+    retryNotificationDelivery(id: ID!): NotificationDelivery
+
+    # Renter portal mutations
+    updateMyContactDetails(input: UpdateContactDetailsInput!): RenterProfile!
+    submitMaintenanceRequest(input: SubmitMaintenanceRequestInput!, photos: [Upload!]): RenterMaintenanceRequest!
+    rateMaintenanceRequest(id: ID!, rating: Int!, comment: String): RenterMaintenanceRequest!
+  }
+
+  type Subscription {
+    # Notification subscriptions
+    notificationReceived: Notification!
   }
 
   # Auth types
@@ -260,16 +446,62 @@ export const typeDefs = gql`
     pageInfo: PageInfo!
   }
 
+  type RoomServiceConnection {
+    nodes: [RoomService!]!
+    pageInfo: PageInfo!
+  }
+
+  type MeterReadingConnection {
+    nodes: [MeterReading!]!
+    pageInfo: PageInfo!
+  }
+
   type PaymentConnection {
     nodes: [Payment!]!
     pageInfo: PageInfo!
   }
 
+  type PaymentTransactionConnection {
+    nodes: [PaymentTransaction!]!
+    pageInfo: PageInfo!
+  }
+
   type MaintenanceEventConnection {
     nodes: [MaintenanceEvent!]!
     pageInfo: PageInfo!
   }
 
+  type MaintenanceRequestConnection {
+    nodes: [MaintenanceRequest!]!
+    pageInfo: PageInfo!
+  }
+
+  type ExpenseConnection {
+    nodes: [Expense!]!
+    pageInfo: PageInfo!
+    totalAmount: Float!
+  }
+
+  type ExportJobConnection {
+    nodes: [ExportJob!]!
+    pageInfo: PageInfo!
+  }
+
+  type EventConnection {
+    nodes: [Event!]!
+    pageInfo: PageInfo!
+  }
+
+  type NotificationConnection {
+    nodes: [Notification!]!
+    pageInfo: PageInfo!
+  }
+
+  type NotificationDeliveryConnection {
+    nodes: [NotificationDelivery!]!
+    pageInfo: PageInfo!
+  }
+
   # Property type and inputs
   type Property {
     id: ID!
@@ -307,7 +539,7 @@ export const typeDefs = gql`
     status: String!
     price: Float!
     size: Float
-    images: [String]
+    images: [RoomImage!]!
     propertyId: ID!
     createdAt: DateTime!
     updatedAt: DateTime!
@@ -315,6 +547,38 @@ export const typeDefs = gql`
     contracts: [Contract!]!
     maintenanceEvents: [MaintenanceEvent!]!
     roomServices: [RoomService!]!
+    meters: [Meter!]!
+  }
+
+  # Room gallery image; url is the original, mediumUrl and thumbnailUrl are resized WebP variants
+  type RoomImage {
+    id: ID!
+    roomId: ID!
+    position: Int!
+    caption: String
+    mimeType: String
+    size: Int
+    width: Int
+    height: Int
+    url: String!
+    mediumUrl: String!
+    thumbnailUrl: String!
+    createdAt: DateTime!
+  }
+
+  type RoomStatusMismatch {
+    roomId: ID!
+    roomNumber: String!
+    propertyId: ID!
+    currentStatus: String!
+    expectedStatus: String!
+    fixed: Boolean!
+  }
+
+  type RoomStatusReconciliation {
+    dryRun: Boolean!
+    checked: Int!
+    mismatches: [RoomStatusMismatch!]!
   }
 
   input CreateRoomInput {
@@ -325,7 +589,6 @@ export const typeDefs = gql`
     status: String!
     price: Float!
     size: Float
-    images: [String]
     propertyId: ID!
   }
 
@@ -337,7 +600,6 @@ export const typeDefs = gql`
     status: String
     price: Float
     size: Float
-    images: [String]
   }
 
   # Renter type and inputs
@@ -355,6 +617,8 @@ export const typeDefs = gql`
     documents: [Document]
     contracts: [Contract]
     payments: [Payment]
+    notificationDeliveries: [NotificationDelivery!]!
+    creditBalance: Float!
   }
 
   input CreateRenterInput {
@@ -381,10 +645,22 @@ export const typeDefs = gql`
     name: String!
     type: String!
     path: String!
+    mimeType: String
+    size: Int
+    thumbnailPath: String
+    issueDate: DateTime
+    expiryDate: DateTime
+    verificationStatus: String!
+    verifiedAt: DateTime
+    verifiedById: ID
+    verificationNote: String
     renterId: ID!
     createdAt: DateTime!
     updatedAt: DateTime!
     renter: Renter
+    verifiedBy: User
+    downloadUrl: String
+    thumbnailUrl: String
   }
 
   input CreateDocumentInput {
@@ -392,12 +668,16 @@ export const typeDefs = gql`
     type: String!
     path: String!
     renterId: ID!
+    issueDate: DateTime
+    expiryDate: DateTime
   }
 
   input UpdateDocumentInput {
     name: String
     type: String
     path: String
+    issueDate: DateTime
+    expiryDate: DateTime
   }
 
   # Contract type and inputs
@@ -421,6 +701,61 @@ export const typeDefs = gql`
     room: Room!
     payments: [Payment]
     documents: [Document]
+    previousContractId: ID
+    previousContract: Contract
+    nextContract: Contract
+    depositSettlement: DepositSettlement
+  }
+
+  # Contract text with {{placeholder}} fields, rendered to PDF for a contract
+  type ContractTemplate {
+    id: ID!
+    name: String!
+    description: String
+    content: String!
+    userId: ID!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+    user: User
+  }
+
+  input CreateContractTemplateInput {
+    name: String!
+    description: String
+    content: String!
+  }
+
+  input UpdateContractTemplateInput {
+    name: String
+    description: String
+    content: String
+  }
+
+  # Deposit settlement breakdown
+  type DepositDeduction {
+    type: String!
+    description: String!
+    amount: Float!
+    paymentId: ID
+    maintenanceEventId: ID
+  }
+
+  type DepositSettlement {
+    contractId: ID!
+    depositAgreed: Float!
+    depositHeld: Float!
+    deductions: [DepositDeduction!]!
+    totalDeductions: Float!
+    refundDue: Float!
+    amountOwed: Float!
+    settled: Boolean!
+    settledAt: DateTime
+    notes: String
+  }
+
+  input DepositDeductionInput {
+    description: String!
+    amount: Float!
   }
 
   input CreateContractInput {
@@ -436,6 +771,15 @@ export const typeDefs = gql`
     document: String
   }
 
+  input RenewContractInput {
+    startDate: DateTime
+    endDate: DateTime!
+    amount: Float
+    name: String
+    contractType: String
+    document: String
+  }
+
   input UpdateContractInput {
     name: String
     startDate: DateTime
@@ -510,6 +854,83 @@ export const typeDefs = gql`
     status: String
   }
 
+  # Meter types and inputs
+  type Meter {
+    id: ID!
+    roomId: ID!
+    roomServiceId: ID!
+    type: String!
+    serialNumber: String
+    initialReading: Float!
+    active: Boolean!
+    installedAt: DateTime!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+    room: Room
+    roomService: RoomService
+    latestReading: MeterReading
+  }
+
+  type MeterReading {
+    id: ID!
+    meterId: ID!
+    period: String!
+    value: Float!
+    previousValue: Float!
+    consumption: Float!
+    amount: Float!
+    isReplacement: Boolean!
+    readingDate: DateTime!
+    note: String
+    createdAt: DateTime!
+    meter: Meter
+    payments: [Payment!]!
+  }
+
+  type TariffTier {
+    upTo: Float
+    unitPrice: Float!
+  }
+
+  type UtilityTariff {
+    id: ID!
+    propertyId: ID!
+    meterType: String!
+    tiers: [TariffTier!]!
+    updatedAt: DateTime!
+  }
+
+  input CreateMeterInput {
+    roomId: ID!
+    roomServiceId: ID!
+    type: String!
+    serialNumber: String
+    initialReading: Float
+    installedAt: DateTime
+  }
+
+  input UpdateMeterInput {
+    roomServiceId: ID
+    serialNumber: String
+    active: Boolean
+  }
+
+  input TariffTierInput {
+    upTo: Float
+    unitPrice: Float!
+  }
+
+  input RecordMeterReadingInput {
+    meterId: ID!
+    period: String!
+    value: Float!
+    readingDate: DateTime
+    note: String
+    isReplacement: Boolean
+    replacementStartValue: Float
+    oldMeterFinalValue: Float
+  }
+
   # Payment type and inputs
   type Payment {
     id: ID!
@@ -522,11 +943,120 @@ export const typeDefs = gql`
     renterId: ID!
     contractId: ID
     roomServiceId: ID
+    meterReadingId: ID
+    lateFeeForId: ID
+    billingPeriod: String
     createdAt: DateTime!
     updatedAt: DateTime!
     renter: Renter
     contract: Contract
     roomService: RoomService
+    lateFees: [Payment!]!
+    allocations: [PaymentAllocation!]!
+    balance: Float!
+  }
+
+  # Payment ledger types and inputs
+  type PaymentTransaction {
+    id: ID!
+    renterId: ID!
+    amount: Float!
+    method: String!
+    reference: String
+    receivedAt: DateTime!
+    note: String
+    recordedById: ID
+    createdAt: DateTime!
+    renter: Renter
+    allocations: [PaymentAllocation!]!
+  }
+
+  type PaymentAllocation {
+    id: ID!
+    transactionId: ID!
+    paymentId: ID!
+    amount: Float!
+    createdAt: DateTime!
+    payment: Payment
+    transaction: PaymentTransaction
+  }
+
+  type PaymentAllocationResult {
+    paymentId: ID!
+    allocated: Float!
+    remainingBalance: Float!
+    status: String!
+    payment: Payment
+  }
+
+  type PaymentReceipt {
+    transaction: PaymentTransaction
+    allocations: [PaymentAllocationResult!]!
+    credit: Float!
+  }
+
+  input RecordPaymentTransactionInput {
+    renterId: ID!
+    amount: Float!
+    method: String!
+    reference: String
+    receivedAt: DateTime
+    note: String
+    paymentIds: [ID!]
+  }
+
+  # Invoice generation results
+  type GeneratedInvoice {
+    invoiceKey: String!
+    type: String!
+    renterId: ID!
+    contractId: ID
+    roomServiceId: ID
+    amount: Float!
+    dueDate: DateTime!
+    billingPeriod: String
+    description: String
+    status: String!
+  }
+
+  type InvoiceGenerationResult {
+    period: String!
+    dryRun: Boolean!
+    created: Int!
+    skipped: Int!
+    invoices: [GeneratedInvoice!]!
+  }
+
+  # Late fee policy and preview
+  type LateFeePolicy {
+    id: ID!
+    propertyId: ID!
+    type: String!
+    amount: Float!
+    graceDays: Int!
+    maxAmount: Float
+    active: Boolean!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  type LateFeePreview {
+    paymentId: ID!
+    renterId: ID!
+    propertyId: ID!
+    paymentAmount: Float!
+    dueDate: DateTime!
+    daysOverdue: Int!
+    fee: Float!
+    currentFee: Float
+  }
+
+  input LateFeePolicyInput {
+    type: String!
+    amount: Float!
+    graceDays: Int
+    maxAmount: Float
+    active: Boolean
   }
 
   input CreatePaymentInput {
@@ -561,10 +1091,13 @@ export const typeDefs = gql`
     scheduledDate: DateTime
     completedDate: DateTime
     cost: Float
+    chargeToRenter: Boolean!
     notes: String
     createdAt: DateTime!
     updatedAt: DateTime!
     room: Room
+    expense: Expense
+    requests: [MaintenanceRequest!]!
   }
 
   input CreateMaintenanceEventInput {
@@ -575,6 +1108,7 @@ export const typeDefs = gql`
     roomId: ID!
     scheduledDate: DateTime
     cost: Float
+    chargeToRenter: Boolean
     notes: String
   }
 
@@ -586,9 +1120,396 @@ export const typeDefs = gql`
     scheduledDate: DateTime
     completedDate: DateTime
     cost: Float
+    chargeToRenter: Boolean
     notes: String
   }
 
+  # A renter's report of a problem with their room, triaged by the manager
+  type MaintenanceRequest {
+    id: ID!
+    renterId: ID!
+    roomId: ID!
+    category: String!
+    description: String!
+    photoUrls: [String!]!
+    status: String!
+    rejectionReason: String
+    maintenanceEventId: ID
+    duplicateOfId: ID
+    reviewedById: ID
+    reviewedAt: DateTime
+    rating: Int
+    ratingComment: String
+    ratedAt: DateTime
+    createdAt: DateTime!
+    updatedAt: DateTime!
+    renter: Renter
+    room: Room
+    maintenanceEvent: MaintenanceEvent
+    duplicateOf: MaintenanceRequest
+    duplicates: [MaintenanceRequest!]!
+  }
+
+  input AcceptMaintenanceRequestInput {
+    priority: String!
+    scheduledDate: DateTime!
+    title: String
+    notes: String
+  }
+
+  # Expense type and inputs
+  type Expense {
+    id: ID!
+    name: String!
+    amount: Float!
+    date: DateTime!
+    category: String!
+    description: String
+    receipt: String
+    receiptUrl: String
+    propertyId: ID
+    roomId: ID
+    maintenanceEventId: ID
+    autoBooked: Boolean!
+    createdById: ID
+    createdAt: DateTime!
+    updatedAt: DateTime!
+    property: Property
+    room: Room
+    maintenanceEvent: MaintenanceEvent
+    createdBy: User
+  }
+
+  input CreateExpenseInput {
+    name: String!
+    amount: Float!
+    date: DateTime!
+    category: String!
+    description: String
+    propertyId: ID!
+    roomId: ID
+    maintenanceEventId: ID
+  }
+
+  input UpdateExpenseInput {
+    name: String
+    amount: Float
+    date: DateTime
+    category: String
+    description: String
+    propertyId: ID
+    roomId: ID
+    maintenanceEventId: ID
+  }
+
+  # Export types and inputs
+  type ExportColumn {
+    key: String!
+    header: String!
+    date: Boolean!
+  }
+
+  type ExportJob {
+    id: ID!
+    userId: ID!
+    dataset: String!
+    format: String!
+    status: String!
+    filters: JSON
+    columns: [String!]!
+    dateFormat: String
+    rowCount: Int
+    size: Int
+    error: String
+    downloadUrl: String
+    startedAt: DateTime
+    completedAt: DateTime
+    expiresAt: DateTime
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  input CreateExportJobInput {
+    dataset: String!
+    format: String
+    filters: JSON
+    columns: [String!]
+    dateFormat: String
+  }
+
+  # Import types
+  type ImportColumn {
+    name: String!
+    required: Boolean!
+  }
+
+  type ImportFieldChange {
+    field: String!
+    from: String
+    to: String
+  }
+
+  type ImportRowResult {
+    row: Int!
+    key: String!
+    action: String!
+    changes: [ImportFieldChange!]!
+  }
+
+  type ImportRowError {
+    row: Int!
+    message: String!
+  }
+
+  type ImportReport {
+    entity: String!
+    dryRun: Boolean!
+    committed: Boolean!
+    totalRows: Int!
+    created: Int!
+    updated: Int!
+    unchanged: Int!
+    errors: [ImportRowError!]!
+    rows: [ImportRowResult!]!
+  }
+
+  # Renter portal types; only the renter's own data, with no links on to other renters
+  type RenterProfile {
+    id: ID!
+    name: String!
+    email: String
+    phone: String!
+    emergencyContact: String
+    identityNumber: String
+  }
+
+  type TenancyRoom {
+    id: ID!
+    number: String!
+    name: String!
+    type: String
+    floor: Int!
+    size: Int!
+    price: Float!
+    propertyName: String!
+    propertyAddress: String!
+  }
+
+  type TenancyContract {
+    id: ID!
+    name: String!
+    status: String!
+    contractType: String!
+    startDate: DateTime
+    endDate: DateTime
+    amount: Float!
+    securityDeposit: Float
+    documentUrl: String
+    room: TenancyRoom!
+  }
+
+  type TenancyPayment {
+    id: ID!
+    type: String!
+    status: String!
+    description: String
+    billingPeriod: String
+    amount: Float!
+    balance: Float!
+    dueDate: DateTime!
+    contractId: ID
+  }
+
+  type TenancyDocument {
+    id: ID!
+    name: String!
+    type: String!
+    mimeType: String
+    size: Int
+    issueDate: DateTime
+    expiryDate: DateTime
+    verificationStatus: String!
+    verificationNote: String
+    downloadUrl: String
+    thumbnailUrl: String
+    createdAt: DateTime!
+  }
+
+  type TenancyService {
+    id: ID!
+    name: String!
+    description: String
+    fee: Float!
+    feeType: String!
+    startDate: DateTime!
+    endDate: DateTime
+  }
+
+  type Tenancy {
+    renter: RenterProfile!
+    room: TenancyRoom
+    contracts: [TenancyContract!]!
+    upcomingPayments: [TenancyPayment!]!
+    overduePayments: [TenancyPayment!]!
+    creditBalance: Float!
+    documents: [TenancyDocument!]!
+    services: [TenancyService!]!
+  }
+
+  input UpdateContactDetailsInput {
+    email: String
+    phone: String
+    emergencyContact: String
+  }
+
+  # status is the triage outcome; workStatus follows the scheduled maintenance once accepted
+  type RenterMaintenanceRequest {
+    id: ID!
+    category: String!
+    description: String!
+    photoUrls: [String!]!
+    status: String!
+    rejectionReason: String
+    workStatus: String
+    scheduledDate: DateTime
+    completedDate: DateTime
+    rating: Int
+    ratingComment: String
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  input SubmitMaintenanceRequestInput {
+    category: String!
+    description: String!
+  }
+
+  # Financial report types
+  type AmountByKey {
+    key: String!
+    amount: Float!
+  }
+
+  type FinancialSummary {
+    income: [AmountByKey!]!
+    totalIncome: Float!
+    depositsCollected: Float!
+    outstandingReceivables: Float!
+    expenses: [AmountByKey!]!
+    totalExpenses: Float!
+    maintenanceCosts: Float!
+    netOperatingIncome: Float!
+  }
+
+  type FinancialReportPeriod {
+    key: String!
+    start: DateTime!
+    end: DateTime!
+    summary: FinancialSummary!
+  }
+
+  type PropertyFinancialSummary {
+    propertyId: ID!
+    propertyName: String!
+    summary: FinancialSummary!
+  }
+
+  type FinancialReport {
+    from: DateTime!
+    to: DateTime!
+    groupBy: String!
+    summary: FinancialSummary!
+    periods: [FinancialReportPeriod!]!
+    properties: [PropertyFinancialSummary!]!
+  }
+
+  # Occupancy report types
+  type OccupancySummary {
+    roomCount: Int!
+    roomDays: Int!
+    occupiedRoomDays: Int!
+    occupancyRate: Float!
+    vacancyCount: Int!
+    averageVacancyDays: Float!
+    moveOuts: Int!
+    turnoverRate: Float!
+    lostRevenue: Float!
+  }
+
+  type OccupancyPeriod {
+    key: String!
+    start: DateTime!
+    end: DateTime!
+    summary: OccupancySummary!
+  }
+
+  type PropertyOccupancy {
+    propertyId: ID!
+    propertyName: String!
+    summary: OccupancySummary!
+    periods: [OccupancyPeriod!]!
+  }
+
+  type OccupancyReport {
+    from: DateTime!
+    to: DateTime!
+    groupBy: String!
+    summary: OccupancySummary!
+    periods: [OccupancyPeriod!]!
+    properties: [PropertyOccupancy!]!
+  }
+
+  # Rent roll and receivables aging types
+  type RentRollEntry {
+    room: Room!
+    contract: Contract
+    renters: [Renter!]!
+    monthlyAmount: Float!
+    depositHeld: Float!
+    balance: Float!
+  }
+
+  type RentRoll {
+    propertyId: ID!
+    propertyName: String!
+    asOf: DateTime!
+    entries: [RentRollEntry!]!
+    occupiedRooms: Int!
+    vacantRooms: Int!
+    totalMonthlyAmount: Float!
+    totalDepositHeld: Float!
+    totalBalance: Float!
+  }
+
+  type AgingBuckets {
+    current: Float!
+    days1To30: Float!
+    days31To60: Float!
+    days61To90: Float!
+    over90: Float!
+    total: Float!
+  }
+
+  type PropertyAging {
+    propertyId: ID!
+    propertyName: String!
+    buckets: AgingBuckets!
+  }
+
+  type RenterAging {
+    renterId: ID!
+    renterName: String!
+    propertyId: ID
+    buckets: AgingBuckets!
+  }
+
+  type AgingReport {
+    asOf: DateTime!
+    totals: AgingBuckets!
+    properties: [PropertyAging!]!
+    renters: [RenterAging!]!
+  }
+
   # ThemeSettings type and inputs
   type ThemeSettings {
     id: ID!
@@ -615,4 +1536,105 @@ export const typeDefs = gql`
     colorScheme: String
     darkMode: Boolean
   }
+
+  # Event type and inputs
+  type Event {
+    id: ID!
+    name: String!
+    message: String!
+    description: String
+    eventType: String!
+    scheduleDate: DateTime
+    scheduleDay: Int
+    scheduleTime: String
+    notifyBy: [String!]!
+    active: Boolean!
+    lastRun: DateTime
+    nextRun: DateTime
+    createdById: ID!
+    contractId: ID
+    documentId: ID
+    createdAt: DateTime!
+    updatedAt: DateTime!
+    createdBy: User
+    targets: [EventTarget!]!
+  }
+
+  type EventTarget {
+    id: ID!
+    eventId: ID!
+    roomId: ID
+    renterId: ID
+    userId: ID
+    lastNotified: DateTime
+    createdAt: DateTime!
+    event: Event
+    room: Room
+    renter: Renter
+    user: User
+  }
+
+  input EventTargetInput {
+    roomId: ID
+    renterId: ID
+    userId: ID
+  }
+
+  input CreateEventInput {
+    name: String!
+    message: String!
+    description: String
+    eventType: String
+    scheduleDate: DateTime
+    scheduleDay: Int
+    scheduleTime: String
+    notifyBy: [String!]
+    active: Boolean
+    targets: [EventTargetInput!]
+  }
+
+  input UpdateEventInput {
+    name: String
+    message: String
+    description: String
+    eventType: String
+    scheduleDate: DateTime
+    scheduleDay: Int
+    scheduleTime: String
+    notifyBy: [String!]
+    active: Boolean
+  }
+
+  # Notification type
+  type Notification {
+    id: ID!
+    userId: ID!
+    title: String!
+    message: String!
+    type: String!
+    data: JSON
+    readAt: DateTime
+    createdAt: DateTime!
+  }
+
+  # NotificationDelivery type
+  type NotificationDelivery {
+    id: ID!
+    channel: String!
+    recipient: String!
+    subject: String
+    body: String!
+    status: String!
+    error: String
+    retryCount: Int!
+    lastAttemptAt: DateTime
+    sentAt: DateTime
+    eventId: ID
+    renterId: ID
+    userId: ID
+    createdAt: DateTime!
+    updatedAt: DateTime!
+    renter: Renter
+    event: Event
+  }
 `;
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { MAX_FILE_SIZE } from '../services/storage';
+
+// Most files a single GraphQL request may carry
+const MAX_FILES = 10;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_FILE_SIZE, files: MAX_FILES }
+}).any();
+
+const badRequest = (res: Response, message: string) => {
+  res.status(400).json({ errors: [{ message, extensions: { code: 'BAD_REQUEST' } }] });
+};
+
+// Put a file at a dotted path such as "variables.file" or "variables.files.0"
+const setPath = (target: any, path: string, value: unknown) => {
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  const parent = keys.reduce((node, key) => (node == null ? node : node[key]), target);
+
+  if (parent == null || typeof parent !== 'object') {
+    throw new Error(`Invalid upload path: ${path}`);
+  }
+  parent[last] = value;
+};
+
+/**
+ * Support GraphQL multipart requests (https://github.com/jaydenseric/graphql-multipart-request-spec)
+ * for single operations. Files are read into memory by multer and placed into the operation's
+ * variables, where the Upload scalar receives them. Apollo's CSRF protection expects clients to
+ * send an "Apollo-Require-Preflight: true" header with these requests.
+ */
+export const graphqlUploads = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.is('multipart/form-data')) {
+    return next();
+  }
+
+  upload(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      return badRequest(res, error.message);
+    }
+    if (error) {
+      return next(error);
+    }
+
+    try {
+      const operations = JSON.parse(req.body.operations);
+      const map: Record<string, string[]> = JSON.parse(req.body.map || '{}');
+
+      if (Array.isArray(operations)) {
+        return badRequest(res, 'Batched operations are not supported with file uploads');
+      }
+
+      const files = (req.files as Express.Multer.File[]) || [];
+      for (const [field, paths] of Object.entries(map)) {
+        const file = files.find((candidate) => candidate.fieldname === field);
+        if (!file) {
+          return badRequest(res, `Missing file for multipart field "${field}"`);
+        }
+        for (const path of paths) {
+          setPath(operations, path, file);
+        }
+      }
+
+      req.body = operations;
+      next();
+    } catch (parseError) {
+      badRequest(res, `Invalid multipart GraphQL request: ${(parseError as Error).message}`);
+    }
+  });
+};
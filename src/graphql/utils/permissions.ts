@@ -174,6 +174,11 @@ export const canAccessRenter = (renterIdField: string): PermissionRule => {
       ) || false;
     }
 
+    // Renters can only access their own record
+    if (user.role === 'RENTER') {
+      return user.renterId === renterId;
+    }
+
     // Regular users can only access themselves if they are renters
     if (user.role === 'USER') {
       const renter = await prisma.renter.findUnique({
@@ -187,6 +192,14 @@ export const canAccessRenter = (renterIdField: string): PermissionRule => {
   };
 };
 
+/**
+ * Keep renters out of manager operations; they reach their own data through the renter portal.
+ * Unauthenticated requests pass, so resolvers still report them as unauthenticated.
+ */
+export const isNotRenter: PermissionRule = (context: GraphQLContext): boolean => {
+  return context.user?.role !== 'RENTER';
+};
+
 /**
  * Combine multiple permission rules with AND logic
  * @param rules The permission rules to combine
@@ -235,4 +248,24 @@ export const applyPermission = (rule: PermissionRule, resolver: Function) => {
 
     return resolver(parent, args, context, info);
   };
-};
\ No newline at end of file
+};
+
+/**
+ * Apply a permission rule to every resolver in a Query or Mutation map, except the named ones
+ * @param rule The permission rule to apply
+ * @param resolvers The resolver map
+ * @param except Names of resolvers to leave as they are
+ * @returns A new resolver map
+ */
+export const applyPermissionExcept = (
+  rule: PermissionRule,
+  resolvers: Record<string, Function>,
+  except: string[]
+): Record<string, Function> => {
+  return Object.fromEntries(
+    Object.entries(resolvers).map(([name, resolver]) => [
+      name,
+      except.includes(name) ? resolver : applyPermission(rule, resolver)
+    ])
+  );
+};
@@ -0,0 +1,85 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { createContext } from '../graphql/context';
+import { logger } from '../utils/logger';
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_STREAM_LIMIT,
+  ExportFormat,
+  PreparedExport,
+  createExportJob,
+  exportFileName,
+  prepareExport,
+  writeExport
+} from '../services/exports';
+
+const sendError = (res: Response, status: number, message: string) => {
+  res.status(status).json({ status: 'error', message });
+};
+
+// Query-string parameters that configure the export itself; everything else is a filter argument
+const OPTION_PARAMS = ['format', 'columns', 'dateFormat', 'background'];
+
+export const exportRouter = Router();
+
+/**
+ * Download a list query as CSV or XLSX.
+ * Query parameters: format (csv or xlsx, default csv), columns (comma-separated column keys),
+ * dateFormat (e.g. YYYY-MM-DD), background=true to always queue a job, plus the list query's
+ * filter arguments, sortBy and sortOrder. Exports over EXPORT_STREAM_LIMIT rows are queued as
+ * background jobs and answered with 202; fetch the result through the exportJob query.
+ */
+exportRouter.get('/exports/:dataset', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { user, prisma } = await createContext({ req });
+
+    if (!user) {
+      return sendError(res, 401, 'You must be authenticated to export data');
+    }
+
+    if (user.role === 'RENTER') {
+      return sendError(res, 403, 'You do not have permission to export data');
+    }
+
+    const query = req.query as Record<string, string | undefined>;
+    const filters = Object.fromEntries(
+      Object.entries(query).filter(([name]) => !OPTION_PARAMS.includes(name))
+    );
+    const request = {
+      dataset: req.params.dataset,
+      format: String(query.format || 'csv').toUpperCase() as ExportFormat,
+      filters,
+      columns: query.columns ? query.columns.split(',').map((column) => column.trim()).filter(Boolean) : [],
+      dateFormat: query.dateFormat || null
+    };
+
+    let prepared: PreparedExport;
+    try {
+      prepared = await prepareExport(prisma, user, request);
+    } catch (error) {
+      return sendError(res, 400, (error as Error).message);
+    }
+
+    if (query.background === 'true' || prepared.rowCount > EXPORT_STREAM_LIMIT) {
+      const job = await createExportJob(prisma, user, request);
+      return res.status(202).json({
+        status: 'success',
+        message: 'The export is being prepared; query exportJob for its download link',
+        data: job
+      });
+    }
+
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[prepared.format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(prepared.dataset.name, prepared.format)}"`);
+
+    try {
+      const rowCount = await writeExport(prisma, prepared, res);
+      logger.info('📤 Export streamed', { dataset: prepared.dataset.name, rowCount, userId: user.id });
+    } catch (error) {
+      // Headers are gone by now, so the only way to signal the failure is to cut the download short
+      logger.error('❌ Export failed', { dataset: prepared.dataset.name, message: (error as Error).message });
+      res.destroy(error as Error);
+    }
+  } catch (error) {
+    next(error);
+  }
+});
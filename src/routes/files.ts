@@ -0,0 +1,172 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { DocumentType } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { createContext } from '../graphql/context';
+import { logger } from '../utils/logger';
+import {
+  FILE_ROUTE,
+  FILE_URL_TTL_SECONDS,
+  MAX_FILE_SIZE,
+  createSignedFileUrl,
+  getStorage,
+  mimeTypeFromPath,
+  storeUploadedFile,
+  verifySignedFileUrl
+} from '../services/storage';
+
+const DOCUMENT_TYPES = Object.values(DocumentType) as string[];
+
+// Files are held in memory so they can be checked and thumbnailed before they are stored
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_FILE_SIZE, files: 1 }
+});
+
+const sendError = (res: Response, status: number, message: string) => {
+  res.status(status).json({ status: 'error', message });
+};
+
+// Read an optional date field from the form; undefined when missing, null when invalid
+const parseDateField = (value: unknown) => {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export const fileRouter = Router();
+
+/**
+ * Upload a renter document as multipart/form-data.
+ * Fields: file (required), renterId (required), type (DocumentType, default OTHER), name,
+ * issueDate and expiryDate (ISO dates). Renters upload to their own record and can leave out renterId.
+ */
+fileRouter.post(
+  '/uploads/documents',
+  (req: Request, res: Response, next: NextFunction) => {
+    upload.single('file')(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        return sendError(res, error.code === 'LIMIT_FILE_SIZE' ? 413 : 400, error.message);
+      }
+      next(error);
+    });
+  },
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { user, prisma } = await createContext({ req });
+
+      if (!user) {
+        return sendError(res, 401, 'You must be authenticated to upload documents');
+      }
+
+      if (!req.file) {
+        return sendError(res, 400, 'A file is required');
+      }
+
+      const { name, type = 'OTHER' } = req.body;
+      const renterId = req.body.renterId || (user.role === 'RENTER' ? user.renterId : null);
+      const issueDate = parseDateField(req.body.issueDate);
+      const expiryDate = parseDateField(req.body.expiryDate);
+
+      if (!renterId) {
+        return sendError(res, 400, 'Renter ID is required');
+      }
+
+      if (!DOCUMENT_TYPES.includes(type)) {
+        return sendError(res, 400, `Invalid document type: ${type}`);
+      }
+
+      if (issueDate === null || expiryDate === null) {
+        return sendError(res, 400, 'Issue and expiry dates must be valid dates');
+      }
+
+      if (issueDate && expiryDate && expiryDate <= issueDate) {
+        return sendError(res, 400, 'Expiry date must be after the issue date');
+      }
+
+      const renter = await prisma.renter.findUnique({
+        where: { id: renterId },
+        include: { room: { include: { property: true } } }
+      });
+
+      if (!renter) {
+        return sendError(res, 404, 'Renter not found');
+      }
+
+      // Same rule as createDocument: managers can only add documents to renters in their properties,
+      // and renters only to themselves
+      const allowed = user.role === 'RENTER'
+        ? renter.id === user.renterId
+        : user.role === 'ADMIN' || renter.room?.property?.userId === user.id;
+
+      if (!allowed) {
+        return sendError(res, 403, 'You do not have permission to add documents for this renter');
+      }
+
+      let stored;
+      try {
+        stored = await storeUploadedFile(req.file, 'documents');
+      } catch (error) {
+        return sendError(res, 400, (error as Error).message);
+      }
+
+      const document = await prisma.document.create({
+        data: {
+          id: nanoid(),
+          name: name || req.file.originalname,
+          type: type as DocumentType,
+          ...stored,
+          issueDate,
+          expiryDate,
+          renterId,
+          updatedAt: new Date()
+        }
+      });
+
+      logger.info('📎 Document uploaded', { documentId: document.id, renterId, size: stored.size });
+
+      res.status(201).json({
+        status: 'success',
+        data: {
+          ...document,
+          downloadUrl: createSignedFileUrl(document.path),
+          thumbnailUrl: document.thumbnailPath ? createSignedFileUrl(document.thumbnailPath) : null
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Serve a stored file through a signed link handed out by the API (see Document.downloadUrl)
+ */
+fileRouter.get(`${FILE_ROUTE}/*`, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const key = req.params[0];
+    const { expires, signature } = req.query;
+
+    if (typeof expires !== 'string' || typeof signature !== 'string' || !verifySignedFileUrl(key, expires, signature)) {
+      return sendError(res, 403, 'This link is invalid or has expired');
+    }
+
+    let body: Readable;
+    try {
+      body = await getStorage().getStream(key);
+    } catch (error) {
+      if ((error as Error).message === 'File not found') {
+        return sendError(res, 404, 'File not found');
+      }
+      throw error;
+    }
+
+    res.setHeader('Content-Type', mimeTypeFromPath(key));
+    res.setHeader('Cache-Control', `private, max-age=${FILE_URL_TTL_SECONDS}`);
+    await pipeline(body, res);
+  } catch (error) {
+    next(error);
+  }
+});
@@ -17,8 +17,15 @@ import { expressMiddleware } from '@apollo/server/express4';
 import { ApolloServerPluginDrainHttpServer } from '@apollo/server/plugin/drainHttpServer';
 import { ApolloServerPluginLandingPageLocalDefault, ApolloServerPluginLandingPageProductionDefault } from '@apollo/server/plugin/landingPage/default';
 import http from 'http';
+import { WebSocketServer } from 'ws';
+import { useServer } from 'graphql-ws/lib/use/ws';
 import { graphqlSchema } from './graphql/schema';
-import { createContext, GraphQLContext } from './graphql/context';
+import { createContext, createSubscriptionContext, GraphQLContext } from './graphql/context';
+import { startScheduler, stopScheduler } from './services/scheduler';
+import { fileRouter } from './routes/files';
+import { assertFileUrlSecret } from './services/storage';
+import { exportRouter } from './routes/exports';
+import { graphqlUploads } from './graphql/uploads';
 // Load environment variables
 dotenv.config();
 
@@ -66,6 +73,12 @@ app.get('/health', (req: Request, res: Response) => {
   });
 });
 
+// Document uploads and signed file downloads
+app.use(fileRouter);
+
+// CSV/XLSX exports of the list queries
+app.use(exportRouter);
+
 // Rate limiting for GraphQL
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
@@ -76,11 +89,41 @@ const limiter = rateLimit({
 
 // Start the Apollo Server with Express
 async function startApolloServer() {
+  // Signed download links can't be trusted without a secret of our own
+  assertFileUrlSecret();
+
+  // WebSocket server for GraphQL subscriptions, sharing the HTTP server and /graphql path
+  const wsServer = new WebSocketServer({
+    server: httpServer,
+    path: '/graphql',
+  });
+
+  const subscriptionServer = useServer(
+    {
+      schema: graphqlSchema,
+      context: (ctx) => createSubscriptionContext({
+        connectionParams: ctx.connectionParams,
+        req: ctx.extra.request as Request
+      })
+    },
+    wsServer
+  );
+
   // Create Apollo Server
   const server = new ApolloServer<GraphQLContext>({
     schema: graphqlSchema,
     plugins: [
       ApolloServerPluginDrainHttpServer({ httpServer }),
+      // Close open subscriptions when the server shuts down
+      {
+        async serverWillStart() {
+          return {
+            async drainServer() {
+              await subscriptionServer.dispose();
+            },
+          };
+        },
+      },
       // Install a landing page plugin based on NODE_ENV
       process.env.NODE_ENV === 'production'
         ? ApolloServerPluginLandingPageProductionDefault({
@@ -106,6 +149,7 @@ async function startApolloServer() {
     // limiter,
     cookieParser(),
     express.json(),
+    graphqlUploads,
     expressMiddleware(server, {
       context: async ({ req, res }) => createContext({ req: Object.assign(req, { res }) })
     })
@@ -137,6 +181,10 @@ async function startApolloServer() {
   await new Promise<void>((resolve) => httpServer.listen({ port }, resolve));
   console.log(`Server running at http://localhost:${port}`);
   console.log(`GraphQL endpoint and playground ready at http://localhost:${port}/graphql`);
+  console.log(`GraphQL subscriptions ready at ws://localhost:${port}/graphql`);
+
+  // Start background jobs (event reminders, etc.)
+  await startScheduler();
 }
 
 // Start the server
@@ -159,6 +207,7 @@ process.on('unhandledRejection', (err) => {
 // Graceful shutdown for SIGTERM
 process.on('SIGTERM', () => {
   console.log('👋 SIGTERM RECEIVED. Shutting down gracefully');
+  stopScheduler();
   httpServer.close(() => {
     console.log('💥 Process terminated!');
   });
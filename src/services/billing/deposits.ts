@@ -0,0 +1,266 @@
+import { Contract, DepositDeductionType, Prisma, PrismaClient, Renter } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { contractHistoryIds } from '../contracts';
+import { commitInvoices, InvoiceDraft } from './invoices';
+import { applyDepositToPayments, paymentBalance } from './ledger';
+import { formatPeriod, roundAmount, splitAmount } from './period';
+
+type Client = PrismaClient | Prisma.TransactionClient;
+
+export interface DepositDeductionDraft {
+  type: DepositDeductionType;
+  description: string;
+  amount: number;
+  paymentId?: string | null;
+  maintenanceEventId?: string | null;
+}
+
+export interface DepositBreakdown {
+  contractId: string;
+  // Deposit agreed on the contract
+  depositAgreed: number;
+  // Deposit actually collected from the renters
+  depositHeld: number;
+  deductions: DepositDeductionDraft[];
+  totalDeductions: number;
+  refundDue: number;
+  // What the renters still owe when deductions exceed the deposit
+  amountOwed: number;
+  settled: boolean;
+  settledAt: Date | null;
+  notes: string | null;
+}
+
+export interface SettlementOptions {
+  asOf?: Date;
+  // Manual deductions on top of unpaid payments and damage
+  extraDeductions?: { description: string; amount: number }[];
+  notes?: string;
+}
+
+/**
+ * Bill a contract's security deposit as DEPOSIT payments, split between its renters and due on the
+ * contract start date. Safe to call more than once; call it inside the transaction that creates the contract.
+ */
+export const recordDepositCollection = async (
+  prisma: Client,
+  contract: Contract & { renters: Renter[] }
+) => {
+  if (!contract.securityDeposit || contract.renters.length === 0) {
+    return null;
+  }
+
+  const dueDate = contract.startDate || contract.createdAt;
+  const period = formatPeriod(dueDate);
+  const shares = splitAmount(contract.securityDeposit, contract.renters.length);
+
+  const drafts: InvoiceDraft[] = contract.renters.map((renter, index) => ({
+    invoiceKey: `DEPOSIT:${contract.id}:${renter.id}`,
+    type: 'DEPOSIT',
+    renterId: renter.id,
+    contractId: contract.id,
+    amount: shares[index],
+    dueDate,
+    billingPeriod: period,
+    description: `Security deposit - ${contract.name}`
+  }));
+
+  return commitInvoices(prisma, period, drafts);
+};
+
+/**
+ * Check manual deductions before anything is written, so a bad amount can't leave a contract ended but unsettled
+ */
+export const validateExtraDeductions = (extraDeductions: SettlementOptions['extraDeductions'] = []) => {
+  for (const extra of extraDeductions) {
+    if (!(extra.amount > 0)) {
+      throw new Error('Deduction amounts must be greater than zero');
+    }
+  }
+};
+
+/**
+ * Work out how a contract's deposit would be settled: the deposit collected, less the contract's
+ * payments left unpaid that fell due during the tenancy, completed damage repairs charged to the
+ * renter and any manual deductions. Renewed contracts carry their deposit over, so the contracts
+ * they renewed are included.
+ */
+export const computeDepositSettlement = async (
+  prisma: Client,
+  contractId: string,
+  options: SettlementOptions = {}
+): Promise<DepositBreakdown> => {
+  const contract = await prisma.contract.findUnique({
+    where: { id: contractId }
+  });
+
+  if (!contract) {
+    throw new Error('Contract not found');
+  }
+
+  const historyIds = await contractHistoryIds(prisma, contractId);
+  const firstContract = historyIds[0] === contractId
+    ? contract
+    : await prisma.contract.findUniqueOrThrow({ where: { id: historyIds[0] } });
+
+  const payments = await prisma.payment.findMany({
+    where: { contractId: { in: historyIds } },
+    include: { allocations: true },
+    orderBy: { dueDate: 'asc' }
+  });
+
+  // Deposits marked paid before the ledger existed have no allocations, so count them in full
+  const depositHeld = roundAmount(
+    payments
+      .filter((payment) => payment.type === 'DEPOSIT')
+      .reduce((total, payment) => {
+        if (payment.status === 'PAID') return total + payment.amount;
+        return total + payment.amount - paymentBalance(payment);
+      }, 0)
+  );
+
+  const tenancyEnd = contract.terminationDate || options.asOf || new Date();
+  const deductions: DepositDeductionDraft[] = [];
+
+  for (const payment of payments) {
+    if (payment.type === 'DEPOSIT') continue;
+    if (payment.status !== 'PENDING' && payment.status !== 'OVERDUE') continue;
+    // Rent billed in advance for after the tenancy ends is not owed
+    if (payment.dueDate > tenancyEnd) continue;
+
+    const balance = paymentBalance(payment);
+    if (balance <= 0) continue;
+
+    deductions.push({
+      type: 'UNPAID_PAYMENT',
+      description: `Unpaid ${payment.type.toLowerCase()} payment${payment.description ? `: ${payment.description}` : ''}`,
+      amount: balance,
+      paymentId: payment.id
+    });
+  }
+
+  const damages = await prisma.maintenanceEvent.findMany({
+    where: {
+      roomId: contract.roomId,
+      status: 'COMPLETED',
+      chargeToRenter: true,
+      cost: { gt: 0 },
+      createdAt: { gte: firstContract.startDate || firstContract.createdAt, lte: tenancyEnd }
+    },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  for (const damage of damages) {
+    deductions.push({
+      type: 'DAMAGE',
+      description: damage.title,
+      amount: damage.cost!,
+      maintenanceEventId: damage.id
+    });
+  }
+
+  validateExtraDeductions(options.extraDeductions);
+  for (const extra of options.extraDeductions || []) {
+    deductions.push({ type: 'OTHER', description: extra.description, amount: roundAmount(extra.amount) });
+  }
+
+  const totalDeductions = roundAmount(deductions.reduce((total, deduction) => total + deduction.amount, 0));
+
+  return {
+    contractId,
+    depositAgreed: contract.securityDeposit || 0,
+    depositHeld,
+    deductions,
+    totalDeductions,
+    refundDue: Math.max(roundAmount(depositHeld - totalDeductions), 0),
+    amountOwed: Math.max(roundAmount(totalDeductions - depositHeld), 0),
+    settled: false,
+    settledAt: null,
+    notes: options.notes || null
+  };
+};
+
+/**
+ * Get a contract's deposit settlement: the recorded one once settled, otherwise a preview
+ */
+export const getDepositSettlement = async (prisma: PrismaClient, contractId: string): Promise<DepositBreakdown> => {
+  const settlement = await prisma.depositSettlement.findUnique({
+    where: { contractId },
+    include: { deductions: true, contract: true }
+  });
+
+  if (!settlement) {
+    return computeDepositSettlement(prisma, contractId);
+  }
+
+  return {
+    contractId,
+    depositAgreed: settlement.contract.securityDeposit || 0,
+    depositHeld: settlement.depositHeld,
+    deductions: settlement.deductions,
+    totalDeductions: settlement.totalDeductions,
+    refundDue: settlement.refundDue,
+    amountOwed: settlement.amountOwed,
+    settled: true,
+    settledAt: settlement.settledAt,
+    notes: settlement.notes
+  };
+};
+
+/**
+ * Settle a contract's deposit and record the breakdown. Deposit payments that were never
+ * collected are cancelled, since they are no longer due once the contract has ended. What the
+ * deposit covers of the unpaid payments is allocated to them on the ledger, so they stop counting
+ * as owed. Call it inside the transaction that ends the contract, so the two succeed or fail together.
+ */
+export const settleDeposit = async (
+  prisma: Prisma.TransactionClient,
+  contractId: string,
+  options: SettlementOptions = {}
+): Promise<DepositBreakdown> => {
+  const existing = await prisma.depositSettlement.findUnique({ where: { contractId } });
+  if (existing) {
+    throw new Error('Deposit has already been settled for this contract');
+  }
+
+  const breakdown = await computeDepositSettlement(prisma, contractId, options);
+  const historyIds = await contractHistoryIds(prisma, contractId);
+  const settledAt = options.asOf || new Date();
+
+  await prisma.depositSettlement.create({
+    data: {
+      id: nanoid(),
+      contractId,
+      depositHeld: breakdown.depositHeld,
+      totalDeductions: breakdown.totalDeductions,
+      refundDue: breakdown.refundDue,
+      amountOwed: breakdown.amountOwed,
+      settledAt,
+      notes: breakdown.notes,
+      updatedAt: new Date(),
+      deductions: {
+        create: breakdown.deductions.map((deduction) => ({ id: nanoid(), ...deduction }))
+      }
+    }
+  });
+
+  await prisma.payment.updateMany({
+    where: { contractId: { in: historyIds }, type: 'DEPOSIT', status: { in: ['PENDING', 'OVERDUE'] } },
+    data: { status: 'CANCELLED', updatedAt: new Date() }
+  });
+
+  // Unpaid payments come first among the deductions, so they are the first to be paid from the deposit
+  let available = breakdown.depositHeld;
+  const covered: { paymentId: string; amount: number }[] = [];
+  for (const deduction of breakdown.deductions) {
+    if (deduction.type !== 'UNPAID_PAYMENT' || available <= 0) continue;
+
+    const amount = Math.min(deduction.amount, available);
+    covered.push({ paymentId: deduction.paymentId!, amount });
+    available = roundAmount(available - amount);
+  }
+
+  await applyDepositToPayments(prisma, contractId, settledAt, covered);
+
+  return { ...breakdown, settled: true, settledAt };
+};
@@ -0,0 +1,34 @@
+export * from './period';
+export * from './invoices';
+export { generateRentInvoices } from './rentInvoices';
+export { computeServiceCharge, generateServiceCharges } from './serviceCharges';
+export { validateTiers, priceConsumption } from './utilityPricing';
+export type { TariffTier } from './utilityPricing';
+export { computeConsumption, recordMeterReading } from './meterReadings';
+export type { MeterReadingInput } from './meterReadings';
+export {
+  validateLateFeeRule,
+  daysOverdue,
+  computeLateFee,
+  previewLateFees,
+  markOverduePayments,
+  applyLateFees,
+  processOverduePayments
+} from './lateFees';
+export type { LateFeeRule, LateFeeAssessment } from './lateFees';
+export {
+  paymentBalance,
+  renterCredit,
+  recordPaymentTransaction,
+  applyRenterCredit,
+  applyDepositToPayments
+} from './ledger';
+export type { PaymentTransactionInput, AllocationResult } from './ledger';
+export {
+  recordDepositCollection,
+  validateExtraDeductions,
+  computeDepositSettlement,
+  getDepositSettlement,
+  settleDeposit
+} from './deposits';
+export type { DepositDeductionDraft, DepositBreakdown, SettlementOptions } from './deposits';
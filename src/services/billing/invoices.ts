@@ -0,0 +1,88 @@
+import { PaymentType, Prisma, PrismaClient } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { applyRenterCredit } from './ledger';
+
+// A payment a billing generator wants to create
+export interface InvoiceDraft {
+  invoiceKey: string;
+  type: PaymentType;
+  renterId: string;
+  contractId: string | null;
+  roomServiceId?: string | null;
+  meterReadingId?: string | null;
+  lateFeeForId?: string | null;
+  amount: number;
+  dueDate: Date;
+  billingPeriod: string | null;
+  description: string;
+}
+
+export type InvoiceStatus = 'CREATED' | 'WOULD_CREATE' | 'EXISTS';
+
+export interface InvoiceGenerationResult {
+  period: string;
+  dryRun: boolean;
+  created: number;
+  skipped: number;
+  invoices: (InvoiceDraft & { status: InvoiceStatus })[];
+}
+
+// Options shared by the billing generators
+export interface GenerationOptions {
+  period: string;
+  dryRun?: boolean;
+  // Restrict to properties owned by this user
+  ownerId?: string;
+  propertyId?: string;
+}
+
+/**
+ * Persist invoice drafts as PENDING payments.
+ * Drafts whose invoiceKey already exists are skipped, so re-running a period never duplicates rows.
+ * Credit renters carry from earlier overpayments is applied to the new payments straight away.
+ * Pass a transaction client to commit the payments together with the record they bill.
+ */
+export const commitInvoices = async (
+  prisma: PrismaClient | Prisma.TransactionClient,
+  period: string,
+  drafts: InvoiceDraft[],
+  dryRun = false
+): Promise<InvoiceGenerationResult> => {
+  const existing = await prisma.payment.findMany({
+    where: { invoiceKey: { in: drafts.map((draft) => draft.invoiceKey) } },
+    select: { invoiceKey: true }
+  });
+  const existingKeys = new Set(existing.map((payment) => payment.invoiceKey));
+
+  const pending = drafts.filter((draft) => !existingKeys.has(draft.invoiceKey));
+
+  let created = 0;
+  if (!dryRun && pending.length > 0) {
+    const now = new Date();
+    const result = await prisma.payment.createMany({
+      data: pending.map((draft) => ({
+        id: nanoid(),
+        ...draft,
+        status: 'PENDING' as const,
+        updatedAt: now
+      })),
+      skipDuplicates: true
+    });
+    created = result.count;
+
+    for (const renterId of new Set(pending.map((draft) => draft.renterId))) {
+      await applyRenterCredit(prisma, renterId);
+    }
+  }
+
+  return {
+    period,
+    dryRun,
+    created,
+    skipped: drafts.length - pending.length,
+    invoices: drafts.map((draft) => ({
+      ...draft,
+      status: existingKeys.has(draft.invoiceKey) ? 'EXISTS' : dryRun ? 'WOULD_CREATE' : 'CREATED'
+    }))
+  };
+};
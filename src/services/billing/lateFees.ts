@@ -0,0 +1,273 @@
+import { Contract, LateFeePolicy, LateFeeType, Payment, Prisma, PrismaClient, Renter, Room } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { notifyPaymentOverdue } from '../notifications';
+import { commitInvoices, InvoiceDraft } from './invoices';
+import { formatPeriod, roundAmount, startOfDay } from './period';
+
+const DAY = 24 * 60 * 60 * 1000;
+const LATE_FEE_TYPES = Object.values(LateFeeType) as string[];
+
+// The parts of a late-fee policy that decide how much is charged
+export interface LateFeeRule {
+  type: string;
+  // Flat amount, percentage of the payment, or amount per day depending on type
+  amount: number;
+  graceDays?: number;
+  maxAmount?: number | null;
+}
+
+export interface LateFeeAssessment {
+  paymentId: string;
+  renterId: string;
+  propertyId: string;
+  paymentAmount: number;
+  dueDate: Date;
+  daysOverdue: number;
+  fee: number;
+  // Amount of the late fee already charged, if any
+  currentFee: number | null;
+}
+
+type OverduePayment = Payment & {
+  contract: (Contract & { room: Room }) | null;
+  renter: Renter & { room: Room | null };
+  lateFees: Payment[];
+};
+
+const overdueInclude = {
+  contract: { include: { room: true } },
+  renter: { include: { room: true } },
+  lateFees: true
+} satisfies Prisma.PaymentInclude;
+
+/**
+ * Check that a late-fee rule is usable
+ */
+export const validateLateFeeRule = (rule: LateFeeRule) => {
+  if (!LATE_FEE_TYPES.includes(rule.type)) {
+    throw new Error(`Invalid late fee type: ${rule.type}`);
+  }
+
+  if (rule.amount < 0) {
+    throw new Error('Late fee amount cannot be negative');
+  }
+
+  if (rule.type === 'PERCENTAGE' && rule.amount > 100) {
+    throw new Error('Late fee percentage cannot exceed 100');
+  }
+
+  if (rule.graceDays != null && rule.graceDays < 0) {
+    throw new Error('Grace days cannot be negative');
+  }
+
+  if (rule.maxAmount != null && rule.maxAmount < 0) {
+    throw new Error('Late fee cap cannot be negative');
+  }
+};
+
+/**
+ * Count the whole days a payment is past its due date
+ */
+export const daysOverdue = (dueDate: Date, asOf: Date): number => {
+  const days = Math.round((startOfDay(asOf).getTime() - startOfDay(dueDate).getTime()) / DAY);
+  return Math.max(days, 0);
+};
+
+/**
+ * Work out the late fee owed on a payment that is `days` days overdue.
+ * Nothing is charged during the grace period; DAILY fees accrue for each day after it.
+ * The cap, when set, applies to every fee type.
+ */
+export const computeLateFee = (rule: LateFeeRule, paymentAmount: number, days: number): number => {
+  const chargeableDays = days - (rule.graceDays || 0);
+  if (chargeableDays <= 0) return 0;
+
+  let fee: number;
+  switch (rule.type) {
+    case 'FLAT':
+      fee = rule.amount;
+      break;
+    case 'PERCENTAGE':
+      fee = (paymentAmount * rule.amount) / 100;
+      break;
+    case 'DAILY':
+      fee = rule.amount * chargeableDays;
+      break;
+    default:
+      return 0;
+  }
+
+  if (rule.maxAmount != null) {
+    fee = Math.min(fee, rule.maxAmount);
+  }
+
+  return roundAmount(fee);
+};
+
+const paymentPropertyId = (payment: OverduePayment): string | null => {
+  return payment.contract?.room.propertyId ?? payment.renter.room?.propertyId ?? null;
+};
+
+/**
+ * Assess late fees for overdue payments, using the rule of the property each payment belongs to
+ */
+const assessLateFees = (
+  payments: OverduePayment[],
+  ruleFor: (propertyId: string) => LateFeeRule | undefined,
+  asOf: Date
+): (LateFeeAssessment & { payment: OverduePayment })[] => {
+  const assessments: (LateFeeAssessment & { payment: OverduePayment })[] = [];
+
+  for (const payment of payments) {
+    const propertyId = paymentPropertyId(payment);
+    const rule = propertyId ? ruleFor(propertyId) : undefined;
+    if (!propertyId || !rule) continue;
+
+    const days = daysOverdue(payment.dueDate, asOf);
+    const existing = payment.lateFees[0];
+
+    assessments.push({
+      payment,
+      paymentId: payment.id,
+      renterId: payment.renterId,
+      propertyId,
+      paymentAmount: payment.amount,
+      dueDate: payment.dueDate,
+      daysOverdue: days,
+      fee: computeLateFee(rule, payment.amount, days),
+      currentFee: existing ? existing.amount : null
+    });
+  }
+
+  return assessments;
+};
+
+/**
+ * Preview the late fees a property's unpaid payments would be charged as of a date.
+ * Pass `rule` to try out a policy before saving it; otherwise the property's active policy is used.
+ */
+export const previewLateFees = async (
+  prisma: PrismaClient,
+  options: { propertyId: string; asOf?: Date; rule?: LateFeeRule }
+): Promise<LateFeeAssessment[]> => {
+  const asOf = options.asOf || new Date();
+
+  let rule = options.rule;
+  if (!rule) {
+    const policy = await prisma.lateFeePolicy.findUnique({ where: { propertyId: options.propertyId } });
+    if (!policy || !policy.active) return [];
+    rule = policy;
+  }
+
+  const payments = await prisma.payment.findMany({
+    where: {
+      status: { in: ['PENDING', 'OVERDUE'] },
+      dueDate: { lt: startOfDay(asOf) },
+      lateFeeForId: null,
+      OR: [
+        { contract: { room: { propertyId: options.propertyId } } },
+        { contractId: null, renter: { room: { propertyId: options.propertyId } } }
+      ]
+    },
+    include: overdueInclude,
+    orderBy: { dueDate: 'asc' }
+  });
+
+  return assessLateFees(payments, () => rule, asOf)
+    .filter((assessment) => assessment.fee > 0)
+    .map(({ payment, ...assessment }) => assessment);
+};
+
+/**
+ * Flip PENDING payments past their due date to OVERDUE and alert the property owners
+ */
+export const markOverduePayments = async (prisma: PrismaClient, now: Date = new Date()) => {
+  const duePayments = await prisma.payment.findMany({
+    where: { status: 'PENDING', dueDate: { lt: startOfDay(now) } }
+  });
+
+  if (duePayments.length === 0) {
+    return 0;
+  }
+
+  await prisma.payment.updateMany({
+    where: { id: { in: duePayments.map((payment) => payment.id) }, status: 'PENDING' },
+    data: { status: 'OVERDUE', updatedAt: now }
+  });
+
+  for (const payment of duePayments) {
+    await notifyPaymentOverdue(prisma, { ...payment, status: 'OVERDUE' }).catch((error) =>
+      logger.error(`❌ Overdue alert for payment ${payment.id} failed`, { message: error?.message })
+    );
+  }
+
+  return duePayments.length;
+};
+
+/**
+ * Charge late fees on OVERDUE payments as linked OTHER payments, one per overdue payment.
+ * DAILY fees are re-assessed on every run while the fee itself is still unpaid.
+ */
+export const applyLateFees = async (prisma: PrismaClient, now: Date = new Date()) => {
+  const policies = await prisma.lateFeePolicy.findMany({ where: { active: true } });
+  if (policies.length === 0) {
+    return { created: 0, updated: 0 };
+  }
+
+  const policyByProperty = new Map<string, LateFeePolicy>(
+    policies.map((policy) => [policy.propertyId, policy])
+  );
+
+  const payments = await prisma.payment.findMany({
+    where: { status: 'OVERDUE', lateFeeForId: null },
+    include: overdueInclude
+  });
+
+  const assessments = assessLateFees(payments, (propertyId) => policyByProperty.get(propertyId), now);
+
+  const drafts: InvoiceDraft[] = [];
+  let updated = 0;
+
+  for (const { payment, fee } of assessments) {
+    if (fee <= 0) continue;
+
+    const existing = payment.lateFees[0];
+    if (!existing) {
+      drafts.push({
+        invoiceKey: `LATE:${payment.id}`,
+        type: 'OTHER',
+        renterId: payment.renterId,
+        contractId: payment.contractId,
+        lateFeeForId: payment.id,
+        amount: fee,
+        dueDate: startOfDay(now),
+        billingPeriod: payment.billingPeriod,
+        description: `Late fee: ${payment.description || payment.type}`
+      });
+      continue;
+    }
+
+    const unpaid = existing.status === 'PENDING' || existing.status === 'OVERDUE';
+    if (unpaid && existing.amount !== fee) {
+      await prisma.payment.update({
+        where: { id: existing.id },
+        data: { amount: fee, updatedAt: now }
+      });
+      updated++;
+    }
+  }
+
+  const result = await commitInvoices(prisma, formatPeriod(now), drafts);
+
+  return { created: result.created, updated };
+};
+
+/**
+ * Scheduled entry point: mark overdue payments, then charge late fees on them
+ */
+export const processOverduePayments = async (prisma: PrismaClient, now: Date = new Date()) => {
+  const markedOverdue = await markOverduePayments(prisma, now);
+  const fees = await applyLateFees(prisma, now);
+
+  return { markedOverdue, feesCreated: fees.created, feesUpdated: fees.updated };
+};
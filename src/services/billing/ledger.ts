@@ -0,0 +1,268 @@
+import { Payment, PaymentAllocation, PaymentMethod, PaymentStatus, Prisma, PrismaClient } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { roundAmount } from './period';
+
+type Tx = Prisma.TransactionClient;
+
+const PAYMENT_METHODS = Object.values(PaymentMethod) as string[];
+
+export interface PaymentTransactionInput {
+  renterId: string;
+  amount: number;
+  method: string;
+  reference?: string;
+  receivedAt?: Date;
+  note?: string;
+  // Payments to settle, in order; defaults to all of the renter's outstanding payments, oldest first
+  paymentIds?: string[];
+  recordedById?: string;
+}
+
+export interface AllocationResult {
+  paymentId: string;
+  allocated: number;
+  remainingBalance: number;
+  status: PaymentStatus;
+}
+
+// A pool of money that can still be allocated: an unallocated part of a transaction
+interface FundingSource {
+  transactionId: string;
+  receivedAt: Date;
+  available: number;
+}
+
+// Run in a transaction of its own unless the caller is already in one
+const inTransaction = <T>(prisma: PrismaClient | Tx, run: (tx: Tx) => Promise<T>): Promise<T> => {
+  return '$transaction' in prisma ? prisma.$transaction(run) : run(prisma);
+};
+
+const sumAllocations = (allocations: Pick<PaymentAllocation, 'amount'>[]) => {
+  return roundAmount(allocations.reduce((total, allocation) => total + allocation.amount, 0));
+};
+
+/**
+ * Amount still owed on a payment after its allocations
+ */
+export const paymentBalance = (payment: Payment & { allocations: Pick<PaymentAllocation, 'amount'>[] }) => {
+  return Math.max(roundAmount(payment.amount - sumAllocations(payment.allocations)), 0);
+};
+
+/**
+ * Unallocated money from the renter's transactions, oldest receipt first
+ */
+const fundingSources = async (tx: Tx, renterId: string): Promise<FundingSource[]> => {
+  const transactions = await tx.paymentTransaction.findMany({
+    where: { renterId },
+    include: { allocations: true },
+    orderBy: [{ receivedAt: 'asc' }, { createdAt: 'asc' }]
+  });
+
+  return transactions
+    .map((transaction) => ({
+      transactionId: transaction.id,
+      receivedAt: transaction.receivedAt,
+      available: roundAmount(transaction.amount - sumAllocations(transaction.allocations))
+    }))
+    .filter((source) => source.available > 0);
+};
+
+/**
+ * The renter's unpaid payments: the ones listed, in the given order, or all of them oldest first
+ */
+const outstandingPayments = async (tx: Tx, renterId: string, paymentIds?: string[]) => {
+  const payments = await tx.payment.findMany({
+    where: {
+      renterId,
+      status: { in: ['PENDING', 'OVERDUE'] },
+      ...(paymentIds && { id: { in: paymentIds } })
+    },
+    include: { allocations: true },
+    orderBy: [{ dueDate: 'asc' }, { createdAt: 'asc' }]
+  });
+
+  if (!paymentIds) {
+    return payments;
+  }
+
+  return paymentIds.map((id) => {
+    const payment = payments.find((candidate) => candidate.id === id);
+    if (!payment) {
+      throw new Error(`Payment ${id} is not an outstanding payment of this renter`);
+    }
+    return payment;
+  });
+};
+
+/**
+ * Allocate money from the funding sources to payments in order.
+ * A payment becomes PAID, dated with the receipt that completed it, once nothing is owed.
+ */
+const allocateFunds = async (
+  tx: Tx,
+  sources: FundingSource[],
+  payments: (Payment & { allocations: PaymentAllocation[] })[]
+): Promise<AllocationResult[]> => {
+  const results: AllocationResult[] = [];
+
+  for (const payment of payments) {
+    let balance = paymentBalance(payment);
+    let allocated = 0;
+    let lastSource: FundingSource | undefined;
+
+    for (const source of sources) {
+      if (balance <= 0) break;
+      if (source.available <= 0) continue;
+
+      const amount = Math.min(source.available, balance);
+      await tx.paymentAllocation.create({
+        data: {
+          id: nanoid(),
+          transactionId: source.transactionId,
+          paymentId: payment.id,
+          amount
+        }
+      });
+
+      source.available = roundAmount(source.available - amount);
+      balance = roundAmount(balance - amount);
+      allocated = roundAmount(allocated + amount);
+      lastSource = source;
+    }
+
+    if (allocated === 0) continue;
+
+    let status = payment.status;
+    if (balance <= 0) {
+      status = 'PAID';
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: { status, paidDate: lastSource!.receivedAt, updatedAt: new Date() }
+      });
+    }
+
+    results.push({ paymentId: payment.id, allocated, remainingBalance: balance, status });
+  }
+
+  return results;
+};
+
+const remainingCredit = (sources: FundingSource[]) => {
+  return roundAmount(sources.reduce((total, source) => total + source.available, 0));
+};
+
+/**
+ * Credit a renter holds: money received but not yet allocated to any payment
+ */
+export const renterCredit = async (prisma: PrismaClient | Tx, renterId: string) => {
+  return remainingCredit(await fundingSources(prisma, renterId));
+};
+
+/**
+ * Record a receipt from a renter and allocate it to their outstanding payments, followed by any
+ * credit they already hold. Whatever is left over stays on the ledger as credit.
+ */
+export const recordPaymentTransaction = async (prisma: PrismaClient, input: PaymentTransactionInput) => {
+  if (!(input.amount > 0)) {
+    throw new Error('Transaction amount must be greater than zero');
+  }
+
+  if (!PAYMENT_METHODS.includes(input.method)) {
+    throw new Error(`Invalid payment method: ${input.method}`);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const renter = await tx.renter.findUnique({ where: { id: input.renterId } });
+    if (!renter) {
+      throw new Error('Renter not found');
+    }
+
+    const payments = await outstandingPayments(tx, input.renterId, input.paymentIds);
+    const existingCredit = await fundingSources(tx, input.renterId);
+
+    const transaction = await tx.paymentTransaction.create({
+      data: {
+        id: nanoid(),
+        renterId: input.renterId,
+        amount: roundAmount(input.amount),
+        method: input.method as PaymentMethod,
+        reference: input.reference,
+        receivedAt: input.receivedAt || new Date(),
+        note: input.note,
+        recordedById: input.recordedById,
+        updatedAt: new Date()
+      }
+    });
+
+    const sources = [
+      { transactionId: transaction.id, receivedAt: transaction.receivedAt, available: transaction.amount },
+      ...existingCredit
+    ];
+    const allocations = await allocateFunds(tx, sources, payments);
+
+    return { transaction, allocations, credit: remainingCredit(sources) };
+  });
+};
+
+/**
+ * Apply a renter's existing credit to their outstanding payments
+ */
+export const applyRenterCredit = async (prisma: PrismaClient | Tx, renterId: string, paymentIds?: string[]) => {
+  return inTransaction(prisma, async (tx) => {
+    const sources = await fundingSources(tx, renterId);
+    if (sources.length === 0) {
+      return { transaction: null, allocations: [], credit: 0 };
+    }
+
+    const payments = await outstandingPayments(tx, renterId, paymentIds);
+    const allocations = await allocateFunds(tx, sources, payments);
+
+    return { transaction: null, allocations, credit: remainingCredit(sources) };
+  });
+};
+
+/**
+ * Settle payments out of a security deposit that is being kept. Each renter gets one transaction for
+ * the part of the deposit taken, allocated to their payments in the order given.
+ */
+export const applyDepositToPayments = async (
+  tx: Tx,
+  contractId: string,
+  appliedAt: Date,
+  amounts: { paymentId: string; amount: number }[]
+): Promise<AllocationResult[]> => {
+  const payments = await tx.payment.findMany({
+    where: { id: { in: amounts.map((entry) => entry.paymentId) } },
+    include: { allocations: true }
+  });
+
+  const results: AllocationResult[] = [];
+  const renterIds = [...new Set(payments.map((payment) => payment.renterId))];
+
+  for (const renterId of renterIds) {
+    const entries = amounts.filter((entry) =>
+      payments.some((payment) => payment.id === entry.paymentId && payment.renterId === renterId)
+    );
+    const amount = roundAmount(entries.reduce((total, entry) => total + entry.amount, 0));
+    if (amount <= 0) continue;
+
+    const transaction = await tx.paymentTransaction.create({
+      data: {
+        id: nanoid(),
+        renterId,
+        amount,
+        method: 'OTHER',
+        reference: `DEPOSIT:${contractId}`,
+        receivedAt: appliedAt,
+        note: 'Applied from the security deposit',
+        updatedAt: new Date()
+      }
+    });
+
+    const source = { transactionId: transaction.id, receivedAt: appliedAt, available: amount };
+    const renterPayments = entries.map((entry) => payments.find((payment) => payment.id === entry.paymentId)!);
+    results.push(...await allocateFunds(tx, [source], renterPayments));
+  }
+
+  return results;
+};
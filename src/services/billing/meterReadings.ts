@@ -0,0 +1,161 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { commitInvoices, InvoiceDraft } from './invoices';
+import { dayInPeriod, parsePeriod, roundAmount, splitAmount } from './period';
+import { priceConsumption, TariffTier } from './utilityPricing';
+
+export interface MeterReadingInput {
+  meterId: string;
+  period: string;
+  value: number;
+  readingDate?: Date;
+  note?: string;
+  // Set when the physical meter was swapped since the previous reading
+  isReplacement?: boolean;
+  // Value the new meter started at, defaults to 0
+  replacementStartValue?: number;
+  // Last value read from the old meter, if known, so its final usage is still billed
+  oldMeterFinalValue?: number;
+}
+
+/**
+ * Work out the consumption since the previous reading.
+ * Readings may only decrease when the meter was replaced; the new meter's usage is then counted
+ * from its start value, plus whatever the old meter recorded before it was removed.
+ */
+export const computeConsumption = (
+  previousValue: number,
+  input: Pick<MeterReadingInput, 'value' | 'isReplacement' | 'replacementStartValue' | 'oldMeterFinalValue'>
+) => {
+  if (!input.isReplacement) {
+    if (input.value < previousValue) {
+      throw new Error('Meter readings cannot decrease unless the meter was replaced');
+    }
+    return { baseline: previousValue, consumption: input.value - previousValue };
+  }
+
+  const startValue = input.replacementStartValue ?? 0;
+  if (input.value < startValue) {
+    throw new Error('Reading cannot be below the replacement meter start value');
+  }
+
+  let oldMeterUsage = 0;
+  if (input.oldMeterFinalValue != null) {
+    if (input.oldMeterFinalValue < previousValue) {
+      throw new Error('Old meter final value cannot be below its previous reading');
+    }
+    oldMeterUsage = input.oldMeterFinalValue - previousValue;
+  }
+
+  return { baseline: startValue, consumption: oldMeterUsage + input.value - startValue };
+};
+
+/**
+ * Lock a meter's row until the transaction ends, so readings for the same meter are recorded one at a time
+ */
+const lockMeter = async (tx: Prisma.TransactionClient, meterId: string) => {
+  await tx.$queryRaw`SELECT "id" FROM "Meter" WHERE "id" = ${meterId} FOR UPDATE`;
+};
+
+/**
+ * Record a monthly meter reading, price its consumption with the property's tariff and bill it
+ * as SERVICE payments on the meter's room service, split between the renters on the room's
+ * active contract. Readings must be recorded in period order. The reading and its payments are
+ * saved together, so a reading is never left unbilled.
+ */
+export const recordMeterReading = async (prisma: PrismaClient, input: MeterReadingInput) => {
+  const period = parsePeriod(input.period);
+
+  return prisma.$transaction(async (tx) => {
+    // The previous reading is the baseline, so it must not change until this one is saved
+    await lockMeter(tx, input.meterId);
+
+    const meter = await tx.meter.findUnique({
+      where: { id: input.meterId },
+      include: {
+        room: true,
+        roomService: { include: { service: true } },
+        readings: { orderBy: { period: 'desc' }, take: 1 }
+      }
+    });
+
+    if (!meter) {
+      throw new Error('Meter not found');
+    }
+
+    if (!meter.active) {
+      throw new Error('Readings cannot be recorded for an inactive meter');
+    }
+
+    const latest = meter.readings[0];
+    if (latest && latest.period >= period.key) {
+      throw new Error(`A reading for ${latest.period} already exists; readings must be recorded in order`);
+    }
+
+    const { baseline, consumption } = computeConsumption(latest ? latest.value : meter.initialReading, input);
+
+    const tariff = await tx.utilityTariff.findUnique({
+      where: { propertyId_meterType: { propertyId: meter.room.propertyId, meterType: meter.type } }
+    });
+
+    if (!tariff) {
+      throw new Error(`No ${meter.type.toLowerCase()} tariff is configured for this property`);
+    }
+
+    const amount = priceConsumption(consumption, tariff.tiers as unknown as TariffTier[]);
+    const readingDate = input.readingDate || new Date();
+
+    const reading = await tx.meterReading.create({
+      data: {
+        id: nanoid(),
+        meterId: meter.id,
+        period: period.key,
+        value: input.value,
+        previousValue: baseline,
+        consumption,
+        amount,
+        isReplacement: !!input.isReplacement,
+        readingDate,
+        note: input.note,
+        updatedAt: new Date()
+      }
+    });
+
+    const contract = await tx.contract.findFirst({
+      where: {
+        roomId: meter.roomId,
+        status: 'ACTIVE',
+        startDate: { lte: period.end },
+        OR: [{ endDate: null }, { endDate: { gte: period.start } }]
+      },
+      include: { renters: { orderBy: { id: 'asc' } } },
+      orderBy: { startDate: 'desc' }
+    });
+
+    if (!contract || contract.renters.length === 0 || amount === 0) {
+      return reading;
+    }
+
+    const rentDay = contract.startDate ? contract.startDate.getDate() : 1;
+    const rentDueDate = dayInPeriod(period, rentDay);
+    const dueDate = readingDate > rentDueDate ? readingDate : rentDueDate;
+    const shares = splitAmount(amount, contract.renters.length);
+
+    const drafts: InvoiceDraft[] = contract.renters.map((renter, index) => ({
+      invoiceKey: `METER:${reading.id}:${renter.id}`,
+      type: 'SERVICE',
+      renterId: renter.id,
+      contractId: contract.id,
+      roomServiceId: meter.roomServiceId,
+      meterReadingId: reading.id,
+      amount: shares[index],
+      dueDate,
+      billingPeriod: period.key,
+      description: `${meter.roomService.service.name} ${period.key} (${roundAmount(consumption)} units) - Room ${meter.room.number}`
+    }));
+
+    await commitInvoices(tx, period.key, drafts);
+
+    return reading;
+  });
+};
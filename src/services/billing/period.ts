@@ -0,0 +1,88 @@
+// A monthly billing period, e.g. "2025-05"
+export interface BillingPeriod {
+  key: string;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Parse a "YYYY-MM" string into the first and last instant of that month
+ */
+export const parsePeriod = (period: string): BillingPeriod => {
+  const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(period);
+  if (!match) {
+    throw new Error('Billing period must use the YYYY-MM format');
+  }
+
+  const year = Number(match[1]);
+  const month = Number(match[2]) - 1;
+
+  return {
+    key: period,
+    start: new Date(year, month, 1),
+    end: new Date(year, month + 1, 0, 23, 59, 59, 999)
+  };
+};
+
+/**
+ * Format a date as the "YYYY-MM" period containing it
+ */
+export const formatPeriod = (date: Date): string => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Build a date in the given period on `day`, clamped to the length of the month
+ */
+export const dayInPeriod = (period: BillingPeriod, day: number): Date => {
+  const daysInMonth = period.end.getDate();
+  return new Date(period.start.getFullYear(), period.start.getMonth(), Math.min(day, daysInMonth));
+};
+
+/**
+ * Round an amount to two decimals
+ */
+export const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Split an amount evenly between `parts`, giving any rounding remainder to the last part
+ */
+export const splitAmount = (amount: number, parts: number): number[] => {
+  const share = roundAmount(amount / parts);
+  const shares = Array(parts).fill(share);
+  shares[parts - 1] = roundAmount(amount - share * (parts - 1));
+  return shares;
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Strip the time of day from a date
+ */
+export const startOfDay = (date: Date): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+};
+
+/**
+ * Count the calendar days two date ranges share, inclusive of both ends.
+ * A null end means the range is open-ended.
+ */
+export const overlapDays = (
+  start: Date,
+  end: Date | null,
+  rangeStart: Date,
+  rangeEnd: Date
+): number => {
+  const from = startOfDay(start > rangeStart ? start : rangeStart);
+  const to = startOfDay(end && end < rangeEnd ? end : rangeEnd);
+  if (to < from) return 0;
+  return Math.round((to.getTime() - from.getTime()) / DAY) + 1;
+};
+
+/**
+ * Prorate a monthly amount by the days of the period that [start, end] covers
+ */
+export const prorateMonthly = (amount: number, start: Date, end: Date | null, period: BillingPeriod): number => {
+  const coveredDays = overlapDays(start, end, period.start, period.end);
+  return roundAmount((amount * coveredDays) / period.end.getDate());
+};
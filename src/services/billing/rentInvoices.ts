@@ -0,0 +1,61 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { commitInvoices, GenerationOptions, InvoiceDraft } from './invoices';
+import { dayInPeriod, parsePeriod, prorateMonthly, splitAmount } from './period';
+
+/**
+ * Generate RENT payments for every ACTIVE contract that overlaps the billing period.
+ *
+ * Each renter on a contract gets one payment per period; the contract amount is split evenly
+ * between renters. Rent for a month the contract only partly covers is prorated by the days it
+ * covers, like MONTHLY service charges. Rent is due on the contract's start day of month (clamped
+ * to the month's length), or on the start date itself in the month the contract begins.
+ */
+export const generateRentInvoices = async (prisma: PrismaClient, options: GenerationOptions) => {
+  const period = parsePeriod(options.period);
+
+  const where: Prisma.ContractWhereInput = {
+    status: 'ACTIVE',
+    startDate: { lte: period.end },
+    OR: [{ endDate: null }, { endDate: { gte: period.start } }],
+    ...((options.ownerId || options.propertyId) && {
+      room: {
+        ...(options.propertyId && { propertyId: options.propertyId }),
+        ...(options.ownerId && { property: { userId: options.ownerId } })
+      }
+    })
+  };
+
+  const contracts = await prisma.contract.findMany({
+    where,
+    include: { renters: { orderBy: { id: 'asc' } }, room: true }
+  });
+
+  const drafts: InvoiceDraft[] = [];
+
+  for (const contract of contracts) {
+    if (contract.renters.length === 0 || !contract.startDate) continue;
+
+    const dueDate = contract.startDate >= period.start
+      ? contract.startDate
+      : dayInPeriod(period, contract.startDate.getDate());
+    const amount = prorateMonthly(contract.amount, contract.startDate, contract.endDate, period);
+    if (!amount) continue;
+
+    const shares = splitAmount(amount, contract.renters.length);
+
+    contract.renters.forEach((renter, index) => {
+      drafts.push({
+        invoiceKey: `RENT:${contract.id}:${renter.id}:${period.key}`,
+        type: 'RENT',
+        renterId: renter.id,
+        contractId: contract.id,
+        amount: shares[index],
+        dueDate,
+        billingPeriod: period.key,
+        description: `Rent ${period.key} - Room ${contract.room.number}`
+      });
+    });
+  }
+
+  return commitInvoices(prisma, period.key, drafts, options.dryRun);
+};
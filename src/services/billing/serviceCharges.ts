@@ -0,0 +1,125 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { commitInvoices, GenerationOptions, InvoiceDraft } from './invoices';
+import { BillingPeriod, dayInPeriod, overlapDays, parsePeriod, prorateMonthly, roundAmount, splitAmount } from './period';
+
+/**
+ * Work out the amount a room service is charged in a period, or null when nothing is due.
+ *
+ * MONTHLY fees are prorated by the days of the month the service covers.
+ * YEARLY fees are charged in the month the service started each year, prorated when the
+ * service ends before the year is over. ONE_TIME fees are charged in full in any period the
+ * service covers; their invoice key is the same every period, so they are only billed once, even
+ * when the month the service started was never billed.
+ */
+export const computeServiceCharge = (
+  feeType: string,
+  fee: number,
+  startDate: Date,
+  endDate: Date | null,
+  period: BillingPeriod
+): number | null => {
+  const coveredDays = overlapDays(startDate, endDate, period.start, period.end);
+  if (coveredDays === 0) return null;
+
+  switch (feeType) {
+    case 'MONTHLY':
+      return prorateMonthly(fee, startDate, endDate, period);
+
+    case 'YEARLY': {
+      if (startDate.getMonth() !== period.start.getMonth()) return null;
+
+      const cycleStart = new Date(period.start.getFullYear(), startDate.getMonth(), startDate.getDate());
+      const cycleEnd = new Date(cycleStart.getFullYear() + 1, cycleStart.getMonth(), cycleStart.getDate() - 1);
+      const cycleDays = overlapDays(cycleStart, cycleEnd, cycleStart, cycleEnd);
+      const billedDays = overlapDays(startDate, endDate, cycleStart, cycleEnd);
+      return billedDays > 0 ? roundAmount((fee * billedDays) / cycleDays) : null;
+    }
+
+    case 'ONE_TIME':
+      return fee;
+
+    default:
+      return null;
+  }
+};
+
+/**
+ * Generate SERVICE payments for every ACTIVE room service in the billing period.
+ * Charges are split between the renters on the room's active contract and fall due
+ * with that contract's rent (or on the service start date, whichever is later).
+ * Metered room services are skipped; they are billed when their readings are recorded.
+ */
+export const generateServiceCharges = async (prisma: PrismaClient, options: GenerationOptions) => {
+  const period = parsePeriod(options.period);
+
+  const where: Prisma.RoomServiceWhereInput = {
+    status: 'ACTIVE',
+    startDate: { lte: period.end },
+    OR: [{ endDate: null }, { endDate: { gte: period.start } }],
+    meters: { none: {} },
+    ...((options.ownerId || options.propertyId) && {
+      room: {
+        ...(options.propertyId && { propertyId: options.propertyId }),
+        ...(options.ownerId && { property: { userId: options.ownerId } })
+      }
+    })
+  };
+
+  const roomServices = await prisma.roomService.findMany({
+    where,
+    include: {
+      service: true,
+      room: {
+        include: {
+          contracts: {
+            where: {
+              status: 'ACTIVE',
+              startDate: { lte: period.end },
+              OR: [{ endDate: null }, { endDate: { gte: period.start } }]
+            },
+            include: { renters: { orderBy: { id: 'asc' } } },
+            orderBy: { startDate: 'desc' }
+          }
+        }
+      }
+    }
+  });
+
+  const drafts: InvoiceDraft[] = [];
+
+  for (const roomService of roomServices) {
+    const contract = roomService.room.contracts[0];
+    if (!contract || contract.renters.length === 0) continue;
+
+    const amount = computeServiceCharge(
+      roomService.service.feeType,
+      roomService.service.fee,
+      roomService.startDate,
+      roomService.endDate,
+      period
+    );
+    if (!amount) continue;
+
+    const rentDay = contract.startDate ? contract.startDate.getDate() : 1;
+    const rentDueDate = dayInPeriod(period, rentDay);
+    const dueDate = roomService.startDate > rentDueDate ? roomService.startDate : rentDueDate;
+    const shares = splitAmount(amount, contract.renters.length);
+    const cycle = roomService.service.feeType === 'ONE_TIME' ? 'ONCE' : period.key;
+
+    contract.renters.forEach((renter, index) => {
+      drafts.push({
+        invoiceKey: `SERVICE:${roomService.id}:${renter.id}:${cycle}`,
+        type: 'SERVICE',
+        renterId: renter.id,
+        contractId: contract.id,
+        roomServiceId: roomService.id,
+        amount: shares[index],
+        dueDate,
+        billingPeriod: period.key,
+        description: `${roomService.service.name} ${period.key} - Room ${roomService.room.number}`
+      });
+    });
+  }
+
+  return commitInvoices(prisma, period.key, drafts, options.dryRun);
+};
@@ -0,0 +1,61 @@
+import { roundAmount } from './period';
+
+// One step of a tiered utility tariff. `upTo` is the cumulative consumption the tier ends at;
+// null marks the last, open-ended tier.
+export interface TariffTier {
+  upTo: number | null;
+  unitPrice: number;
+}
+
+/**
+ * Check that tiers are ordered by `upTo`, priced non-negatively and end with an open-ended tier
+ */
+export const validateTiers = (tiers: TariffTier[]) => {
+  if (tiers.length === 0) {
+    throw new Error('A tariff needs at least one tier');
+  }
+
+  let previousUpTo = 0;
+  tiers.forEach((tier, index) => {
+    const isLast = index === tiers.length - 1;
+
+    if (tier.unitPrice < 0) {
+      throw new Error('Tier unit prices cannot be negative');
+    }
+
+    if (tier.upTo === null || tier.upTo === undefined) {
+      if (!isLast) {
+        throw new Error('Only the last tier can be open-ended');
+      }
+      return;
+    }
+
+    if (tier.upTo <= previousUpTo) {
+      throw new Error('Tier limits must be positive and increasing');
+    }
+    previousUpTo = tier.upTo;
+  });
+
+  if (tiers[tiers.length - 1].upTo != null) {
+    throw new Error('The last tier must be open-ended');
+  }
+};
+
+/**
+ * Price a consumption against tiers, charging each unit at the rate of the tier it falls in
+ */
+export const priceConsumption = (consumption: number, tiers: TariffTier[]): number => {
+  let amount = 0;
+  let lowerBound = 0;
+
+  for (const tier of tiers) {
+    if (consumption <= lowerBound) break;
+
+    const upperBound = tier.upTo ?? Infinity;
+    const unitsInTier = Math.min(consumption, upperBound) - lowerBound;
+    amount += unitsInTier * tier.unitPrice;
+    lowerBound = upperBound;
+  }
+
+  return roundAmount(amount);
+};
@@ -0,0 +1,78 @@
+import { ContractStatus, Prisma, PrismaClient } from '@prisma/client';
+import { reconcileRoomStatus } from './roomStatus';
+
+/**
+ * Lock a room's row until the transaction ends, so concurrent changes to the room wait their turn
+ */
+export const lockRoom = async (tx: Prisma.TransactionClient, roomId: string) => {
+  await tx.$queryRaw`SELECT "id" FROM "Room" WHERE "id" = ${roomId} FOR UPDATE`;
+};
+
+/**
+ * Make sure no PENDING or ACTIVE contract for the room covers any day of the given range.
+ * A missing end date means the range is open-ended. Call it in the transaction that saves the
+ * booking: the room stays locked until then, so two bookings for the same dates can't both pass.
+ */
+export const assertRoomAvailable = async (
+  prisma: Prisma.TransactionClient,
+  roomId: string,
+  startDate: Date,
+  endDate: Date | null,
+  excludeContractIds: string[] = []
+) => {
+  if (endDate && endDate < startDate) {
+    throw new Error('End date cannot be before start date');
+  }
+
+  await lockRoom(prisma, roomId);
+
+  const overlapping = await prisma.contract.findFirst({
+    where: {
+      roomId,
+      id: { notIn: excludeContractIds },
+      status: { in: ['PENDING', 'ACTIVE'] },
+      AND: [
+        ...(endDate ? [{ OR: [{ startDate: null }, { startDate: { lte: endDate } }] }] : []),
+        { OR: [{ endDate: null }, { endDate: { gte: startDate } }] }
+      ]
+    },
+    orderBy: { startDate: 'asc' }
+  });
+
+  if (overlapping) {
+    const from = overlapping.startDate ? overlapping.startDate.toDateString() : 'the start';
+    const to = overlapping.endDate ? overlapping.endDate.toDateString() : 'open-ended';
+    throw new Error(`Room is already booked from ${from} to ${to} under contract "${overlapping.name}"`);
+  }
+};
+
+/**
+ * Contracts that start in the future are booked as PENDING and activated on their start date
+ */
+export const initialContractStatus = (startDate: Date, now: Date = new Date()): ContractStatus => {
+  return startDate > now ? 'PENDING' : 'ACTIVE';
+};
+
+/**
+ * Activate PENDING contracts whose start date has arrived and move their rooms from
+ * RESERVED to OCCUPIED
+ */
+export const activateDueContracts = async (prisma: PrismaClient, now: Date = new Date()) => {
+  const dueContracts = await prisma.contract.findMany({
+    where: { status: 'PENDING', startDate: { lte: now } }
+  });
+
+  for (const contract of dueContracts) {
+    await prisma.contract.update({
+      where: { id: contract.id },
+      data: { status: 'ACTIVE', updatedAt: new Date() }
+    });
+  }
+
+  const roomIds = new Set(dueContracts.map((contract) => contract.roomId));
+  for (const roomId of roomIds) {
+    await reconcileRoomStatus(prisma, roomId, now);
+  }
+
+  return dueContracts.length;
+};
@@ -0,0 +1,86 @@
+import { PrismaClient } from '@prisma/client';
+import PDFDocument from 'pdfkit';
+import { nanoid } from 'nanoid';
+import { logger } from '../../utils/logger';
+import { getStorage } from '../storage';
+import { contractTemplateValues, renderTemplate } from './templates';
+
+// Generated contracts are stored under this folder
+const CONTRACT_FOLDER = 'contracts';
+
+/**
+ * Lay out a titled block of text as an A4 PDF
+ */
+export const renderContractPdf = (title: string, body: string): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({ size: 'A4', margin: 50, info: { Title: title } });
+    const chunks: Buffer[] = [];
+
+    pdf.on('data', (chunk: Buffer) => chunks.push(chunk));
+    pdf.on('end', () => resolve(Buffer.concat(chunks)));
+    pdf.on('error', reject);
+
+    pdf.fontSize(18).text(title, { align: 'center' });
+    pdf.moveDown();
+    pdf.fontSize(11).text(body, { align: 'justify' });
+    pdf.end();
+  });
+};
+
+/**
+ * Render a contract from a template, save the PDF, attach it to every renter as a CONTRACT
+ * document and point the contract's document at the file
+ */
+export const generateContractDocument = async (prisma: PrismaClient, contractId: string, templateId: string) => {
+  const contract = await prisma.contract.findUnique({
+    where: { id: contractId },
+    include: { renters: true, room: { include: { property: true } } }
+  });
+
+  if (!contract) {
+    throw new Error('Contract not found');
+  }
+
+  if (contract.renters.length === 0) {
+    throw new Error('Contract has no renters to generate a document for');
+  }
+
+  const template = await prisma.contractTemplate.findUnique({ where: { id: templateId } });
+
+  if (!template) {
+    throw new Error('Contract template not found');
+  }
+
+  const body = renderTemplate(template.content, contractTemplateValues(contract));
+  const pdf = await renderContractPdf(contract.name, body);
+
+  const filePath = `${CONTRACT_FOLDER}/${contract.id}-${nanoid(8)}.pdf`;
+  await getStorage().put(filePath, pdf, 'application/pdf');
+
+  const updated = await prisma.$transaction(async (tx) => {
+    for (const renter of contract.renters) {
+      await tx.document.create({
+        data: {
+          id: nanoid(),
+          name: `${contract.name}.pdf`,
+          type: 'CONTRACT',
+          path: filePath,
+          mimeType: 'application/pdf',
+          size: pdf.length,
+          renterId: renter.id,
+          updatedAt: new Date()
+        }
+      });
+    }
+
+    return tx.contract.update({
+      where: { id: contract.id },
+      data: { document: filePath, updatedAt: new Date() },
+      include: { renters: true, room: true }
+    });
+  });
+
+  logger.info('📄 Contract document generated', { contractId, templateId, path: filePath });
+
+  return updated;
+};
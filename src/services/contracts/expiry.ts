@@ -0,0 +1,102 @@
+import { NotifyMethod, PrismaClient } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { logger } from '../../utils/logger';
+import { startOfDay } from '../billing/period';
+import { reconcileRoomStatus } from './roomStatus';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// How many days before a contract ends its CONTRACT_EXPIRY reminder goes out
+export const EXPIRY_NOTICE_DAYS = Number(process.env.CONTRACT_EXPIRY_NOTICE_DAYS) || 30;
+
+const EXPIRY_NOTIFY_BY: NotifyMethod[] = ['IN_APP', 'EMAIL'];
+
+/**
+ * Move ACTIVE contracts whose end date has passed to EXPIRED and release their rooms
+ * when nothing else holds them
+ */
+export const expireContracts = async (prisma: PrismaClient, now: Date = new Date()) => {
+  const endedContracts = await prisma.contract.findMany({
+    where: { status: 'ACTIVE', endDate: { lt: startOfDay(now) } }
+  });
+
+  for (const contract of endedContracts) {
+    await prisma.contract.update({
+      where: { id: contract.id },
+      data: { status: 'EXPIRED', updatedAt: new Date() }
+    });
+  }
+
+  const roomIds = new Set(endedContracts.map((contract) => contract.roomId));
+  for (const roomId of roomIds) {
+    await reconcileRoomStatus(prisma, roomId, now);
+  }
+
+  return endedContracts.length;
+};
+
+/**
+ * Create a CONTRACT_EXPIRY event for each active contract ending within the notice period.
+ * The event targets the renters and the property owner and is due straight away, so the
+ * event dispatcher sends it on its next run. Renewed contracts are skipped.
+ */
+export const scheduleExpiryNotices = async (
+  prisma: PrismaClient,
+  now: Date = new Date(),
+  noticeDays: number = EXPIRY_NOTICE_DAYS
+) => {
+  const contracts = await prisma.contract.findMany({
+    where: {
+      status: 'ACTIVE',
+      endDate: { gte: startOfDay(now), lte: new Date(now.getTime() + noticeDays * DAY) },
+      nextContract: null,
+      events: { none: { eventType: 'CONTRACT_EXPIRY' } }
+    },
+    include: {
+      renters: true,
+      room: { include: { property: true } }
+    }
+  });
+
+  for (const contract of contracts) {
+    const ownerId = contract.room.property.userId;
+    const endDate = contract.endDate!.toDateString();
+
+    await prisma.event.create({
+      data: {
+        id: nanoid(),
+        name: `Contract expiring: ${contract.name}`,
+        message: `The contract "${contract.name}" for room ${contract.room.number} ends on ${endDate}.`,
+        eventType: 'CONTRACT_EXPIRY',
+        scheduleDate: now,
+        notifyBy: EXPIRY_NOTIFY_BY,
+        nextRun: now,
+        createdById: ownerId,
+        contractId: contract.id,
+        updatedAt: new Date(),
+        eventTargets: {
+          create: [
+            ...contract.renters.map((renter) => ({ id: nanoid(), renterId: renter.id })),
+            { id: nanoid(), userId: ownerId }
+          ]
+        }
+      }
+    });
+  }
+
+  return contracts.length;
+};
+
+/**
+ * Scheduled entry point: expire ended contracts, then queue reminders for those ending soon
+ */
+export const processContractExpiry = async (prisma: PrismaClient, now: Date = new Date()) => {
+  const expired = await expireContracts(prisma, now);
+  const notices = await scheduleExpiryNotices(prisma, now);
+
+  if (expired > 0 || notices > 0) {
+    logger.info('📅 Contract expiry processed', { expired, notices });
+  }
+
+  return { expired, notices };
+};
@@ -0,0 +1,9 @@
+export { getRenewalChain, contractHistoryIds, createSuccessorContract } from './renewals';
+export type { RenewalTerms } from './renewals';
+export { deriveRoomStatus, reconcileRoomStatus, reconcileRoomStatuses } from './roomStatus';
+export type { RoomStatusMismatch } from './roomStatus';
+export { lockRoom, assertRoomAvailable, initialContractStatus, activateDueContracts } from './booking';
+export { EXPIRY_NOTICE_DAYS, expireContracts, scheduleExpiryNotices, processContractExpiry } from './expiry';
+export { TEMPLATE_PLACEHOLDERS, validateTemplateContent, contractTemplateValues, renderTemplate } from './templates';
+export type { TemplatePlaceholder } from './templates';
+export { renderContractPdf, generateContractDocument } from './documents';
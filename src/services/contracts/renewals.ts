@@ -0,0 +1,141 @@
+import { Contract, ContractType, Prisma, PrismaClient } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { assertRoomAvailable, initialContractStatus } from './booking';
+import { reconcileRoomStatus } from './roomStatus';
+
+// Terms of a successor contract; anything left out is carried over from the current contract
+export interface RenewalTerms {
+  startDate?: Date;
+  endDate: Date;
+  amount?: number;
+  name?: string;
+  contractType?: string;
+  document?: string;
+}
+
+const dayAfter = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+const dayBefore = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1);
+
+/**
+ * Get every contract in a renewal chain, from the original contract to the latest successor
+ */
+export const getRenewalChain = async (prisma: PrismaClient | Prisma.TransactionClient, contractId: string): Promise<Contract[]> => {
+  let first = await prisma.contract.findUnique({ where: { id: contractId } });
+  if (!first) {
+    throw new Error('Contract not found');
+  }
+
+  while (first.previousContractId) {
+    const previous: Contract | null = await prisma.contract.findUnique({ where: { id: first.previousContractId } });
+    if (!previous) break;
+    first = previous;
+  }
+
+  const chain = [first];
+  for (;;) {
+    const next = await prisma.contract.findUnique({
+      where: { previousContractId: chain[chain.length - 1].id }
+    });
+    if (!next) break;
+    chain.push(next);
+  }
+
+  return chain;
+};
+
+/**
+ * Ids of a contract and all the contracts it renewed, oldest first
+ */
+export const contractHistoryIds = async (prisma: PrismaClient | Prisma.TransactionClient, contractId: string): Promise<string[]> => {
+  const chain = await getRenewalChain(prisma, contractId);
+  const index = chain.findIndex((contract) => contract.id === contractId);
+  return chain.slice(0, index + 1).map((contract) => contract.id);
+};
+
+/**
+ * Create the successor of an active or expired contract. The successor keeps the room, renters
+ * and security deposit, and starts the day after the current contract ends unless told otherwise;
+ * a renewal that starts earlier cuts the current contract short. A successor starting in the
+ * future stays PENDING until its start date.
+ */
+export const createSuccessorContract = async (prisma: PrismaClient, contractId: string, terms: RenewalTerms) => {
+  return prisma.$transaction(async (tx) => {
+    const contract = await tx.contract.findUnique({
+      where: { id: contractId },
+      include: { renters: true, nextContract: true }
+    });
+
+    if (!contract) {
+      throw new Error('Contract not found');
+    }
+
+    if (contract.nextContract) {
+      throw new Error('Contract has already been renewed');
+    }
+
+    if (contract.status !== 'ACTIVE' && contract.status !== 'EXPIRED') {
+      throw new Error(`A ${contract.status.toLowerCase()} contract cannot be renewed`);
+    }
+
+    if (!contract.startDate || !contract.endDate) {
+      throw new Error('Only contracts with a start and end date can be renewed');
+    }
+
+    const startDate = terms.startDate || dayAfter(contract.endDate);
+
+    if (startDate <= contract.startDate) {
+      throw new Error('The renewal must start after the current contract starts');
+    }
+
+    if (terms.endDate <= startDate) {
+      throw new Error('End date must be after the start date');
+    }
+
+    if (terms.amount != null && terms.amount <= 0) {
+      throw new Error('Rent amount must be greater than zero');
+    }
+
+    if (terms.contractType && !(Object.values(ContractType) as string[]).includes(terms.contractType)) {
+      throw new Error(`Invalid contract type: ${terms.contractType}`);
+    }
+
+    // The room may have been booked by someone else after the current contract
+    await assertRoomAvailable(tx, contract.roomId, startDate, terms.endDate, [contract.id]);
+
+    if (startDate <= contract.endDate) {
+      await tx.contract.update({
+        where: { id: contract.id },
+        data: { endDate: dayBefore(startDate), updatedAt: new Date() }
+      });
+    }
+
+    const successor = await tx.contract.create({
+      data: {
+        id: nanoid(),
+        name: terms.name || contract.name,
+        roomId: contract.roomId,
+        amount: terms.amount ?? contract.amount,
+        securityDeposit: contract.securityDeposit,
+        contractType: (terms.contractType || contract.contractType) as ContractType,
+        document: terms.document,
+        startDate,
+        endDate: terms.endDate,
+        status: initialContractStatus(startDate),
+        previousContractId: contract.id,
+        updatedAt: new Date(),
+        renters: {
+          connect: contract.renters.map((renter) => ({ id: renter.id }))
+        }
+      },
+      include: {
+        renters: true,
+        room: true
+      }
+    });
+
+    // Derive the room's status rather than setting it, so work in progress keeps it in MAINTENANCE
+    await reconcileRoomStatus(tx, contract.roomId);
+
+    return successor;
+  });
+};
@@ -0,0 +1,123 @@
+import { Contract, MaintenanceEvent, Prisma, PrismaClient, Room, RoomStatus } from '@prisma/client';
+import { startOfDay } from '../billing/period';
+
+type RoomWithActivity = Room & {
+  contracts: Pick<Contract, 'status' | 'startDate' | 'endDate'>[];
+  maintenanceEvents: Pick<MaintenanceEvent, 'status'>[];
+};
+
+export interface RoomStatusMismatch {
+  roomId: string;
+  roomNumber: string;
+  propertyId: string;
+  currentStatus: RoomStatus;
+  expectedStatus: RoomStatus;
+  fixed: boolean;
+}
+
+// Only these records can hold a room
+const roomActivityInclude = {
+  contracts: {
+    where: { status: { in: ['ACTIVE', 'PENDING'] } },
+    select: { status: true, startDate: true, endDate: true }
+  },
+  maintenanceEvents: {
+    where: { status: 'IN_PROGRESS' },
+    select: { status: true }
+  }
+} satisfies Prisma.RoomInclude;
+
+/**
+ * Work out the status a room should have:
+ * MAINTENANCE while work is in progress, OCCUPIED while an active contract covers today,
+ * RESERVED when a contract starts later, and AVAILABLE otherwise.
+ */
+export const deriveRoomStatus = (room: RoomWithActivity, now: Date = new Date()): RoomStatus => {
+  if (room.maintenanceEvents.length > 0) {
+    return 'MAINTENANCE';
+  }
+
+  const today = startOfDay(now);
+
+  const occupied = room.contracts.some((contract) =>
+    contract.status === 'ACTIVE' &&
+    (!contract.startDate || contract.startDate <= now) &&
+    (!contract.endDate || contract.endDate >= today)
+  );
+  if (occupied) {
+    return 'OCCUPIED';
+  }
+
+  const reserved = room.contracts.some((contract) => contract.startDate && contract.startDate > now);
+  if (reserved) {
+    return 'RESERVED';
+  }
+
+  return 'AVAILABLE';
+};
+
+/**
+ * Bring a single room's status in line with its contracts and maintenance
+ */
+export const reconcileRoomStatus = async (prisma: PrismaClient | Prisma.TransactionClient, roomId: string, now: Date = new Date()) => {
+  const room = await prisma.room.findUnique({
+    where: { id: roomId },
+    include: roomActivityInclude
+  });
+
+  if (!room) {
+    return null;
+  }
+
+  const expectedStatus = deriveRoomStatus(room, now);
+  if (room.status !== expectedStatus) {
+    await prisma.room.update({
+      where: { id: roomId },
+      data: { status: expectedStatus, updatedAt: new Date() }
+    });
+  }
+
+  return expectedStatus;
+};
+
+/**
+ * Find rooms whose status disagrees with their contracts and open maintenance, and fix them
+ * unless this is a dry run
+ */
+export const reconcileRoomStatuses = async (
+  prisma: PrismaClient,
+  options: { now?: Date; dryRun?: boolean; propertyId?: string } = {}
+) => {
+  const now = options.now || new Date();
+
+  const rooms = await prisma.room.findMany({
+    where: options.propertyId ? { propertyId: options.propertyId } : undefined,
+    include: roomActivityInclude,
+    orderBy: [{ propertyId: 'asc' }, { number: 'asc' }]
+  });
+
+  const mismatches: RoomStatusMismatch[] = [];
+
+  for (const room of rooms) {
+    const expectedStatus = deriveRoomStatus(room, now);
+    if (room.status === expectedStatus) continue;
+
+    if (!options.dryRun) {
+      await prisma.room.update({
+        where: { id: room.id },
+        data: { status: expectedStatus, updatedAt: new Date() }
+      });
+    }
+
+    mismatches.push({
+      roomId: room.id,
+      roomNumber: room.number,
+      propertyId: room.propertyId,
+      currentStatus: room.status,
+      expectedStatus,
+      fixed: !options.dryRun
+    });
+  }
+
+  return { checked: rooms.length, mismatches };
+};
@@ -0,0 +1,74 @@
+import { Contract, Property, Renter, Room } from '@prisma/client';
+
+type ContractWithParties = Contract & {
+  renters: Renter[];
+  room: Room & { property: Property };
+};
+
+// Placeholders a contract template can use, written as {{name}} in the template content
+export const TEMPLATE_PLACEHOLDERS = [
+  'contractName',
+  'renterNames',
+  'roomNumber',
+  'propertyName',
+  'propertyAddress',
+  'amount',
+  'securityDeposit',
+  'startDate',
+  'endDate',
+  'today'
+] as const;
+
+export type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const formatDate = (date: Date | null) => (date ? date.toDateString() : '');
+const formatMoney = (amount: number | null) => (amount != null ? amount.toFixed(2) : '');
+
+/**
+ * Reject empty templates and placeholders that cannot be filled in
+ */
+export const validateTemplateContent = (content: string) => {
+  if (!content.trim()) {
+    throw new Error('Template content cannot be empty');
+  }
+
+  const unknown = new Set<string>();
+  content.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    if (!(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name)) {
+      unknown.add(name);
+    }
+    return placeholder;
+  });
+
+  if (unknown.size > 0) {
+    throw new Error(`Unknown template placeholders: ${[...unknown].join(', ')}`);
+  }
+};
+
+/**
+ * Values for every placeholder, taken from the contract, its renters, room and property
+ */
+export const contractTemplateValues = (
+  contract: ContractWithParties,
+  now: Date = new Date()
+): Record<TemplatePlaceholder, string> => ({
+  contractName: contract.name,
+  renterNames: contract.renters.map((renter) => renter.name).join(', '),
+  roomNumber: contract.room.number,
+  propertyName: contract.room.property.name,
+  propertyAddress: contract.room.property.address,
+  amount: formatMoney(contract.amount),
+  securityDeposit: formatMoney(contract.securityDeposit),
+  startDate: formatDate(contract.startDate),
+  endDate: formatDate(contract.endDate),
+  today: formatDate(now)
+});
+
+/**
+ * Replace each {{placeholder}} in the template content with its value
+ */
+export const renderTemplate = (content: string, values: Record<string, string>) => {
+  return content.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+};
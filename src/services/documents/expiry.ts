@@ -0,0 +1,97 @@
+import { DocumentType, NotifyMethod, Prisma, PrismaClient } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { logger } from '../../utils/logger';
+import { startOfDay } from '../billing/period';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// How many days before an ID document expires its DOCUMENT_EXPIRY reminder goes out
+export const DOCUMENT_EXPIRY_NOTICE_DAYS = Number(process.env.DOCUMENT_EXPIRY_NOTICE_DAYS) || 30;
+
+// Document types that carry an expiry date and must stay valid while a renter holds a contract
+export const ID_DOCUMENT_TYPES: DocumentType[] = ['ID_CARD', 'PASSPORT'];
+
+const EXPIRY_NOTIFY_BY: NotifyMethod[] = ['IN_APP', 'EMAIL'];
+
+/**
+ * Filter for documents that expire between today and the end of the given window
+ */
+export const expiringDocumentsWhere = (
+  withinDays: number,
+  now: Date = new Date()
+): Prisma.DocumentWhereInput => ({
+  expiryDate: { gte: startOfDay(now), lte: new Date(now.getTime() + withinDays * DAY) }
+});
+
+/**
+ * Create a DOCUMENT_EXPIRY event for each ID document that expires within the notice period
+ * while its renter has an active contract. The event targets the renter and the owners of the
+ * properties they rent in, and is due straight away so the event dispatcher sends it on its
+ * next run. Each document is only reminded about once per expiry date.
+ */
+export const scheduleDocumentExpiryNotices = async (
+  prisma: PrismaClient,
+  now: Date = new Date(),
+  noticeDays: number = DOCUMENT_EXPIRY_NOTICE_DAYS
+) => {
+  const documents = await prisma.document.findMany({
+    where: {
+      ...expiringDocumentsWhere(noticeDays, now),
+      type: { in: ID_DOCUMENT_TYPES },
+      verificationStatus: { not: 'REJECTED' },
+      renter: { contracts: { some: { status: 'ACTIVE' } } },
+      events: { none: { eventType: 'DOCUMENT_EXPIRY' } }
+    },
+    include: {
+      renter: {
+        include: {
+          contracts: {
+            where: { status: 'ACTIVE' },
+            include: { room: { include: { property: true } } }
+          }
+        }
+      }
+    }
+  });
+
+  for (const document of documents) {
+    const ownerIds = [...new Set(document.renter.contracts.map((contract) => contract.room.property.userId))];
+    const expiryDate = document.expiryDate!.toDateString();
+
+    await prisma.event.create({
+      data: {
+        id: nanoid(),
+        name: `Document expiring: ${document.name}`,
+        message: `${document.renter.name}'s ${document.type.replace('_', ' ').toLowerCase()} "${document.name}" expires on ${expiryDate}. Please provide a renewed copy.`,
+        eventType: 'DOCUMENT_EXPIRY',
+        scheduleDate: now,
+        notifyBy: EXPIRY_NOTIFY_BY,
+        nextRun: now,
+        createdById: ownerIds[0],
+        documentId: document.id,
+        updatedAt: new Date(),
+        eventTargets: {
+          create: [
+            { id: nanoid(), renterId: document.renterId },
+            ...ownerIds.map((userId) => ({ id: nanoid(), userId }))
+          ]
+        }
+      }
+    });
+  }
+
+  if (documents.length > 0) {
+    logger.info('🪪 Document expiry reminders scheduled', { documents: documents.length });
+  }
+
+  return documents.length;
+};
+
+/**
+ * Forget reminders already queued for a document, so a corrected expiry date gets its own reminder
+ */
+export const resetDocumentExpiryNotices = async (prisma: PrismaClient, documentId: string) => {
+  await prisma.event.deleteMany({
+    where: { documentId, eventType: 'DOCUMENT_EXPIRY' }
+  });
+};
@@ -0,0 +1,7 @@
+export {
+  DOCUMENT_EXPIRY_NOTICE_DAYS,
+  ID_DOCUMENT_TYPES,
+  expiringDocumentsWhere,
+  scheduleDocumentExpiryNotices,
+  resetDocumentExpiryNotices
+} from './expiry';
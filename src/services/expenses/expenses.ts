@@ -0,0 +1,78 @@
+import { MaintenanceEvent, PrismaClient } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { logger } from '../../utils/logger';
+import { getStorage, isExternalPath } from '../storage';
+
+/**
+ * Delete an expense's receipt file from storage; links to other hosts are left alone
+ */
+export const removeReceiptFile = async (receipt: string | null) => {
+  if (receipt && !isExternalPath(receipt)) {
+    await getStorage().delete(receipt);
+  }
+};
+
+/**
+ * Book the cost of a completed maintenance event as a MAINTENANCE expense of its property.
+ * Each maintenance event has at most one expense. One booked here follows later changes to the cost,
+ * and is removed again when the event is no longer completed or its cost is cleared. An expense a
+ * manager linked to the event themselves is never touched.
+ */
+export const recordMaintenanceExpense = async (
+  prisma: PrismaClient,
+  maintenanceEvent: MaintenanceEvent,
+  createdById?: string
+) => {
+  const existing = await prisma.expense.findUnique({ where: { maintenanceEventId: maintenanceEvent.id } });
+  if (existing && !existing.autoBooked) {
+    return existing;
+  }
+
+  if (maintenanceEvent.status !== 'COMPLETED' || !maintenanceEvent.cost || maintenanceEvent.cost <= 0) {
+    if (existing) {
+      await prisma.expense.delete({ where: { id: existing.id } });
+      await removeReceiptFile(existing.receipt);
+      logger.info('🧾 Maintenance expense removed', { maintenanceEventId: maintenanceEvent.id, expenseId: existing.id });
+    }
+    return null;
+  }
+
+  const date = maintenanceEvent.completedDate || new Date();
+
+  if (existing) {
+    return prisma.expense.update({
+      where: { id: existing.id },
+      data: { amount: maintenanceEvent.cost, date, updatedAt: new Date() }
+    });
+  }
+
+  const room = await prisma.room.findUnique({ where: { id: maintenanceEvent.roomId } });
+  if (!room) {
+    throw new Error('Room not found');
+  }
+
+  const expense = await prisma.expense.create({
+    data: {
+      id: nanoid(),
+      name: `Maintenance: ${maintenanceEvent.title}`,
+      amount: maintenanceEvent.cost,
+      date,
+      category: 'MAINTENANCE',
+      description: maintenanceEvent.description,
+      propertyId: room.propertyId,
+      roomId: room.id,
+      maintenanceEventId: maintenanceEvent.id,
+      autoBooked: true,
+      createdById,
+      updatedAt: new Date()
+    }
+  });
+
+  logger.info('🧾 Maintenance expense recorded', {
+    maintenanceEventId: maintenanceEvent.id,
+    expenseId: expense.id,
+    amount: expense.amount
+  });
+
+  return expense;
+};
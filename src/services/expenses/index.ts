@@ -0,0 +1 @@
+export { removeReceiptFile, recordMaintenanceExpense } from './expenses';
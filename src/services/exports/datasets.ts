@@ -0,0 +1,237 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  contractFilters,
+  maintenanceEventFilters,
+  paymentFilters,
+  renterFilters,
+  roomFilters
+} from './filters';
+
+export type ExportValue = string | number | boolean | Date | null | undefined;
+
+export interface ExportColumn<T> {
+  key: string;
+  header: string;
+  date?: boolean;
+  value: (row: T) => ExportValue;
+}
+
+// Filter arguments an export accepts, with the type query-string values are converted to
+export type ExportFilterTypes = Record<string, 'string' | 'number' | 'date'>;
+
+export interface ExportUser {
+  id: string;
+  role: string;
+}
+
+export interface ExportQuery {
+  where: unknown;
+  orderBy: unknown;
+  skip: number;
+  take: number;
+}
+
+export interface ExportDataset<T = any> {
+  name: string;
+  filters: ExportFilterTypes;
+  sortFields: string[];
+  defaultSort: string;
+  columns: ExportColumn<T>[];
+  // The list query's where clause, limited to what the user may see
+  where: (filters: Record<string, any>, user: ExportUser) => unknown;
+  count: (prisma: PrismaClient, where: unknown) => Promise<number>;
+  findMany: (prisma: PrismaClient, query: ExportQuery) => Promise<T[]>;
+}
+
+const defineDataset = <T>(dataset: ExportDataset<T>) => dataset;
+
+// Admins export everything; everyone else only what belongs to their properties
+const scoped = <W>(user: ExportUser, where: W, scope: W): W => {
+  return (user.role === 'ADMIN' ? where : { AND: [where, scope] }) as W;
+};
+
+const paymentInclude = {
+  renter: true,
+  contract: { include: { room: { include: { property: true } } } }
+} satisfies Prisma.PaymentInclude;
+
+const payments = defineDataset<Prisma.PaymentGetPayload<{ include: typeof paymentInclude }>>({
+  name: 'payments',
+  filters: { renterId: 'string', contractId: 'string', status: 'string', fromDate: 'date', toDate: 'date' },
+  sortFields: ['dueDate', 'paidDate', 'amount', 'status', 'type', 'createdAt'],
+  defaultSort: 'dueDate',
+  columns: [
+    { key: 'id', header: 'ID', value: (payment) => payment.id },
+    { key: 'renter', header: 'Renter', value: (payment) => payment.renter.name },
+    { key: 'contract', header: 'Contract', value: (payment) => payment.contract?.name },
+    { key: 'property', header: 'Property', value: (payment) => payment.contract?.room.property.name },
+    { key: 'room', header: 'Room', value: (payment) => payment.contract?.room.number },
+    { key: 'type', header: 'Type', value: (payment) => payment.type },
+    { key: 'status', header: 'Status', value: (payment) => payment.status },
+    { key: 'amount', header: 'Amount', value: (payment) => payment.amount },
+    { key: 'dueDate', header: 'Due date', date: true, value: (payment) => payment.dueDate },
+    { key: 'paidDate', header: 'Paid date', date: true, value: (payment) => payment.paidDate },
+    { key: 'billingPeriod', header: 'Billing period', value: (payment) => payment.billingPeriod },
+    { key: 'description', header: 'Description', value: (payment) => payment.description },
+    { key: 'createdAt', header: 'Created at', date: true, value: (payment) => payment.createdAt }
+  ],
+  where: (filters, user) => scoped<Prisma.PaymentWhereInput>(user, paymentFilters(filters), {
+    OR: [
+      { contract: { room: { property: { userId: user.id } } } },
+      { contractId: null, renter: { room: { property: { userId: user.id } } } }
+    ]
+  }),
+  count: (prisma, where) => prisma.payment.count({ where: where as Prisma.PaymentWhereInput }),
+  findMany: (prisma, query) => prisma.payment.findMany({
+    ...(query as Prisma.PaymentFindManyArgs),
+    include: paymentInclude
+  })
+});
+
+const contractInclude = {
+  renters: true,
+  room: { include: { property: true } }
+} satisfies Prisma.ContractInclude;
+
+const contracts = defineDataset<Prisma.ContractGetPayload<{ include: typeof contractInclude }>>({
+  name: 'contracts',
+  filters: {
+    search: 'string',
+    roomId: 'string',
+    renterId: 'string',
+    status: 'string',
+    type: 'string',
+    dateFrom: 'date',
+    dateTo: 'date'
+  },
+  sortFields: ['name', 'amount', 'status', 'startDate', 'endDate', 'createdAt'],
+  defaultSort: 'createdAt',
+  columns: [
+    { key: 'id', header: 'ID', value: (contract) => contract.id },
+    { key: 'name', header: 'Name', value: (contract) => contract.name },
+    { key: 'property', header: 'Property', value: (contract) => contract.room.property.name },
+    { key: 'room', header: 'Room', value: (contract) => contract.room.number },
+    { key: 'renters', header: 'Renters', value: (contract) => contract.renters.map((renter) => renter.name).join('; ') },
+    { key: 'contractType', header: 'Type', value: (contract) => contract.contractType },
+    { key: 'status', header: 'Status', value: (contract) => contract.status },
+    { key: 'amount', header: 'Amount', value: (contract) => contract.amount },
+    { key: 'securityDeposit', header: 'Security deposit', value: (contract) => contract.securityDeposit },
+    { key: 'startDate', header: 'Start date', date: true, value: (contract) => contract.startDate },
+    { key: 'endDate', header: 'End date', date: true, value: (contract) => contract.endDate },
+    { key: 'terminationDate', header: 'Termination date', date: true, value: (contract) => contract.terminationDate },
+    { key: 'terminationReason', header: 'Termination reason', value: (contract) => contract.terminationReason },
+    { key: 'createdAt', header: 'Created at', date: true, value: (contract) => contract.createdAt }
+  ],
+  where: (filters, user) => scoped<Prisma.ContractWhereInput>(user, contractFilters(filters), {
+    room: { property: { userId: user.id } }
+  }),
+  count: (prisma, where) => prisma.contract.count({ where: where as Prisma.ContractWhereInput }),
+  findMany: (prisma, query) => prisma.contract.findMany({
+    ...(query as Prisma.ContractFindManyArgs),
+    include: contractInclude
+  })
+});
+
+const renterInclude = {
+  room: { include: { property: true } }
+} satisfies Prisma.RenterInclude;
+
+const renters = defineDataset<Prisma.RenterGetPayload<{ include: typeof renterInclude }>>({
+  name: 'renters',
+  filters: { searchText: 'string' },
+  sortFields: ['name', 'email', 'createdAt'],
+  defaultSort: 'createdAt',
+  columns: [
+    { key: 'id', header: 'ID', value: (renter) => renter.id },
+    { key: 'name', header: 'Name', value: (renter) => renter.name },
+    { key: 'email', header: 'Email', value: (renter) => renter.email },
+    { key: 'phone', header: 'Phone', value: (renter) => renter.phone },
+    { key: 'identityNumber', header: 'Identity number', value: (renter) => renter.identityNumber },
+    { key: 'emergencyContact', header: 'Emergency contact', value: (renter) => renter.emergencyContact },
+    { key: 'property', header: 'Property', value: (renter) => renter.room?.property.name },
+    { key: 'room', header: 'Room', value: (renter) => renter.room?.number },
+    { key: 'createdAt', header: 'Created at', date: true, value: (renter) => renter.createdAt }
+  ],
+  where: (filters, user) => scoped<Prisma.RenterWhereInput>(user, renterFilters(filters), {
+    room: { property: { userId: user.id } }
+  }),
+  count: (prisma, where) => prisma.renter.count({ where: where as Prisma.RenterWhereInput }),
+  findMany: (prisma, query) => prisma.renter.findMany({
+    ...(query as Prisma.RenterFindManyArgs),
+    include: renterInclude
+  })
+});
+
+const roomInclude = {
+  property: true
+} satisfies Prisma.RoomInclude;
+
+const rooms = defineDataset<Prisma.RoomGetPayload<{ include: typeof roomInclude }>>({
+  name: 'rooms',
+  filters: { search: 'string', type: 'string', status: 'string', minPrice: 'number', maxPrice: 'number' },
+  sortFields: ['name', 'number', 'floor', 'size', 'status', 'price', 'type', 'createdAt'],
+  defaultSort: 'createdAt',
+  columns: [
+    { key: 'id', header: 'ID', value: (room) => room.id },
+    { key: 'property', header: 'Property', value: (room) => room.property.name },
+    { key: 'number', header: 'Number', value: (room) => room.number },
+    { key: 'name', header: 'Name', value: (room) => room.name },
+    { key: 'type', header: 'Type', value: (room) => room.type },
+    { key: 'floor', header: 'Floor', value: (room) => room.floor },
+    { key: 'size', header: 'Size', value: (room) => room.size },
+    { key: 'status', header: 'Status', value: (room) => room.status },
+    { key: 'price', header: 'Price', value: (room) => room.price },
+    { key: 'createdAt', header: 'Created at', date: true, value: (room) => room.createdAt }
+  ],
+  where: (filters, user) => scoped<Prisma.RoomWhereInput>(user, roomFilters(filters), {
+    property: { userId: user.id }
+  }),
+  count: (prisma, where) => prisma.room.count({ where: where as Prisma.RoomWhereInput }),
+  findMany: (prisma, query) => prisma.room.findMany({
+    ...(query as Prisma.RoomFindManyArgs),
+    include: roomInclude
+  })
+});
+
+const maintenanceEventInclude = {
+  room: { include: { property: true } }
+} satisfies Prisma.MaintenanceEventInclude;
+
+const maintenanceEvents = defineDataset<Prisma.MaintenanceEventGetPayload<{ include: typeof maintenanceEventInclude }>>({
+  name: 'maintenanceEvents',
+  filters: { roomId: 'string', status: 'string', priority: 'string', fromDate: 'date', toDate: 'date' },
+  sortFields: ['scheduledDate', 'completedDate', 'status', 'priority', 'cost', 'createdAt'],
+  defaultSort: 'scheduledDate',
+  columns: [
+    { key: 'id', header: 'ID', value: (event) => event.id },
+    { key: 'title', header: 'Title', value: (event) => event.title },
+    { key: 'property', header: 'Property', value: (event) => event.room.property.name },
+    { key: 'room', header: 'Room', value: (event) => event.room.number },
+    { key: 'status', header: 'Status', value: (event) => event.status },
+    { key: 'priority', header: 'Priority', value: (event) => event.priority },
+    { key: 'scheduledDate', header: 'Scheduled date', date: true, value: (event) => event.scheduledDate },
+    { key: 'completedDate', header: 'Completed date', date: true, value: (event) => event.completedDate },
+    { key: 'cost', header: 'Cost', value: (event) => event.cost },
+    { key: 'chargeToRenter', header: 'Charged to renter', value: (event) => event.chargeToRenter },
+    { key: 'description', header: 'Description', value: (event) => event.description },
+    { key: 'notes', header: 'Notes', value: (event) => event.notes },
+    { key: 'createdAt', header: 'Created at', date: true, value: (event) => event.createdAt }
+  ],
+  where: (filters, user) => scoped<Prisma.MaintenanceEventWhereInput>(user, maintenanceEventFilters(filters), {
+    room: { property: { userId: user.id } }
+  }),
+  count: (prisma, where) => prisma.maintenanceEvent.count({ where: where as Prisma.MaintenanceEventWhereInput }),
+  findMany: (prisma, query) => prisma.maintenanceEvent.findMany({
+    ...(query as Prisma.MaintenanceEventFindManyArgs),
+    include: maintenanceEventInclude
+  })
+});
+
+// Exportable list queries, by name
+export const EXPORT_DATASETS: Record<string, ExportDataset> = {
+  payments,
+  contracts,
+  renters,
+  rooms,
+  maintenanceEvents
+};
@@ -0,0 +1,280 @@
+import { PrismaClient } from '@prisma/client';
+import { once } from 'events';
+import { Writable } from 'stream';
+import ExcelJS from 'exceljs';
+import { escapeCsvValue } from '../../utils/csv';
+import { EXPORT_DATASETS, ExportColumn, ExportDataset, ExportUser, ExportValue } from './datasets';
+
+export type ExportFormat = 'CSV' | 'XLSX';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['CSV', 'XLSX'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  CSV: 'text/csv; charset=utf-8',
+  XLSX: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+// Exports with more rows than this are run as background jobs instead of being streamed
+export const EXPORT_STREAM_LIMIT = Number(process.env.EXPORT_STREAM_LIMIT) || 5000;
+
+const BATCH_SIZE = 500;
+
+// Spreadsheet apps run CSV text starting with one of these as a formula
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+export interface ExportRequest {
+  dataset: string;
+  format: ExportFormat;
+  // The list query's filter arguments, plus sortBy and sortOrder
+  filters?: Record<string, unknown>;
+  // Column keys in output order; all columns when empty
+  columns?: string[];
+  // Pattern built from YYYY, MM, DD, HH, mm and ss; ISO 8601 when empty
+  dateFormat?: string | null;
+}
+
+export interface PreparedExport {
+  dataset: ExportDataset;
+  format: ExportFormat;
+  columns: ExportColumn<any>[];
+  dateFormat: string | null;
+  where: unknown;
+  orderBy: unknown;
+  rowCount: number;
+}
+
+/**
+ * Look up an exportable list query by name
+ */
+export const getExportDataset = (name: string): ExportDataset => {
+  const dataset = EXPORT_DATASETS[name];
+  if (!dataset) {
+    throw new Error(`Unknown export: ${name}. Available exports: ${Object.keys(EXPORT_DATASETS).join(', ')}`);
+  }
+  return dataset;
+};
+
+/**
+ * Pick the requested columns in the requested order, or every column
+ */
+export const resolveExportColumns = (dataset: ExportDataset, keys: string[] = []) => {
+  if (keys.length === 0) {
+    return dataset.columns;
+  }
+
+  return keys.map((key) => {
+    const column = dataset.columns.find((candidate) => candidate.key === key);
+    if (!column) {
+      throw new Error(`Unknown column for ${dataset.name}: ${key}`);
+    }
+    return column;
+  });
+};
+
+/**
+ * Keep the filter arguments the dataset knows, converting strings from a query string to numbers and dates
+ */
+export const parseExportFilters = (dataset: ExportDataset, raw: Record<string, unknown> = {}) => {
+  const filters: Record<string, unknown> = {};
+
+  for (const [name, type] of Object.entries(dataset.filters)) {
+    const value = raw[name];
+    if (value === undefined || value === null || value === '') continue;
+
+    if (type === 'number') {
+      const number = Number(value);
+      if (isNaN(number)) {
+        throw new Error(`${name} must be a number`);
+      }
+      filters[name] = number;
+    } else if (type === 'date') {
+      const date = new Date(value as string);
+      if (isNaN(date.getTime())) {
+        throw new Error(`${name} must be a valid date`);
+      }
+      filters[name] = date;
+    } else {
+      filters[name] = String(value);
+    }
+  }
+
+  return filters;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Format a date with a YYYY-MM-DD HH:mm:ss style pattern, or as ISO 8601 without one
+ */
+export const formatExportDate = (date: Date, pattern?: string | null) => {
+  if (!pattern) {
+    return date.toISOString();
+  }
+
+  const parts: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    MM: pad(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds())
+  };
+
+  return pattern.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => parts[token]);
+};
+
+// The same pattern as an Excel number format, so XLSX dates stay real dates
+const excelDateFormat = (pattern?: string | null) => {
+  return (pattern || 'YYYY-MM-DD HH:mm:ss')
+    .replace(/YYYY/g, 'yyyy')
+    .replace(/DD/g, 'dd')
+    .replace(/HH/g, 'hh')
+    .replace(/MM/g, 'mm');
+};
+
+// Text such as a renter's name or note could otherwise run as a formula when a CSV file is opened, so it is
+// quoted to show as typed. Numbers, including negative ones, are left alone. XLSX cells are typed as text
+// already, so they don't need this.
+const neutralizeFormula = (value: ExportValue) => {
+  return typeof value === 'string' && FORMULA_PREFIXES.includes(value.charAt(0)) ? `'${value}` : value;
+};
+
+const csvCell = (value: ExportValue, column: ExportColumn<any>, dateFormat: string | null) => {
+  if (value === null || value === undefined) return '';
+
+  const text = value instanceof Date
+    ? formatExportDate(value, column.date ? dateFormat : null)
+    : String(neutralizeFormula(value));
+
+  return escapeCsvValue(text);
+};
+
+/**
+ * Check an export request and work out what it will contain, without reading any rows yet
+ */
+export const prepareExport = async (
+  prisma: PrismaClient,
+  user: ExportUser,
+  request: ExportRequest
+): Promise<PreparedExport> => {
+  const dataset = getExportDataset(request.dataset);
+
+  if (!EXPORT_FORMATS.includes(request.format)) {
+    throw new Error(`Invalid export format: ${request.format}`);
+  }
+
+  const rawFilters = request.filters || {};
+  const sortBy = String(rawFilters.sortBy || dataset.defaultSort);
+  const sortOrder = rawFilters.sortOrder === 'asc' ? 'asc' : 'desc';
+
+  if (!dataset.sortFields.includes(sortBy)) {
+    throw new Error(`Cannot sort ${dataset.name} by ${sortBy}`);
+  }
+
+  const where = dataset.where(parseExportFilters(dataset, rawFilters), user);
+
+  return {
+    dataset,
+    format: request.format,
+    columns: resolveExportColumns(dataset, request.columns),
+    dateFormat: request.dateFormat || null,
+    where,
+    // Sorting by id as well keeps batches stable when the sort field has ties
+    orderBy: [{ [sortBy]: sortOrder }, { id: 'asc' }],
+    rowCount: await dataset.count(prisma, where)
+  };
+};
+
+// Read the export's rows in batches so large exports never sit in memory at once
+async function* exportRows(prisma: PrismaClient, prepared: PreparedExport) {
+  for (let skip = 0; ; skip += BATCH_SIZE) {
+    const rows = await prepared.dataset.findMany(prisma, {
+      where: prepared.where,
+      orderBy: prepared.orderBy,
+      skip,
+      take: BATCH_SIZE
+    });
+
+    yield* rows;
+
+    if (rows.length < BATCH_SIZE) return;
+  }
+}
+
+/**
+ * Wait for a full output buffer to empty. A response whose client has gone away closes without
+ * draining, so that ends the export instead of leaving it waiting forever.
+ */
+const drained = async (output: Writable) => {
+  const waiting = new AbortController();
+  try {
+    await Promise.race([
+      once(output, 'drain', { signal: waiting.signal }),
+      once(output, 'close', { signal: waiting.signal }).then(() => {
+        throw new Error('Export output was closed before the export finished');
+      })
+    ]);
+  } finally {
+    waiting.abort();
+  }
+};
+
+const writeCsv = async (prisma: PrismaClient, prepared: PreparedExport, output: Writable) => {
+  const write = async (line: string) => {
+    if (output.destroyed) {
+      throw new Error('Export output was closed before the export finished');
+    }
+    if (!output.write(`${line}\r\n`)) {
+      await drained(output);
+    }
+  };
+
+  let count = 0;
+  await write(prepared.columns.map((column) => csvCell(column.header, column, null)).join(','));
+
+  for await (const row of exportRows(prisma, prepared)) {
+    await write(prepared.columns.map((column) => csvCell(column.value(row), column, prepared.dateFormat)).join(','));
+    count++;
+  }
+
+  output.end();
+  return count;
+};
+
+const writeXlsx = async (prisma: PrismaClient, prepared: PreparedExport, output: Writable) => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true });
+  const worksheet = workbook.addWorksheet(prepared.dataset.name);
+
+  worksheet.columns = prepared.columns.map((column) => ({
+    header: column.header,
+    key: column.key,
+    width: column.date ? 20 : Math.max(column.header.length + 2, 12),
+    ...(column.date && { style: { numFmt: excelDateFormat(prepared.dateFormat) } })
+  }));
+
+  let count = 0;
+  for await (const row of exportRows(prisma, prepared)) {
+    worksheet.addRow(prepared.columns.map((column) => column.value(row) ?? null)).commit();
+    count++;
+  }
+
+  worksheet.commit();
+  await workbook.commit();
+  return count;
+};
+
+/**
+ * Write a prepared export to `output` as CSV or XLSX and end the stream. Returns the number of rows written.
+ */
+export const writeExport = (prisma: PrismaClient, prepared: PreparedExport, output: Writable): Promise<number> => {
+  return prepared.format === 'XLSX'
+    ? writeXlsx(prisma, prepared, output)
+    : writeCsv(prisma, prepared, output);
+};
+
+/**
+ * File name for an export download, e.g. payments-2025-05-01.csv
+ */
+export const exportFileName = (dataset: string, format: ExportFormat, date: Date = new Date()) => {
+  return `${dataset}-${formatExportDate(date, 'YYYY-MM-DD')}.${format.toLowerCase()}`;
+};
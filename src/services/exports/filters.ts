@@ -0,0 +1,144 @@
+import {
+  ContractStatus,
+  ContractType,
+  MaintenancePriority,
+  MaintenanceStatus,
+  PaymentStatus,
+  Prisma,
+  RoomStatus
+} from '@prisma/client';
+
+// Where clauses for the list queries, shared by the paginated GraphQL queries and exports so both filter the same way
+
+export interface PaymentFilterArgs {
+  renterId?: string;
+  contractId?: string;
+  status?: string;
+  fromDate?: string | Date;
+  toDate?: string | Date;
+}
+
+export interface ContractFilterArgs {
+  search?: string;
+  roomId?: string;
+  renterId?: string;
+  status?: string;
+  type?: string;
+  dateFrom?: string | Date;
+  dateTo?: string | Date;
+}
+
+export interface RenterFilterArgs {
+  searchText?: string;
+}
+
+export interface RoomFilterArgs {
+  search?: string;
+  type?: string;
+  status?: string;
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+export interface MaintenanceEventFilterArgs {
+  roomId?: string;
+  status?: string;
+  priority?: string;
+  fromDate?: string | Date;
+  toDate?: string | Date;
+}
+
+const dateRange = (from?: string | Date, to?: string | Date) => ({
+  ...(from && { gte: new Date(from) }),
+  ...(to && { lte: new Date(to) })
+});
+
+export const paymentFilters = ({ renterId, contractId, status, fromDate, toDate }: PaymentFilterArgs): Prisma.PaymentWhereInput => ({
+  ...(renterId && { renterId }),
+  ...(contractId && { contractId }),
+  ...(status && { status: status as PaymentStatus }),
+  ...(fromDate || toDate) && { dueDate: dateRange(fromDate, toDate) }
+});
+
+/**
+ * Search matches the contract name, a renter's name or the room number. The date range matches
+ * contracts starting or ending inside it.
+ */
+export const contractFilters = ({
+  search,
+  roomId,
+  renterId,
+  status,
+  type,
+  dateFrom,
+  dateTo
+}: ContractFilterArgs): Prisma.ContractWhereInput => {
+  const conditions: Prisma.ContractWhereInput[] = [];
+
+  if (search) {
+    conditions.push({
+      OR: [
+        { name: { contains: search, mode: 'insensitive' } },
+        { renters: { some: { name: { contains: search, mode: 'insensitive' } } } },
+        { room: { number: { contains: search, mode: 'insensitive' } } }
+      ]
+    });
+  }
+
+  if (dateFrom || dateTo) {
+    conditions.push({
+      OR: [
+        { startDate: dateRange(dateFrom, dateTo) },
+        { endDate: dateRange(dateFrom, dateTo) }
+      ]
+    });
+  }
+
+  return {
+    ...(roomId && { roomId }),
+    ...(renterId && { renters: { some: { id: renterId } } }),
+    ...(status && { status: status as ContractStatus }),
+    ...(type && { contractType: type as ContractType }),
+    ...(conditions.length > 0 && { AND: conditions })
+  };
+};
+
+export const renterFilters = ({ searchText }: RenterFilterArgs): Prisma.RenterWhereInput => ({
+  ...(searchText && {
+    OR: [
+      { name: { contains: searchText, mode: 'insensitive' } },
+      { email: { contains: searchText, mode: 'insensitive' } },
+      { phone: { contains: searchText, mode: 'insensitive' } }
+    ]
+  })
+});
+
+export const roomFilters = ({ search, type, status, minPrice, maxPrice }: RoomFilterArgs): Prisma.RoomWhereInput => ({
+  ...(search && {
+    OR: [
+      { number: { contains: search, mode: 'insensitive' } },
+      { name: { contains: search, mode: 'insensitive' } }
+    ]
+  }),
+  ...(type && { type }),
+  ...(status && { status: status as RoomStatus }),
+  ...(minPrice !== undefined || maxPrice !== undefined) && {
+    price: {
+      ...(minPrice !== undefined && { gte: minPrice }),
+      ...(maxPrice !== undefined && { lte: maxPrice })
+    }
+  }
+});
+
+export const maintenanceEventFilters = ({
+  roomId,
+  status,
+  priority,
+  fromDate,
+  toDate
+}: MaintenanceEventFilterArgs): Prisma.MaintenanceEventWhereInput => ({
+  ...(roomId && { roomId }),
+  ...(status && { status: status as MaintenanceStatus }),
+  ...(priority && { priority: priority as MaintenancePriority }),
+  ...(fromDate || toDate) && { scheduledDate: dateRange(fromDate, toDate) }
+});
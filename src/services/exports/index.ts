@@ -0,0 +1,36 @@
+export {
+  paymentFilters,
+  contractFilters,
+  renterFilters,
+  roomFilters,
+  maintenanceEventFilters
+} from './filters';
+export type {
+  PaymentFilterArgs,
+  ContractFilterArgs,
+  RenterFilterArgs,
+  RoomFilterArgs,
+  MaintenanceEventFilterArgs
+} from './filters';
+export { EXPORT_DATASETS } from './datasets';
+export type { ExportColumn, ExportDataset, ExportUser, ExportValue } from './datasets';
+export {
+  EXPORT_FORMATS,
+  EXPORT_CONTENT_TYPES,
+  EXPORT_STREAM_LIMIT,
+  getExportDataset,
+  resolveExportColumns,
+  parseExportFilters,
+  formatExportDate,
+  prepareExport,
+  writeExport,
+  exportFileName
+} from './exporter';
+export type { ExportFormat, ExportRequest, PreparedExport } from './exporter';
+export {
+  EXPORT_RETENTION_HOURS,
+  runExportJob,
+  createExportJob,
+  removeExportJob,
+  processExportJobs
+} from './jobs';
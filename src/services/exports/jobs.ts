@@ -0,0 +1,178 @@
+import { ExportJob, Prisma, PrismaClient } from '@prisma/client';
+import { once } from 'events';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { nanoid } from 'nanoid';
+import { loadUser } from '../../graphql/context';
+import { logger } from '../../utils/logger';
+import { getStorage } from '../storage';
+import { ExportUser } from './datasets';
+import { EXPORT_CONTENT_TYPES, ExportRequest, PreparedExport, prepareExport, writeExport } from './exporter';
+
+// How long finished export files stay downloadable
+export const EXPORT_RETENTION_HOURS = Number(process.env.EXPORT_RETENTION_HOURS) || 24;
+
+// Running jobs that haven't finished after this long are assumed lost with their worker and are retried
+const STALE_JOB_MS = 60 * 60 * 1000;
+
+// Write the export to a temporary file, so even the largest exports never sit in memory
+const renderExport = async (prisma: PrismaClient, prepared: PreparedExport, filePath: string) => {
+  const output = createWriteStream(filePath);
+  const closed = once(output, 'close');
+  // A write error also fails writeExport, which is reported instead
+  closed.catch(() => undefined);
+
+  try {
+    const rowCount = await writeExport(prisma, prepared, output);
+    await closed;
+    return rowCount;
+  } catch (error) {
+    output.destroy();
+    throw error;
+  }
+};
+
+/**
+ * Run a pending export job: write the file to storage and record where it is.
+ * Jobs are claimed first, so a job picked up by two workers only runs once. Failures are stored on the job.
+ */
+export const runExportJob = async (prisma: PrismaClient, id: string): Promise<ExportJob | null> => {
+  const claimed = await prisma.exportJob.updateMany({
+    where: { id, status: 'PENDING' },
+    data: { status: 'RUNNING', startedAt: new Date(), updatedAt: new Date() }
+  });
+
+  if (claimed.count === 0) {
+    return null;
+  }
+
+  const job = await prisma.exportJob.findUniqueOrThrow({ where: { id } });
+  const tempFile = join(tmpdir(), `export-${job.id}.${job.format.toLowerCase()}`);
+
+  try {
+    const user = await loadUser(prisma, job.userId);
+    if (!user) {
+      throw new Error('The user who requested this export no longer exists');
+    }
+
+    const prepared = await prepareExport(prisma, user, {
+      dataset: job.dataset,
+      format: job.format,
+      filters: (job.filters as Record<string, unknown>) || {},
+      columns: job.columns,
+      dateFormat: job.dateFormat
+    });
+
+    const rowCount = await renderExport(prisma, prepared, tempFile);
+    const { size } = await fs.stat(tempFile);
+    const path = `exports/${job.id}.${job.format.toLowerCase()}`;
+    await getStorage().putStream(path, createReadStream(tempFile), size, EXPORT_CONTENT_TYPES[job.format]);
+
+    const completedAt = new Date();
+    const completed = await prisma.exportJob.update({
+      where: { id },
+      data: {
+        status: 'COMPLETED',
+        rowCount,
+        path,
+        size,
+        completedAt,
+        expiresAt: new Date(completedAt.getTime() + EXPORT_RETENTION_HOURS * 60 * 60 * 1000),
+        updatedAt: new Date()
+      }
+    });
+
+    logger.info('📤 Export completed', { exportJobId: id, dataset: job.dataset, rowCount, size });
+    return completed;
+  } catch (error: any) {
+    logger.error('❌ Export failed', { exportJobId: id, message: error?.message || 'Unknown error' });
+
+    return prisma.exportJob.update({
+      where: { id },
+      data: {
+        status: 'FAILED',
+        error: error?.message || 'Unknown error',
+        completedAt: new Date(),
+        expiresAt: new Date(Date.now() + EXPORT_RETENTION_HOURS * 60 * 60 * 1000),
+        updatedAt: new Date()
+      }
+    });
+  } finally {
+    await fs.rm(tempFile, { force: true });
+  }
+};
+
+/**
+ * Queue an export to run in the background. The request is checked up front so mistakes
+ * in filters or columns are reported straight away rather than as a failed job.
+ */
+export const createExportJob = async (prisma: PrismaClient, user: ExportUser, request: ExportRequest) => {
+  const prepared = await prepareExport(prisma, user, request);
+
+  const job = await prisma.exportJob.create({
+    data: {
+      id: nanoid(),
+      userId: user.id,
+      dataset: prepared.dataset.name,
+      format: prepared.format,
+      filters: (request.filters || {}) as Prisma.InputJsonValue,
+      columns: prepared.columns.map((column) => column.key),
+      dateFormat: prepared.dateFormat,
+      rowCount: prepared.rowCount,
+      updatedAt: new Date()
+    }
+  });
+
+  logger.info('📤 Export queued', { exportJobId: job.id, dataset: job.dataset, rowCount: prepared.rowCount });
+
+  // Start right away; the scheduler picks the job up instead if this instance goes down first
+  setImmediate(() => {
+    runExportJob(prisma, job.id).catch((error) => {
+      logger.error('❌ Export failed', { exportJobId: job.id, message: error?.message || 'Unknown error' });
+    });
+  });
+
+  return job;
+};
+
+/**
+ * Delete an export job and its file
+ */
+export const removeExportJob = async (prisma: PrismaClient, job: ExportJob) => {
+  await prisma.exportJob.delete({ where: { id: job.id } });
+  if (job.path) {
+    await getStorage().delete(job.path);
+  }
+};
+
+/**
+ * Run queued exports one at a time, retry exports whose worker was lost, and delete expired export files
+ */
+export const processExportJobs = async (prisma: PrismaClient, now: Date = new Date()) => {
+  await prisma.exportJob.updateMany({
+    where: { status: 'RUNNING', startedAt: { lt: new Date(now.getTime() - STALE_JOB_MS) } },
+    data: { status: 'PENDING', updatedAt: new Date() }
+  });
+
+  const pending = await prisma.exportJob.findMany({
+    where: { status: 'PENDING' },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  let completed = 0;
+  for (const job of pending) {
+    const result = await runExportJob(prisma, job.id);
+    if (result?.status === 'COMPLETED') completed++;
+  }
+
+  const expired = await prisma.exportJob.findMany({
+    where: { expiresAt: { lt: now } }
+  });
+
+  for (const job of expired) {
+    await removeExportJob(prisma, job);
+  }
+
+  return { pending: pending.length, completed, removed: expired.length };
+};
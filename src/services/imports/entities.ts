@@ -0,0 +1,416 @@
+import { ContractStatus, ContractType, Prisma, RoomStatus } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { assertRoomAvailable, initialContractStatus, reconcileRoomStatus } from '../contracts';
+
+type Tx = Prisma.TransactionClient;
+
+export type ImportEntity = 'properties' | 'rooms' | 'renters' | 'contracts';
+
+export interface ImportUser {
+  id: string;
+  role: string;
+}
+
+export interface ImportColumn {
+  name: string;
+  required: boolean;
+}
+
+export interface ImportChange {
+  field: string;
+  from: string | null;
+  to: string | null;
+}
+
+// What importing one row would do, and how to do it
+export interface PlannedRow {
+  key: string;
+  action: 'CREATE' | 'UPDATE' | 'UNCHANGED';
+  changes: ImportChange[];
+  apply: () => Promise<void>;
+}
+
+export interface ImportEntityDefinition {
+  columns: ImportColumn[];
+  plan: (tx: Tx, user: ImportUser, record: Record<string, string>) => Promise<PlannedRow>;
+}
+
+const ROOM_STATUSES = Object.values(RoomStatus) as string[];
+const CONTRACT_TYPES = Object.values(ContractType) as string[];
+
+// Read a cell, treating empty cells as missing
+const optional = (record: Record<string, string>, column: string) => record[column] || undefined;
+
+const required = (record: Record<string, string>, column: string, message: string) => {
+  const value = optional(record, column);
+  if (!value) {
+    throw new Error(message);
+  }
+  return value;
+};
+
+const toNumber = (value: string | undefined, column: string) => {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (isNaN(number)) {
+    throw new Error(`${column} must be a number`);
+  }
+  return number;
+};
+
+const toInteger = (value: string | undefined, column: string) => {
+  const number = toNumber(value, column);
+  if (number !== undefined && !Number.isInteger(number)) {
+    throw new Error(`${column} must be a whole number`);
+  }
+  return number;
+};
+
+const toDate = (value: string | undefined, column: string) => {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`${column} must be a valid date`);
+  }
+  return date;
+};
+
+const display = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+};
+
+/**
+ * Compare the imported values with an existing record (or nothing, for a new one) and
+ * list the fields that would change. Values left out of the row are not compared.
+ */
+const diff = (existing: Record<string, unknown> | null, data: Record<string, unknown>): ImportChange[] => {
+  return Object.entries(data)
+    .filter(([, value]) => value !== undefined)
+    .map(([field, value]) => ({ field, from: display(existing?.[field]), to: display(value) }))
+    .filter((change) => change.from !== change.to);
+};
+
+const planned = (
+  key: string,
+  existing: Record<string, unknown> | null,
+  data: Record<string, unknown>,
+  apply: () => Promise<unknown>
+): PlannedRow => {
+  const changes = diff(existing, data);
+  const action = !existing ? 'CREATE' : changes.length > 0 ? 'UPDATE' : 'UNCHANGED';
+
+  return {
+    key,
+    action,
+    changes,
+    apply: async () => {
+      if (action !== 'UNCHANGED') await apply();
+    }
+  };
+};
+
+/**
+ * Find a property the user manages by name. Admins can reach every property.
+ */
+const findManagedProperty = async (tx: Tx, user: ImportUser, name: string) => {
+  const properties = await tx.property.findMany({
+    where: { name, ...(user.role !== 'ADMIN' && { userId: user.id }) }
+  });
+
+  if (properties.length > 1) {
+    throw new Error(`Several properties are named "${name}"`);
+  }
+
+  return properties[0] || null;
+};
+
+const findManagedRoom = async (tx: Tx, user: ImportUser, propertyName: string, number: string) => {
+  const property = await findManagedProperty(tx, user, propertyName);
+  if (!property) {
+    throw new Error(`Property not found: ${propertyName}`);
+  }
+
+  const room = await tx.room.findFirst({ where: { propertyId: property.id, number } });
+  return { property, room };
+};
+
+// Properties are matched by name within the user's properties
+const properties: ImportEntityDefinition = {
+  columns: [
+    { name: 'name', required: true },
+    { name: 'address', required: true }
+  ],
+  plan: async (tx, user, record) => {
+    const name = required(record, 'name', 'Name is required');
+    const data = { name, address: required(record, 'address', 'Address is required') };
+
+    const existing = await findManagedProperty(tx, user, name);
+
+    return planned(name, existing, data, () => existing
+      ? tx.property.update({ where: { id: existing.id }, data: { ...data, updatedAt: new Date() } })
+      : tx.property.create({ data: { id: nanoid(), ...data, userId: user.id, updatedAt: new Date() } })
+    );
+  }
+};
+
+// Rooms are matched by property name and room number
+const rooms: ImportEntityDefinition = {
+  columns: [
+    { name: 'property', required: true },
+    { name: 'number', required: true },
+    { name: 'name', required: false },
+    { name: 'type', required: false },
+    { name: 'floor', required: true },
+    { name: 'size', required: true },
+    { name: 'price', required: true },
+    { name: 'status', required: false },
+    { name: 'description', required: false }
+  ],
+  plan: async (tx, user, record) => {
+    const propertyName = required(record, 'property', 'Property is required');
+    const number = required(record, 'number', 'Room number is required');
+    const status = optional(record, 'status')?.toUpperCase();
+
+    if (status && !ROOM_STATUSES.includes(status)) {
+      throw new Error(`Invalid room status: ${status}`);
+    }
+
+    const price = toNumber(required(record, 'price', 'Price is required'), 'price')!;
+    if (price < 0) {
+      throw new Error('Price cannot be negative');
+    }
+
+    const { property, room } = await findManagedRoom(tx, user, propertyName, number);
+
+    const data = {
+      number,
+      name: optional(record, 'name') || (room ? undefined : number),
+      type: optional(record, 'type'),
+      floor: toInteger(room ? optional(record, 'floor') : required(record, 'floor', 'Floor is required'), 'floor'),
+      size: toInteger(room ? optional(record, 'size') : required(record, 'size', 'Size is required'), 'size'),
+      price,
+      status: status as RoomStatus | undefined,
+      description: optional(record, 'description')
+    };
+
+    return planned(`${propertyName} / ${number}`, room, data, () => room
+      ? tx.room.update({ where: { id: room.id }, data: { ...data, updatedAt: new Date() } })
+      : tx.room.create({
+        data: {
+          id: nanoid(),
+          ...data,
+          name: data.name!,
+          floor: data.floor!,
+          size: data.size!,
+          propertyId: property.id,
+          updatedAt: new Date()
+        }
+      })
+    );
+  }
+};
+
+// Renters are matched by phone number; property and room optionally assign them to a room
+const renters: ImportEntityDefinition = {
+  columns: [
+    { name: 'name', required: true },
+    { name: 'phone', required: true },
+    { name: 'email', required: false },
+    { name: 'identityNumber', required: false },
+    { name: 'emergencyContact', required: false },
+    { name: 'property', required: false },
+    { name: 'room', required: false }
+  ],
+  plan: async (tx, user, record) => {
+    const name = required(record, 'name', 'Name is required');
+    const phone = required(record, 'phone', 'Phone number is required');
+    const propertyName = optional(record, 'property');
+    const roomNumber = optional(record, 'room');
+
+    if (!!propertyName !== !!roomNumber) {
+      throw new Error('Property and room must be given together');
+    }
+
+    const matches = await tx.renter.findMany({
+      where: { phone },
+      include: { room: { include: { property: true } } }
+    });
+
+    if (matches.length > 1) {
+      throw new Error(`Several renters have the phone number ${phone}`);
+    }
+
+    const existing = matches[0] || null;
+    if (existing?.room && user.role !== 'ADMIN' && existing.room.property.userId !== user.id) {
+      throw new Error(`The renter with phone number ${phone} belongs to a property you do not manage`);
+    }
+
+    let roomId: string | undefined;
+    if (propertyName && roomNumber) {
+      const { room } = await findManagedRoom(tx, user, propertyName, roomNumber);
+      if (!room) {
+        throw new Error(`Room not found: ${propertyName} / ${roomNumber}`);
+      }
+
+      // Same rule as createRenter
+      if (room.id !== existing?.roomId && room.status === 'OCCUPIED') {
+        const occupants = await tx.renter.count({ where: { roomId: room.id } });
+        if (occupants > 0) {
+          throw new Error('This room is already occupied by another renter');
+        }
+      }
+
+      roomId = room.id;
+    }
+
+    const data = {
+      name,
+      phone,
+      email: optional(record, 'email'),
+      identityNumber: optional(record, 'identityNumber'),
+      emergencyContact: optional(record, 'emergencyContact'),
+      roomId
+    };
+
+    return planned(phone, existing, data, async () => {
+      if (existing) {
+        await tx.renter.update({ where: { id: existing.id }, data: { ...data, updatedAt: new Date() } });
+      } else {
+        await tx.renter.create({ data: { id: nanoid(), ...data, updatedAt: new Date() } });
+      }
+
+      if (roomId) {
+        await tx.room.update({ where: { id: roomId }, data: { status: 'OCCUPIED', updatedAt: new Date() } });
+      }
+    });
+  }
+};
+
+/**
+ * Contracts already in force, matched by room and start date. Renters are given by phone number,
+ * separated by semicolons, and must exist. New contracts that have ended are imported as EXPIRED.
+ * Deposits are not billed, since existing contracts were collected for before the import.
+ */
+const contracts: ImportEntityDefinition = {
+  columns: [
+    { name: 'property', required: true },
+    { name: 'room', required: true },
+    { name: 'renterPhones', required: true },
+    { name: 'name', required: true },
+    { name: 'startDate', required: true },
+    { name: 'endDate', required: true },
+    { name: 'amount', required: true },
+    { name: 'securityDeposit', required: false },
+    { name: 'contractType', required: false }
+  ],
+  plan: async (tx, user, record) => {
+    const propertyName = required(record, 'property', 'Property is required');
+    const roomNumber = required(record, 'room', 'Room is required');
+    const name = required(record, 'name', 'Name is required');
+    const startDate = toDate(required(record, 'startDate', 'Start date is required'), 'startDate')!;
+    const endDate = toDate(required(record, 'endDate', 'End date is required'), 'endDate')!;
+    const amount = toNumber(required(record, 'amount', 'Amount is required'), 'amount')!;
+    const securityDeposit = toNumber(optional(record, 'securityDeposit'), 'securityDeposit');
+    const contractType = optional(record, 'contractType')?.toUpperCase();
+    const phones = required(record, 'renterPhones', 'Renter is required')
+      .split(';')
+      .map((phone) => phone.trim())
+      .filter(Boolean);
+
+    if (phones.length === 0) {
+      throw new Error('At least one renter is required');
+    }
+
+    if (contractType && !CONTRACT_TYPES.includes(contractType)) {
+      throw new Error(`Invalid contract type: ${contractType}`);
+    }
+
+    const { room } = await findManagedRoom(tx, user, propertyName, roomNumber);
+    if (!room) {
+      throw new Error(`Room not found: ${propertyName} / ${roomNumber}`);
+    }
+
+    const renters = await tx.renter.findMany({
+      where: { phone: { in: phones } },
+      include: { room: { include: { property: true } } }
+    });
+    const missing = phones.filter((phone) => !renters.some((renter) => renter.phone === phone));
+    if (missing.length > 0) {
+      throw new Error(`Renters not found: ${missing.join(', ')}`);
+    }
+
+    // Same scope as the renters import: renters without a room can only be placed by an admin
+    for (const renter of renters) {
+      const managed = renter.room
+        ? user.role === 'ADMIN' || renter.room.property.userId === user.id
+        : user.role === 'ADMIN';
+      if (!managed) {
+        throw new Error(`The renter with phone number ${renter.phone} belongs to a property you do not manage`);
+      }
+    }
+
+    const existing = await tx.contract.findFirst({
+      where: { roomId: room.id, startDate },
+      include: { renters: true }
+    });
+
+    // Only new contracts get a status from their dates; existing ones keep theirs, so re-importing
+    // a file doesn't bring back a contract that has since been terminated
+    const now = new Date();
+    const status: ContractStatus = existing
+      ? existing.status
+      : endDate < now ? 'EXPIRED' : initialContractStatus(startDate, now);
+
+    if (!existing && status === 'ACTIVE' && room.status === 'MAINTENANCE') {
+      throw new Error('Room is currently under maintenance');
+    }
+
+    if (status === 'PENDING' || status === 'ACTIVE') {
+      await assertRoomAvailable(tx, room.id, startDate, endDate, existing ? [existing.id] : []);
+    }
+
+    const data = {
+      name,
+      startDate,
+      endDate,
+      amount,
+      securityDeposit,
+      contractType: contractType as ContractType | undefined
+    };
+    const renterIds = renters.map((renter) => renter.id);
+    const renterPhones = (list: { phone: string }[]) => list.map((renter) => renter.phone).sort().join(';');
+    const current = existing && { ...existing, renterPhones: renterPhones(existing.renters) };
+    const key = `${propertyName} / ${roomNumber} / ${startDate.toISOString().slice(0, 10)}`;
+
+    return planned(key, current, { ...data, renterPhones: renterPhones(renters) }, async () => {
+      if (existing) {
+        await tx.contract.update({
+          where: { id: existing.id },
+          data: { ...data, updatedAt: new Date(), renters: { set: renterIds.map((id) => ({ id })) } }
+        });
+      } else {
+        await tx.contract.create({
+          data: {
+            id: nanoid(),
+            ...data,
+            status,
+            roomId: room.id,
+            updatedAt: new Date(),
+            renters: { connect: renterIds.map((id) => ({ id })) }
+          }
+        });
+      }
+
+      await reconcileRoomStatus(tx, room.id, now);
+    });
+  }
+};
+
+export const IMPORT_ENTITIES: Record<ImportEntity, ImportEntityDefinition> = {
+  properties,
+  rooms,
+  renters,
+  contracts
+};
@@ -0,0 +1,162 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { parseCsvRecords } from '../../utils/csv';
+import { IMPORT_ENTITIES, ImportChange, ImportEntity, ImportEntityDefinition, ImportUser, PlannedRow } from './entities';
+
+// Larger files should be split up; the whole import runs in one transaction
+export const IMPORT_MAX_ROWS = Number(process.env.IMPORT_MAX_ROWS) || 2000;
+
+const TRANSACTION_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface ImportRowError {
+  row: number;
+  message: string;
+}
+
+export interface ImportRowResult {
+  row: number;
+  key: string;
+  action: PlannedRow['action'];
+  changes: ImportChange[];
+}
+
+export interface ImportReport {
+  entity: ImportEntity;
+  dryRun: boolean;
+  committed: boolean;
+  totalRows: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  errors: ImportRowError[];
+  rows: ImportRowResult[];
+}
+
+// Thrown to roll back a dry run, or an import with errors, once its report is complete
+class ImportRollback extends Error {
+  constructor(public report: ImportReport) {
+    super('Import rolled back');
+  }
+}
+
+/**
+ * Look up an importable entity by name
+ */
+export const getImportEntity = (name: string): ImportEntityDefinition => {
+  const entity = IMPORT_ENTITIES[name as ImportEntity];
+  if (!entity) {
+    throw new Error(`Unknown import: ${name}. Available imports: ${Object.keys(IMPORT_ENTITIES).join(', ')}`);
+  }
+  return entity;
+};
+
+const checkHeaders = (name: string, entity: ImportEntityDefinition, headers: string[]) => {
+  const known = entity.columns.map((column) => column.name);
+  const unknown = headers.filter((header) => !known.includes(header));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown columns for ${name}: ${unknown.join(', ')}`);
+  }
+
+  const missing = entity.columns.filter((column) => column.required && !headers.includes(column.name));
+  if (missing.length > 0) {
+    throw new Error(`Missing columns for ${name}: ${missing.map((column) => column.name).join(', ')}`);
+  }
+};
+
+/**
+ * Import a CSV file of properties, rooms, renters or contracts.
+ *
+ * Rows are checked against the same rules as the create and update mutations and matched to
+ * existing records by natural key (property name, property and room number, renter phone, room
+ * and contract start date), so importing the same file twice changes nothing the second time.
+ * Rows are applied in order inside one transaction, so later rows see the effect of earlier ones.
+ * A dry run, or any row failing, rolls everything back; the report then lists what would have changed.
+ * Row numbers in the report match the spreadsheet, with the header on row 1.
+ */
+export const importCsv = async (
+  prisma: PrismaClient,
+  user: ImportUser,
+  name: string,
+  csv: string,
+  dryRun: boolean = true
+): Promise<ImportReport> => {
+  const entity = getImportEntity(name);
+  const { headers, records } = parseCsvRecords(csv);
+
+  checkHeaders(name, entity, headers);
+
+  if (records.length === 0) {
+    throw new Error('The file has no rows to import');
+  }
+
+  if (records.length > IMPORT_MAX_ROWS) {
+    throw new Error(`Imports are limited to ${IMPORT_MAX_ROWS} rows; split the file and import it in parts`);
+  }
+
+  const report: ImportReport = {
+    entity: name as ImportEntity,
+    dryRun,
+    committed: false,
+    totalRows: records.length,
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    errors: [],
+    rows: []
+  };
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      const seen = new Map<string, number>();
+
+      for (const [index, record] of records.entries()) {
+        const row = index + 2;
+
+        try {
+          const plan = await entity.plan(tx, user, record);
+
+          if (seen.has(plan.key)) {
+            throw new Error(`Duplicate of row ${seen.get(plan.key)} (${plan.key})`);
+          }
+          seen.set(plan.key, row);
+
+          await plan.apply();
+
+          report.rows.push({ row, key: plan.key, action: plan.action, changes: plan.changes });
+          if (plan.action === 'CREATE') report.created++;
+          if (plan.action === 'UPDATE') report.updated++;
+          if (plan.action === 'UNCHANGED') report.unchanged++;
+        } catch (error: any) {
+          report.errors.push({ row, message: error?.message || 'Unknown error' });
+
+          // A failed query aborts the transaction, so nothing after it can be checked
+          if (error instanceof Prisma.PrismaClientKnownRequestError || error instanceof Prisma.PrismaClientUnknownRequestError) {
+            break;
+          }
+        }
+      }
+
+      if (dryRun || report.errors.length > 0) {
+        throw new ImportRollback(report);
+      }
+    }, { timeout: TRANSACTION_TIMEOUT_MS });
+  } catch (error) {
+    if (!(error instanceof ImportRollback)) {
+      throw error;
+    }
+  }
+
+  report.committed = !dryRun && report.errors.length === 0;
+
+  logger.info(report.committed ? '📥 Import committed' : '📥 Import checked', {
+    entity: name,
+    userId: user.id,
+    dryRun,
+    totalRows: report.totalRows,
+    created: report.created,
+    updated: report.updated,
+    errors: report.errors.length
+  });
+
+  return report;
+};
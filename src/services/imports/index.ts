@@ -0,0 +1,4 @@
+export { IMPORT_ENTITIES } from './entities';
+export type { ImportEntity, ImportUser, ImportColumn, ImportChange, PlannedRow, ImportEntityDefinition } from './entities';
+export { IMPORT_MAX_ROWS, getImportEntity, importCsv } from './importer';
+export type { ImportRowError, ImportRowResult, ImportReport } from './importer';
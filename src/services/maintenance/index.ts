@@ -0,0 +1,13 @@
+export {
+  MAX_REQUEST_PHOTOS,
+  MAINTENANCE_CATEGORIES,
+  renterMaintenanceRequest,
+  submitMaintenanceRequest,
+  acceptMaintenanceRequest,
+  rejectMaintenanceRequest,
+  mergeMaintenanceRequest,
+  rateMaintenanceRequest,
+  notifyMaintenanceProgress,
+  managedRequestsWhere
+} from './requests';
+export type { MaintenanceRequestInput, AcceptRequestInput } from './requests';
@@ -0,0 +1,334 @@
+import { MaintenanceCategory, MaintenanceEvent, MaintenancePriority, MaintenanceRequest, Prisma, PrismaClient } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { logger } from '../../utils/logger';
+import { notifyMaintenanceRequestUpdated, notifyRoomOwner } from '../notifications';
+import { createSignedFileUrl, isImage, storeUploadedFile, UploadedFile } from '../storage';
+
+// Most photos a renter can attach to one request
+export const MAX_REQUEST_PHOTOS = 5;
+
+export const MAINTENANCE_CATEGORIES = Object.values(MaintenanceCategory) as string[];
+
+const MAINTENANCE_PRIORITIES = Object.values(MaintenancePriority) as string[];
+
+export interface MaintenanceRequestInput {
+  category: string;
+  description: string;
+}
+
+export interface AcceptRequestInput {
+  priority: string;
+  scheduledDate: Date;
+  title?: string;
+  notes?: string;
+}
+
+type RequestWithEvent = MaintenanceRequest & { maintenanceEvent: MaintenanceEvent | null };
+
+const STATUS_MESSAGES: Record<string, string> = {
+  IN_PROGRESS: 'Work on your maintenance request has started',
+  COMPLETED: 'Your maintenance request has been completed. Let us know how it went by rating the work',
+  CANCELLED: 'The work for your maintenance request has been cancelled'
+};
+
+// A failed notification shouldn't undo a decision that has already been saved
+const notifyRenter = (prisma: PrismaClient, request: MaintenanceRequest, message: string) => {
+  return notifyMaintenanceRequestUpdated(prisma, request, message).catch((error) =>
+    logger.error('❌ Maintenance request notification failed', { maintenanceRequestId: request.id, message: error?.message })
+  );
+};
+
+const assertInTriage = (request: MaintenanceRequest) => {
+  if (request.status !== 'TRIAGE') {
+    throw new Error(`This request has already been ${request.status.toLowerCase()}`);
+  }
+};
+
+/**
+ * How a request looks to the renter who filed it: its triage outcome and the progress of the
+ * work it became, with no links on to other records
+ */
+export const renterMaintenanceRequest = (request: RequestWithEvent) => ({
+  id: request.id,
+  category: request.category,
+  description: request.description,
+  photoUrls: request.photos.map((path) => createSignedFileUrl(path)),
+  status: request.status,
+  rejectionReason: request.rejectionReason,
+  workStatus: request.maintenanceEvent?.status || null,
+  scheduledDate: request.maintenanceEvent?.scheduledDate || null,
+  completedDate: request.maintenanceEvent?.completedDate || null,
+  rating: request.rating,
+  ratingComment: request.ratingComment,
+  createdAt: request.createdAt,
+  updatedAt: request.updatedAt
+});
+
+/**
+ * File a maintenance request for the renter's room. The request waits in TRIAGE until a manager
+ * accepts, rejects or merges it. Photos must be images.
+ */
+export const submitMaintenanceRequest = async (
+  prisma: PrismaClient,
+  renterId: string,
+  input: MaintenanceRequestInput,
+  photos: UploadedFile[] = []
+) => {
+  if (!input.description?.trim()) {
+    throw new Error('Description is required');
+  }
+
+  if (!MAINTENANCE_CATEGORIES.includes(input.category)) {
+    throw new Error(`Invalid maintenance category: ${input.category}`);
+  }
+
+  if (photos.length > MAX_REQUEST_PHOTOS) {
+    throw new Error(`A request can have at most ${MAX_REQUEST_PHOTOS} photos`);
+  }
+
+  if (photos.some((photo) => !isImage(photo.mimetype))) {
+    throw new Error('Photos must be images');
+  }
+
+  const renter = await prisma.renter.findUnique({
+    where: { id: renterId },
+    include: { contracts: { where: { status: 'ACTIVE' }, take: 1 } }
+  });
+
+  // Renters whose room was never set directly live in the room of their current contract
+  const roomId = renter?.roomId || renter?.contracts[0]?.roomId;
+  if (!roomId) {
+    throw new Error('You are not renting a room');
+  }
+
+  const stored = [];
+  for (const photo of photos) {
+    stored.push(await storeUploadedFile(photo, `maintenance-requests/${roomId}`, { thumbnail: false }));
+  }
+
+  const request = await prisma.maintenanceRequest.create({
+    data: {
+      id: nanoid(),
+      renterId,
+      roomId,
+      category: input.category as MaintenanceCategory,
+      description: input.description.trim(),
+      photos: stored.map((file) => file.path),
+      updatedAt: new Date()
+    },
+    include: { maintenanceEvent: true }
+  });
+
+  await notifyRoomOwner(prisma, roomId, {
+    title: 'New maintenance request from a renter',
+    message: `${request.category.toLowerCase().replace(/_/g, ' ')}: ${request.description}`,
+    type: 'MAINTENANCE_REQUEST_SUBMITTED',
+    data: { maintenanceRequestId: request.id, renterId }
+  }).catch((error) => logger.error('❌ Maintenance request alert failed', { message: error?.message }));
+
+  logger.info('🛠️ Maintenance request submitted', { maintenanceRequestId: request.id, roomId, photos: stored.length });
+  return request;
+};
+
+/**
+ * Accept a request in triage and schedule the work as a maintenance event. Requests already
+ * merged into this one follow the same event.
+ */
+export const acceptMaintenanceRequest = async (
+  prisma: PrismaClient,
+  request: MaintenanceRequest,
+  input: AcceptRequestInput,
+  reviewerId: string
+) => {
+  assertInTriage(request);
+
+  if (!MAINTENANCE_PRIORITIES.includes(input.priority)) {
+    throw new Error(`Invalid priority: ${input.priority}`);
+  }
+
+  if (!input.scheduledDate) {
+    throw new Error('Scheduled date is required');
+  }
+
+  const category = request.category.toLowerCase().replace(/_/g, ' ');
+  const title = input.title?.trim()
+    || `${category.charAt(0).toUpperCase()}${category.slice(1)} request`;
+
+  const accepted = await prisma.$transaction(async (tx) => {
+    const maintenanceEvent = await tx.maintenanceEvent.create({
+      data: {
+        id: nanoid(),
+        title,
+        description: request.description,
+        priority: input.priority as MaintenancePriority,
+        scheduledDate: input.scheduledDate,
+        notes: input.notes,
+        roomId: request.roomId,
+        updatedAt: new Date()
+      }
+    });
+
+    await tx.maintenanceRequest.updateMany({
+      where: { duplicateOfId: request.id },
+      data: { maintenanceEventId: maintenanceEvent.id, updatedAt: new Date() }
+    });
+
+    return tx.maintenanceRequest.update({
+      where: { id: request.id },
+      data: {
+        status: 'ACCEPTED',
+        maintenanceEventId: maintenanceEvent.id,
+        reviewedById: reviewerId,
+        reviewedAt: new Date(),
+        updatedAt: new Date()
+      },
+      include: { maintenanceEvent: true }
+    });
+  });
+
+  await notifyRequesters(prisma, accepted.maintenanceEventId!,
+    `Your maintenance request has been scheduled for ${input.scheduledDate.toDateString()}`);
+
+  return accepted;
+};
+
+/**
+ * Turn down a request in triage; the reason is shown to the renter
+ */
+export const rejectMaintenanceRequest = async (
+  prisma: PrismaClient,
+  request: MaintenanceRequest,
+  reason: string,
+  reviewerId: string
+) => {
+  assertInTriage(request);
+
+  if (!reason?.trim()) {
+    throw new Error('A reason is required to reject a request');
+  }
+
+  const rejected = await prisma.maintenanceRequest.update({
+    where: { id: request.id },
+    data: {
+      status: 'REJECTED',
+      rejectionReason: reason.trim(),
+      reviewedById: reviewerId,
+      reviewedAt: new Date(),
+      updatedAt: new Date()
+    },
+    include: { maintenanceEvent: true }
+  });
+
+  await notifyRenter(prisma, rejected, `Your maintenance request was declined: ${rejected.rejectionReason}`);
+
+  return rejected;
+};
+
+/**
+ * Mark a request in triage as a duplicate of another request for the same room. It then follows
+ * the other request's work, including anything already merged into it.
+ */
+export const mergeMaintenanceRequest = async (
+  prisma: PrismaClient,
+  request: MaintenanceRequest,
+  into: MaintenanceRequest,
+  reviewerId: string
+) => {
+  assertInTriage(request);
+
+  if (into.id === request.id) {
+    throw new Error('A request cannot be merged into itself');
+  }
+
+  if (into.roomId !== request.roomId) {
+    throw new Error('Only requests for the same room can be merged');
+  }
+
+  if (into.status === 'REJECTED' || into.status === 'MERGED') {
+    throw new Error(`Cannot merge into a request that has been ${into.status.toLowerCase()}`);
+  }
+
+  const merged = await prisma.$transaction(async (tx) => {
+    await tx.maintenanceRequest.updateMany({
+      where: { duplicateOfId: request.id },
+      data: { duplicateOfId: into.id, maintenanceEventId: into.maintenanceEventId, updatedAt: new Date() }
+    });
+
+    return tx.maintenanceRequest.update({
+      where: { id: request.id },
+      data: {
+        status: 'MERGED',
+        duplicateOfId: into.id,
+        maintenanceEventId: into.maintenanceEventId,
+        reviewedById: reviewerId,
+        reviewedAt: new Date(),
+        updatedAt: new Date()
+      },
+      include: { maintenanceEvent: true }
+    });
+  });
+
+  await notifyRenter(prisma, merged, 'Your maintenance request was combined with an earlier report of the same problem');
+
+  return merged;
+};
+
+/**
+ * Record the renter's rating, from 1 to 5, of completed work. Each request can be rated once.
+ */
+export const rateMaintenanceRequest = async (
+  prisma: PrismaClient,
+  request: RequestWithEvent,
+  rating: number,
+  comment?: string | null
+) => {
+  if (request.maintenanceEvent?.status !== 'COMPLETED') {
+    throw new Error('Only completed work can be rated');
+  }
+
+  if (request.rating !== null) {
+    throw new Error('You have already rated this work');
+  }
+
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    throw new Error('Rating must be a whole number from 1 to 5');
+  }
+
+  return prisma.maintenanceRequest.update({
+    where: { id: request.id },
+    data: { rating, ratingComment: comment?.trim() || null, ratedAt: new Date(), updatedAt: new Date() },
+    include: { maintenanceEvent: true }
+  });
+};
+
+// Tell every renter whose request became this work what has happened
+const notifyRequesters = async (prisma: PrismaClient, maintenanceEventId: string, message: string) => {
+  const requests = await prisma.maintenanceRequest.findMany({ where: { maintenanceEventId } });
+
+  for (const request of requests) {
+    await notifyRenter(prisma, request, message);
+  }
+};
+
+/**
+ * Keep renters up to date when the work their requests became starts, finishes or is cancelled
+ */
+export const notifyMaintenanceProgress = async (
+  prisma: PrismaClient,
+  maintenanceEvent: MaintenanceEvent,
+  previousStatus: string
+) => {
+  const message = STATUS_MESSAGES[maintenanceEvent.status];
+  if (!message || maintenanceEvent.status === previousStatus) {
+    return;
+  }
+
+  await notifyRequesters(prisma, maintenanceEvent.id, message);
+};
+
+/**
+ * Where clause for the requests a manager triages: those for rooms in their properties, or all for admins
+ */
+export const managedRequestsWhere = (user: { id: string; role: string }): Prisma.MaintenanceRequestWhereInput => {
+  return user.role === 'ADMIN' ? {} : { room: { property: { userId: user.id } } };
+};
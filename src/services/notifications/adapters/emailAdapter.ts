@@ -0,0 +1,40 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { ChannelAdapter } from '../types';
+
+let transporter: Transporter | null = null;
+
+/**
+ * Create the SMTP transport from the EMAIL_* environment variables.
+ * Point EMAIL_HOST/EMAIL_PORT at a local SMTP sink (e.g. MailHog on port 1025) in development.
+ */
+const getTransporter = (): Transporter => {
+  if (!transporter) {
+    const port = Number(process.env.EMAIL_PORT) || 587;
+
+    transporter = nodemailer.createTransport({
+      host: process.env.EMAIL_HOST || 'localhost',
+      port,
+      secure: port === 465,
+      auth: process.env.EMAIL_USER
+        ? { user: process.env.EMAIL_USER, pass: process.env.EMAIL_PASS }
+        : undefined
+    });
+  }
+  return transporter;
+};
+
+// EMAIL channel backed by nodemailer
+export const emailAdapter: ChannelAdapter = {
+  channel: 'EMAIL',
+
+  resolveAddress: (recipient) => recipient.email || null,
+
+  send: async (message) => {
+    await getTransporter().sendMail({
+      from: process.env.EMAIL_FROM || 'noreply@propertymanagementsystem.com',
+      to: message.address,
+      subject: message.subject || 'Notification',
+      text: message.body
+    });
+  }
+};
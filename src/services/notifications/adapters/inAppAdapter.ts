@@ -0,0 +1,19 @@
+import { createInAppNotification } from '../inbox';
+import { ChannelAdapter } from '../types';
+
+// IN_APP channel: writes to the recipient user's notification inbox
+export const inAppAdapter: ChannelAdapter = {
+  channel: 'IN_APP',
+
+  resolveAddress: (recipient) => recipient.userId || null,
+
+  send: async (message, prisma) => {
+    await createInAppNotification(prisma, {
+      userId: message.address,
+      title: message.subject || 'Notification',
+      message: message.body,
+      type: 'EVENT',
+      data: { deliveryId: message.deliveryId }
+    });
+  }
+};
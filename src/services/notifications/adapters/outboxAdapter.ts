@@ -0,0 +1,25 @@
+import { NotifyMethod } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { ChannelAdapter } from '../types';
+
+/**
+ * Stub adapter for channels without a provider integration yet (SMS, ZALO).
+ * Messages are written to the OutboxMessage table instead of being sent.
+ */
+export const createOutboxAdapter = (channel: NotifyMethod): ChannelAdapter => ({
+  channel,
+
+  resolveAddress: (recipient) => recipient.phone || null,
+
+  send: async (message, prisma) => {
+    await prisma.outboxMessage.create({
+      data: {
+        id: nanoid(),
+        channel,
+        recipient: message.address,
+        body: message.subject ? `${message.subject}\n\n${message.body}` : message.body,
+        deliveryId: message.deliveryId
+      }
+    });
+  }
+});
@@ -0,0 +1,83 @@
+import { MaintenanceEvent, MaintenanceRequest, Payment, PrismaClient } from '@prisma/client';
+import { createInAppNotification } from './inbox';
+
+/**
+ * Notify the owner of the property a room belongs to
+ */
+export const notifyRoomOwner = async (
+  prisma: PrismaClient,
+  roomId: string,
+  notification: { title: string; message: string; type: string; data?: Record<string, any> }
+) => {
+  const room = await prisma.room.findUnique({
+    where: { id: roomId },
+    include: { property: true }
+  });
+
+  if (!room) {
+    return null;
+  }
+
+  return createInAppNotification(prisma, {
+    userId: room.property.userId,
+    ...notification,
+    data: { roomId, propertyId: room.propertyId, ...notification.data }
+  });
+};
+
+/**
+ * Alert the property owner that a maintenance request was filed
+ */
+export const notifyMaintenanceRequested = async (prisma: PrismaClient, maintenanceEvent: MaintenanceEvent) => {
+  return notifyRoomOwner(prisma, maintenanceEvent.roomId, {
+    title: 'New maintenance request',
+    message: `${maintenanceEvent.title} (${maintenanceEvent.priority.toLowerCase()} priority)`,
+    type: 'MAINTENANCE_REQUESTED',
+    data: { maintenanceEventId: maintenanceEvent.id }
+  });
+};
+
+/**
+ * Tell the renter who filed a maintenance request what has happened to it, if they have an account
+ */
+export const notifyMaintenanceRequestUpdated = async (
+  prisma: PrismaClient,
+  request: MaintenanceRequest,
+  message: string
+) => {
+  const user = await prisma.user.findUnique({ where: { renterId: request.renterId } });
+
+  if (!user) {
+    return null;
+  }
+
+  return createInAppNotification(prisma, {
+    userId: user.id,
+    title: 'Maintenance request update',
+    message,
+    type: 'MAINTENANCE_REQUEST_UPDATED',
+    data: { maintenanceRequestId: request.id }
+  });
+};
+
+/**
+ * Alert the property owner that a payment has gone overdue
+ */
+export const notifyPaymentOverdue = async (prisma: PrismaClient, payment: Payment) => {
+  const renter = await prisma.renter.findUnique({ where: { id: payment.renterId } });
+  const contract = payment.contractId
+    ? await prisma.contract.findUnique({ where: { id: payment.contractId } })
+    : null;
+  const roomId = contract?.roomId || renter?.roomId;
+
+  if (!roomId) {
+    return null;
+  }
+
+  return notifyRoomOwner(prisma, roomId, {
+    title: 'Payment overdue',
+    message: `${payment.type} payment of ${payment.amount} from ${renter?.name || 'renter'} was due ${payment.dueDate.toDateString()}`,
+    type: 'PAYMENT_OVERDUE',
+    data: { paymentId: payment.id, renterId: payment.renterId }
+  });
+};
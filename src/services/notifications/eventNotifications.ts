@@ -0,0 +1,84 @@
+import { Event, EventTarget, PrismaClient, Renter, User } from '@prisma/client';
+import { sendNotification } from './notificationService';
+import { Recipient } from './types';
+
+/**
+ * Build a recipient from a renter; renters with a linked account also receive IN_APP notifications
+ */
+export const renterRecipient = (renter: Renter & { user?: User | null }): Recipient => ({
+  name: renter.name,
+  email: renter.email,
+  phone: renter.phone,
+  renterId: renter.id,
+  userId: renter.user?.id
+});
+
+/**
+ * Expand an event's targets into individual recipients.
+ * Room targets resolve to the renters currently assigned to the room.
+ */
+export const resolveEventRecipients = async (
+  prisma: PrismaClient,
+  targets: EventTarget[]
+): Promise<Recipient[]> => {
+  const recipients = new Map<string, Recipient>();
+
+  for (const target of targets) {
+    if (target.renterId) {
+      const renter = await prisma.renter.findUnique({
+        where: { id: target.renterId },
+        include: { user: true }
+      });
+      if (renter) {
+        recipients.set(`renter:${renter.id}`, renterRecipient(renter));
+      }
+    }
+
+    if (target.roomId) {
+      const renters = await prisma.renter.findMany({
+        where: { roomId: target.roomId },
+        include: { user: true }
+      });
+      for (const renter of renters) {
+        recipients.set(`renter:${renter.id}`, renterRecipient(renter));
+      }
+    }
+
+    if (target.userId) {
+      const user = await prisma.user.findUnique({ where: { id: target.userId } });
+      if (user) {
+        recipients.set(`user:${user.id}`, {
+          name: user.name,
+          email: user.email,
+          userId: user.id
+        });
+      }
+    }
+  }
+
+  return [...recipients.values()];
+};
+
+/**
+ * Send an event's message to all of its targets over the event's notifyBy channels
+ */
+export const notifyEventTargets = async (
+  prisma: PrismaClient,
+  event: Event & { eventTargets: EventTarget[] }
+) => {
+  const recipients = await resolveEventRecipients(prisma, event.eventTargets);
+
+  let deliveries = 0;
+  for (const recipient of recipients) {
+    const sent = await sendNotification(prisma, {
+      channels: event.notifyBy,
+      recipient,
+      subject: event.name,
+      body: event.message,
+      eventId: event.id
+    });
+    deliveries += sent.length;
+  }
+
+  return { recipients: recipients.length, deliveries };
+};
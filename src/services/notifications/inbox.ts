@@ -0,0 +1,27 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { pubsub, NOTIFICATION_CREATED } from '../../graphql/pubsub';
+
+export interface InAppNotificationInput {
+  userId: string;
+  title: string;
+  message: string;
+  type: string;
+  data?: Prisma.InputJsonValue;
+}
+
+/**
+ * Store an in-app notification and push it to the user's live subscriptions
+ */
+export const createInAppNotification = async (prisma: PrismaClient, input: InAppNotificationInput) => {
+  const notification = await prisma.notification.create({
+    data: {
+      id: nanoid(),
+      ...input
+    }
+  });
+
+  await pubsub.publish(NOTIFICATION_CREATED, { notificationReceived: notification });
+
+  return notification;
+};
@@ -0,0 +1,23 @@
+import { registerAdapter } from './notificationService';
+import { emailAdapter } from './adapters/emailAdapter';
+import { createOutboxAdapter } from './adapters/outboxAdapter';
+import { inAppAdapter } from './adapters/inAppAdapter';
+
+// Default channel adapters
+registerAdapter(emailAdapter);
+registerAdapter(createOutboxAdapter('SMS'));
+registerAdapter(createOutboxAdapter('ZALO'));
+registerAdapter(inAppAdapter);
+
+export * from './types';
+export {
+  registerAdapter,
+  getAdapter,
+  sendNotification,
+  retryDelivery,
+  retryFailedDeliveries,
+  MAX_DELIVERY_RETRIES
+} from './notificationService';
+export { renterRecipient, resolveEventRecipients, notifyEventTargets } from './eventNotifications';
+export { createInAppNotification } from './inbox';
+export { notifyRoomOwner, notifyMaintenanceRequested, notifyMaintenanceRequestUpdated, notifyPaymentOverdue } from './alerts';
@@ -0,0 +1,152 @@
+import { NotificationDelivery, NotifyMethod, PrismaClient } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import { logger } from '../../utils/logger';
+import { ChannelAdapter, NotificationRequest, Recipient } from './types';
+
+export const MAX_DELIVERY_RETRIES = Number(process.env.NOTIFICATION_MAX_RETRIES) || 3;
+
+const adapters = new Map<NotifyMethod, ChannelAdapter>();
+
+/**
+ * Register the adapter that delivers a channel, replacing any previous one
+ */
+export const registerAdapter = (adapter: ChannelAdapter) => {
+  adapters.set(adapter.channel, adapter);
+};
+
+/**
+ * Get the adapter registered for a channel
+ */
+export const getAdapter = (channel: NotifyMethod) => adapters.get(channel);
+
+/**
+ * Attempt delivery of a persisted NotificationDelivery and record the outcome
+ */
+const attemptDelivery = async (
+  prisma: PrismaClient,
+  delivery: NotificationDelivery,
+  recipient: Recipient
+): Promise<NotificationDelivery> => {
+  const attemptedAt = new Date();
+  const adapter = adapters.get(delivery.channel);
+
+  try {
+    if (!adapter) {
+      throw new Error(`No adapter registered for channel ${delivery.channel}`);
+    }
+
+    await adapter.send(
+      {
+        deliveryId: delivery.id,
+        address: delivery.recipient,
+        recipient,
+        subject: delivery.subject,
+        body: delivery.body
+      },
+      prisma
+    );
+
+    return prisma.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: 'SENT',
+        error: null,
+        lastAttemptAt: attemptedAt,
+        sentAt: attemptedAt,
+        updatedAt: attemptedAt
+      }
+    });
+  } catch (error: any) {
+    logger.warn(`Notification ${delivery.id} via ${delivery.channel} failed`, { message: error?.message });
+
+    return prisma.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: 'FAILED',
+        error: error?.message || 'Unknown error',
+        lastAttemptAt: attemptedAt,
+        updatedAt: attemptedAt
+      }
+    });
+  }
+};
+
+/**
+ * Send a notification over each requested channel.
+ * Every attempt is persisted as a NotificationDelivery; channels the recipient has no address for are skipped.
+ */
+export const sendNotification = async (prisma: PrismaClient, request: NotificationRequest) => {
+  const deliveries: NotificationDelivery[] = [];
+
+  for (const channel of request.channels) {
+    const adapter = adapters.get(channel);
+    if (!adapter) {
+      logger.warn(`Skipping ${channel} notification: no adapter registered`);
+      continue;
+    }
+
+    const address = adapter.resolveAddress(request.recipient);
+    if (!address) {
+      logger.debug(`Skipping ${channel} notification: ${request.recipient.name} has no address`);
+      continue;
+    }
+
+    const delivery = await prisma.notificationDelivery.create({
+      data: {
+        id: nanoid(),
+        channel,
+        recipient: address,
+        subject: request.subject,
+        body: request.body,
+        eventId: request.eventId,
+        renterId: request.recipient.renterId,
+        userId: request.recipient.userId,
+        updatedAt: new Date()
+      }
+    });
+
+    deliveries.push(await attemptDelivery(prisma, delivery, request.recipient));
+  }
+
+  return deliveries;
+};
+
+/**
+ * Retry a single failed delivery, incrementing its retry count
+ */
+export const retryDelivery = async (prisma: PrismaClient, delivery: NotificationDelivery) => {
+  const updated = await prisma.notificationDelivery.update({
+    where: { id: delivery.id },
+    data: { retryCount: { increment: 1 }, updatedAt: new Date() }
+  });
+
+  const recipient: Recipient = {
+    name: delivery.recipient,
+    renterId: delivery.renterId,
+    userId: delivery.userId
+  };
+
+  return attemptDelivery(prisma, updated, recipient);
+};
+
+/**
+ * Retry every failed delivery that has not exhausted its retries
+ */
+export const retryFailedDeliveries = async (prisma: PrismaClient) => {
+  const failed = await prisma.notificationDelivery.findMany({
+    where: {
+      status: 'FAILED',
+      retryCount: { lt: MAX_DELIVERY_RETRIES }
+    },
+    orderBy: { createdAt: 'asc' },
+    take: 100
+  });
+
+  let sent = 0;
+  for (const delivery of failed) {
+    const result = await retryDelivery(prisma, delivery);
+    if (result.status === 'SENT') sent++;
+  }
+
+  return { retried: failed.length, sent };
+};
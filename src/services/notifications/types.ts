@@ -0,0 +1,39 @@
+import { NotifyMethod, PrismaClient } from '@prisma/client';
+
+// Who a notification is addressed to
+export interface Recipient {
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+  renterId?: string | null;
+  userId?: string | null;
+}
+
+// A single message ready to be delivered over one channel
+export interface ChannelMessage {
+  deliveryId: string;
+  address: string;
+  recipient: Recipient;
+  subject?: string | null;
+  body: string;
+}
+
+// Notification to send over one or more channels
+export interface NotificationRequest {
+  channels: NotifyMethod[];
+  recipient: Recipient;
+  subject?: string;
+  body: string;
+  eventId?: string;
+}
+
+/**
+ * Channel adapter interface. Each NotifyMethod is delivered by one adapter.
+ * send() must throw when delivery fails so the attempt is recorded as FAILED.
+ */
+export interface ChannelAdapter {
+  channel: NotifyMethod;
+  // Pick the address this channel delivers to, or null when the recipient has none
+  resolveAddress(recipient: Recipient): string | null;
+  send(message: ChannelMessage, prisma: PrismaClient): Promise<void>;
+}
@@ -0,0 +1,2 @@
+export { renterProfile, getTenancy, updateContactDetails } from './tenancy';
+export type { ContactDetailsInput } from './tenancy';
@@ -0,0 +1,166 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { paymentBalance, renterCredit } from '../billing/ledger';
+import { createSignedFileUrl, isExternalPath } from '../storage';
+
+export interface ContactDetailsInput {
+  email?: string | null;
+  phone?: string | null;
+  emergencyContact?: string | null;
+}
+
+const tenancyInclude = {
+  room: { include: { property: true } },
+  contracts: {
+    where: { status: { in: ['PENDING', 'ACTIVE'] } },
+    include: { room: { include: { property: true } } },
+    orderBy: { startDate: 'asc' }
+  },
+  documents: { orderBy: { createdAt: 'desc' } }
+} satisfies Prisma.RenterInclude;
+
+type RoomWithProperty = Prisma.RoomGetPayload<{ include: { property: true } }>;
+
+// Stored files are handed out as short-lived signed links; links to files hosted elsewhere as they are
+const fileUrl = (path: string | null) => {
+  if (!path) return null;
+  return isExternalPath(path) ? path : createSignedFileUrl(path);
+};
+
+const tenancyRoom = (room: RoomWithProperty) => ({
+  id: room.id,
+  number: room.number,
+  name: room.name,
+  type: room.type,
+  floor: room.floor,
+  size: room.size,
+  price: room.price,
+  propertyName: room.property.name,
+  propertyAddress: room.property.address
+});
+
+/**
+ * A renter's own contact details, without anything that links to other renters
+ */
+export const renterProfile = (renter: Prisma.RenterGetPayload<{}>) => ({
+  id: renter.id,
+  name: renter.name,
+  email: renter.email,
+  phone: renter.phone,
+  emergencyContact: renter.emergencyContact,
+  identityNumber: renter.identityNumber
+});
+
+/**
+ * Everything a renter sees in the self-service portal: their room, current and upcoming contracts,
+ * bills still to pay split into upcoming and overdue, their documents and the services on their room.
+ * Only plain values are returned, so nothing here leads on to other renters' records.
+ */
+export const getTenancy = async (prisma: PrismaClient, renterId: string, now: Date = new Date()) => {
+  const renter = await prisma.renter.findUnique({
+    where: { id: renterId },
+    include: tenancyInclude
+  });
+
+  if (!renter) {
+    throw new Error('Renter not found');
+  }
+
+  // Renters whose room was never set directly live in the room of their current contract
+  const room = renter.room
+    || renter.contracts.find((contract) => contract.status === 'ACTIVE')?.room
+    || null;
+
+  const [payments, roomServices, creditBalance] = await Promise.all([
+    prisma.payment.findMany({
+      where: { renterId, status: { in: ['PENDING', 'OVERDUE'] } },
+      include: { allocations: { select: { amount: true } } },
+      orderBy: { dueDate: 'asc' }
+    }),
+    room
+      ? prisma.roomService.findMany({
+        where: { roomId: room.id, status: 'ACTIVE' },
+        include: { service: true },
+        orderBy: { startDate: 'asc' }
+      })
+      : Promise.resolve([]),
+    renterCredit(prisma, renterId)
+  ]);
+
+  const bills = payments
+    .map((payment) => ({
+      id: payment.id,
+      type: payment.type,
+      status: payment.status,
+      description: payment.description,
+      billingPeriod: payment.billingPeriod,
+      amount: payment.amount,
+      balance: paymentBalance(payment),
+      dueDate: payment.dueDate,
+      contractId: payment.contractId
+    }))
+    .filter((bill) => bill.balance > 0);
+
+  return {
+    renter: renterProfile(renter),
+    room: room && tenancyRoom(room),
+    contracts: renter.contracts.map((contract) => ({
+      id: contract.id,
+      name: contract.name,
+      status: contract.status,
+      contractType: contract.contractType,
+      startDate: contract.startDate,
+      endDate: contract.endDate,
+      amount: contract.amount,
+      securityDeposit: contract.securityDeposit,
+      documentUrl: fileUrl(contract.document),
+      room: tenancyRoom(contract.room)
+    })),
+    upcomingPayments: bills.filter((bill) => bill.status !== 'OVERDUE' && bill.dueDate >= now),
+    overduePayments: bills.filter((bill) => bill.status === 'OVERDUE' || bill.dueDate < now),
+    creditBalance,
+    documents: renter.documents.map((document) => ({
+      id: document.id,
+      name: document.name,
+      type: document.type,
+      mimeType: document.mimeType,
+      size: document.size,
+      issueDate: document.issueDate,
+      expiryDate: document.expiryDate,
+      verificationStatus: document.verificationStatus,
+      verificationNote: document.verificationNote,
+      downloadUrl: fileUrl(document.path),
+      thumbnailUrl: fileUrl(document.thumbnailPath),
+      createdAt: document.createdAt
+    })),
+    services: roomServices.map((roomService) => ({
+      id: roomService.id,
+      name: roomService.service.name,
+      description: roomService.service.description,
+      fee: roomService.service.fee,
+      feeType: roomService.service.feeType,
+      startDate: roomService.startDate,
+      endDate: roomService.endDate
+    }))
+  };
+};
+
+/**
+ * Let a renter change how they can be reached. Other renter fields stay with their manager.
+ */
+export const updateContactDetails = async (prisma: PrismaClient, renterId: string, input: ContactDetailsInput) => {
+  if (input.phone !== undefined && !input.phone?.trim()) {
+    throw new Error('Phone number cannot be empty');
+  }
+
+  const renter = await prisma.renter.update({
+    where: { id: renterId },
+    data: {
+      ...(input.email !== undefined && { email: input.email?.trim() || null }),
+      ...(input.phone && { phone: input.phone.trim() }),
+      ...(input.emergencyContact !== undefined && { emergencyContact: input.emergencyContact?.trim() || null }),
+      updatedAt: new Date()
+    }
+  });
+
+  return renterProfile(renter);
+};
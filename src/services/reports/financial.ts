@@ -0,0 +1,266 @@
+import { ExpenseCategory, PaymentType, Prisma, PrismaClient } from '@prisma/client';
+import { roundAmount } from '../billing/period';
+
+export type ReportGrouping = 'MONTH' | 'QUARTER';
+
+export const REPORT_GROUPINGS: ReportGrouping[] = ['MONTH', 'QUARTER'];
+
+// A reporting bucket, e.g. "2025-05" or "2025-Q2", clipped to the report range
+export interface ReportPeriod {
+  key: string;
+  start: Date;
+  end: Date;
+}
+
+export interface AmountByKey {
+  key: string;
+  amount: number;
+}
+
+export interface FinancialSummary {
+  income: AmountByKey[];
+  totalIncome: number;
+  depositsCollected: number;
+  outstandingReceivables: number;
+  expenses: AmountByKey[];
+  totalExpenses: number;
+  maintenanceCosts: number;
+  netOperatingIncome: number;
+}
+
+export interface FinancialReport {
+  from: Date;
+  to: Date;
+  groupBy: ReportGrouping;
+  summary: FinancialSummary;
+  periods: (ReportPeriod & { summary: FinancialSummary })[];
+  properties: { propertyId: string; propertyName: string; summary: FinancialSummary }[];
+}
+
+const INCOME_TYPES = (Object.values(PaymentType) as PaymentType[]).filter((type) => type !== 'DEPOSIT');
+const EXPENSE_CATEGORIES = Object.values(ExpenseCategory) as ExpenseCategory[];
+
+/**
+ * Split [from, to] into calendar months or quarters. The first and last bucket are clipped to the range.
+ */
+export const buildReportPeriods = (from: Date, to: Date, groupBy: ReportGrouping): ReportPeriod[] => {
+  const months = groupBy === 'QUARTER' ? 3 : 1;
+  const periods: ReportPeriod[] = [];
+
+  let cursor = new Date(from.getFullYear(), from.getMonth() - (from.getMonth() % months), 1);
+  while (cursor <= to) {
+    const next = new Date(cursor.getFullYear(), cursor.getMonth() + months, 1);
+    const key = groupBy === 'QUARTER'
+      ? `${cursor.getFullYear()}-Q${cursor.getMonth() / 3 + 1}`
+      : `${cursor.getFullYear()}-${String(cursor.getMonth() + 1).padStart(2, '0')}`;
+
+    periods.push({
+      key,
+      start: cursor < from ? from : cursor,
+      end: new Date(Math.min(next.getTime() - 1, to.getTime()))
+    });
+    cursor = next;
+  }
+
+  return periods;
+};
+
+/**
+ * Payments belong to the property of their contract's room, or of the renter's room when there is no contract
+ */
+export const paymentPropertyWhere = (propertyIds: string[]): Prisma.PaymentWhereInput => ({
+  OR: [
+    { contract: { room: { propertyId: { in: propertyIds } } } },
+    { contractId: null, renter: { room: { propertyId: { in: propertyIds } } } }
+  ]
+});
+
+export const reportPaymentInclude = {
+  allocations: { select: { amount: true, createdAt: true } },
+  contract: { select: { room: { select: { propertyId: true } } } },
+  renter: { select: { id: true, name: true, room: { select: { propertyId: true } } } }
+} satisfies Prisma.PaymentInclude;
+
+export type ReportPayment = Prisma.PaymentGetPayload<{ include: typeof reportPaymentInclude }>;
+
+interface ReportExpense {
+  amount: number;
+  date: Date;
+  category: ExpenseCategory;
+  propertyId: string | null;
+}
+
+interface ReportMaintenance {
+  cost: number;
+  completedDate: Date;
+  propertyId: string;
+  booked: boolean;
+}
+
+export const paymentPropertyId = (payment: ReportPayment) => {
+  return payment.contract ? payment.contract.room.propertyId : payment.renter.room?.propertyId;
+};
+
+const inRange = (date: Date | null, start: Date, end: Date) => !!date && date >= start && date <= end;
+
+/**
+ * How much of a payment had been paid at `asOf`: what had been allocated to it by then.
+ * Payments marked paid on or before `asOf` count in full even without allocations.
+ */
+export const amountPaidAt = (payment: ReportPayment, asOf: Date) => {
+  if (payment.status === 'PAID' && payment.paidDate && payment.paidDate <= asOf) return payment.amount;
+
+  const allocated = payment.allocations
+    .filter((allocation) => allocation.createdAt <= asOf)
+    .reduce((total, allocation) => total + allocation.amount, 0);
+
+  return Math.min(allocated, payment.amount);
+};
+
+/**
+ * What was left to pay on a payment at `asOf`, whether or not it was due yet
+ */
+export const balanceAt = (payment: ReportPayment, asOf: Date) => {
+  return roundAmount(payment.amount - amountPaidAt(payment, asOf));
+};
+
+// What was owed and due on a payment at `asOf`
+const outstandingAt = (payment: ReportPayment, asOf: Date) => {
+  return payment.dueDate > asOf ? 0 : balanceAt(payment, asOf);
+};
+
+const sumBy = <T>(items: T[], amount: (item: T) => number) => {
+  return roundAmount(items.reduce((total, item) => total + amount(item), 0));
+};
+
+/**
+ * Income is counted when a payment is PAID, on its paid date. Deposits are held for the renter, so they are
+ * reported separately and left out of income. Maintenance costs cover completed maintenance in the window;
+ * costs already booked as expenses are only counted once in the total.
+ */
+const summarize = (
+  start: Date,
+  end: Date,
+  payments: ReportPayment[],
+  expenses: ReportExpense[],
+  maintenance: ReportMaintenance[]
+): FinancialSummary => {
+  const paid = payments.filter((payment) => payment.status === 'PAID' && inRange(payment.paidDate, start, end));
+  const periodExpenses = expenses.filter((expense) => inRange(expense.date, start, end));
+  const periodMaintenance = maintenance.filter((event) => inRange(event.completedDate, start, end));
+
+  const income = INCOME_TYPES.map((type) => ({
+    key: type as string,
+    amount: sumBy(paid.filter((payment) => payment.type === type), (payment) => payment.amount)
+  }));
+  const expensesByCategory = EXPENSE_CATEGORIES.map((category) => ({
+    key: category as string,
+    amount: sumBy(periodExpenses.filter((expense) => expense.category === category), (expense) => expense.amount)
+  }));
+
+  const totalIncome = sumBy(income, (entry) => entry.amount);
+  const unbookedMaintenance = sumBy(periodMaintenance.filter((event) => !event.booked), (event) => event.cost);
+  const totalExpenses = roundAmount(sumBy(expensesByCategory, (entry) => entry.amount) + unbookedMaintenance);
+
+  return {
+    income,
+    totalIncome,
+    depositsCollected: sumBy(paid.filter((payment) => payment.type === 'DEPOSIT'), (payment) => payment.amount),
+    outstandingReceivables: sumBy(payments, (payment) => outstandingAt(payment, end)),
+    expenses: expensesByCategory,
+    totalExpenses,
+    maintenanceCosts: sumBy(periodMaintenance, (event) => event.cost),
+    netOperatingIncome: roundAmount(totalIncome - totalExpenses)
+  };
+};
+
+/**
+ * Profit & loss and cash-flow figures for a set of properties between `from` and `to`, broken down into
+ * months or quarters and per property. Outstanding receivables are taken at the end of each bucket.
+ */
+export const buildFinancialReport = async (
+  prisma: PrismaClient,
+  propertyIds: string[],
+  from: Date,
+  to: Date,
+  groupBy: ReportGrouping = 'MONTH'
+): Promise<FinancialReport> => {
+  if (to < from) {
+    throw new Error('The report end date must be after its start date');
+  }
+
+  if (!REPORT_GROUPINGS.includes(groupBy)) {
+    throw new Error(`Invalid report grouping: ${groupBy}`);
+  }
+
+  const [properties, payments, expenses, maintenanceEvents] = await Promise.all([
+    prisma.property.findMany({
+      where: { id: { in: propertyIds } },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' }
+    }),
+    // Paid in the window, or still owed at some point in it
+    prisma.payment.findMany({
+      where: {
+        AND: [
+          paymentPropertyWhere(propertyIds),
+          { status: { not: 'CANCELLED' } },
+          {
+            OR: [
+              { paidDate: { gte: from, lte: to } },
+              { dueDate: { lte: to }, OR: [{ paidDate: null }, { paidDate: { gt: from } }] }
+            ]
+          }
+        ]
+      },
+      include: reportPaymentInclude
+    }),
+    prisma.expense.findMany({
+      where: { propertyId: { in: propertyIds }, date: { gte: from, lte: to } },
+      select: { amount: true, date: true, category: true, propertyId: true }
+    }),
+    prisma.maintenanceEvent.findMany({
+      where: {
+        status: 'COMPLETED',
+        cost: { gt: 0 },
+        completedDate: { gte: from, lte: to },
+        room: { propertyId: { in: propertyIds } }
+      },
+      select: {
+        cost: true,
+        completedDate: true,
+        room: { select: { propertyId: true } },
+        expense: { select: { id: true } }
+      }
+    })
+  ]);
+
+  const maintenance: ReportMaintenance[] = maintenanceEvents.map((event) => ({
+    cost: event.cost!,
+    completedDate: event.completedDate!,
+    propertyId: event.room.propertyId,
+    booked: !!event.expense
+  }));
+
+  return {
+    from,
+    to,
+    groupBy,
+    summary: summarize(from, to, payments, expenses, maintenance),
+    periods: buildReportPeriods(from, to, groupBy).map((period) => ({
+      ...period,
+      summary: summarize(period.start, period.end, payments, expenses, maintenance)
+    })),
+    properties: properties.map((property) => ({
+      propertyId: property.id,
+      propertyName: property.name,
+      summary: summarize(
+        from,
+        to,
+        payments.filter((payment) => paymentPropertyId(payment) === property.id),
+        expenses.filter((expense) => expense.propertyId === property.id),
+        maintenance.filter((event) => event.propertyId === property.id)
+      )
+    }))
+  };
+};
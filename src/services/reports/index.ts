@@ -0,0 +1,22 @@
+export {
+  REPORT_GROUPINGS,
+  buildReportPeriods,
+  paymentPropertyWhere,
+  reportPaymentInclude,
+  paymentPropertyId,
+  amountPaidAt,
+  balanceAt,
+  buildFinancialReport
+} from './financial';
+export type {
+  ReportGrouping,
+  ReportPeriod,
+  AmountByKey,
+  FinancialSummary,
+  FinancialReport,
+  ReportPayment
+} from './financial';
+export { contractEnd, occupiedSpans, buildOccupancyReport } from './occupancy';
+export type { OccupancySummary, OccupancyPeriod, OccupancyReport } from './occupancy';
+export { buildRentRoll, buildAgingReport } from './receivables';
+export type { RentRollEntry, RentRoll, AgingBuckets, AgingReport } from './receivables';
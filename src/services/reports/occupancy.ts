@@ -0,0 +1,200 @@
+import { Contract, PrismaClient } from '@prisma/client';
+import { overlapDays, roundAmount, startOfDay } from '../billing/period';
+import { buildReportPeriods, ReportGrouping, ReportPeriod, REPORT_GROUPINGS } from './financial';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface OccupancySummary {
+  roomCount: number;
+  roomDays: number;
+  occupiedRoomDays: number;
+  occupancyRate: number;
+  vacancyCount: number;
+  averageVacancyDays: number;
+  moveOuts: number;
+  turnoverRate: number;
+  lostRevenue: number;
+}
+
+export interface OccupancyPeriod extends ReportPeriod {
+  summary: OccupancySummary;
+}
+
+export interface OccupancyReport {
+  from: Date;
+  to: Date;
+  groupBy: ReportGrouping;
+  summary: OccupancySummary;
+  periods: OccupancyPeriod[];
+  properties: {
+    propertyId: string;
+    propertyName: string;
+    summary: OccupancySummary;
+    periods: OccupancyPeriod[];
+  }[];
+}
+
+// Days a room was let, inclusive of both ends; a null end is still running
+interface OccupiedSpan {
+  start: Date;
+  end: Date | null;
+}
+
+interface RoomHistory {
+  propertyId: string;
+  createdAt: Date;
+  price: number;
+  spans: OccupiedSpan[];
+}
+
+/**
+ * When a contract stopped occupying its room: the termination date for terminated contracts,
+ * otherwise the end date. Expired contracts without an end date are taken to end when they were last updated.
+ */
+export const contractEnd = (contract: Contract): Date | null => {
+  if (contract.status === 'TERMINATED') {
+    return contract.terminationDate || contract.endDate || contract.updatedAt;
+  }
+  return contract.endDate || (contract.status === 'EXPIRED' ? contract.updatedAt : null);
+};
+
+/**
+ * Merge a room's contracts into continuous occupied spans, so renewals and back-to-back
+ * contracts don't count as move-outs
+ */
+export const occupiedSpans = (contracts: Contract[], roomCreatedAt: Date): OccupiedSpan[] => {
+  const opened = startOfDay(roomCreatedAt);
+  const spans = contracts
+    .map((contract) => {
+      const start = startOfDay(contract.startDate || contract.createdAt);
+      const end = contractEnd(contract);
+      return { start: start < opened ? opened : start, end: end && startOfDay(end) };
+    })
+    .filter((span) => !span.end || span.end >= span.start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const merged: OccupiedSpan[] = [];
+  for (const span of spans) {
+    const last = merged[merged.length - 1];
+    if (last && (!last.end || span.start.getTime() <= last.end.getTime() + DAY)) {
+      last.end = !last.end || !span.end ? null : (span.end > last.end ? span.end : last.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+
+  return merged;
+};
+
+const gapDays = (previous: OccupiedSpan, next: OccupiedSpan) => {
+  return Math.round((next.start.getTime() - previous.end!.getTime()) / DAY) - 1;
+};
+
+/**
+ * Occupancy figures for a set of rooms over [start, end].
+ * Vacancies are the gaps between contracts that were filled in the window; move-outs are spans that ended
+ * in it without a following contract. Revenue lost to vacancy prices each vacant day at the room's monthly
+ * price spread over the year.
+ */
+const summarize = (rooms: RoomHistory[], start: Date, end: Date): OccupancySummary => {
+  let roomCount = 0;
+  let roomDays = 0;
+  let occupiedRoomDays = 0;
+  let lostRevenue = 0;
+  let moveOuts = 0;
+  const vacancies: number[] = [];
+
+  for (const room of rooms) {
+    const days = overlapDays(room.createdAt, null, start, end);
+    if (days === 0) continue;
+
+    const occupied = room.spans.reduce((total, span) => total + overlapDays(span.start, span.end, start, end), 0);
+
+    roomCount++;
+    roomDays += days;
+    occupiedRoomDays += occupied;
+    lostRevenue += (days - occupied) * room.price * 12 / 365;
+
+    room.spans.forEach((span, index) => {
+      const next = room.spans[index + 1];
+      if (span.end && span.end >= startOfDay(start) && span.end <= end) {
+        moveOuts++;
+      }
+      if (next && next.start >= startOfDay(start) && next.start <= end) {
+        vacancies.push(gapDays(span, next));
+      }
+    });
+  }
+
+  return {
+    roomCount,
+    roomDays,
+    occupiedRoomDays,
+    occupancyRate: roomDays ? roundAmount(occupiedRoomDays / roomDays) : 0,
+    vacancyCount: vacancies.length,
+    averageVacancyDays: vacancies.length
+      ? roundAmount(vacancies.reduce((total, days) => total + days, 0) / vacancies.length)
+      : 0,
+    moveOuts,
+    turnoverRate: roomCount ? roundAmount(moveOuts / roomCount) : 0,
+    lostRevenue: roundAmount(lostRevenue)
+  };
+};
+
+/**
+ * Historical occupancy for a set of properties, computed from contract date ranges rather than the
+ * current room status. The window stops at today, since later occupancy hasn't happened yet.
+ */
+export const buildOccupancyReport = async (
+  prisma: PrismaClient,
+  propertyIds: string[],
+  from: Date,
+  to: Date,
+  groupBy: ReportGrouping = 'MONTH',
+  now: Date = new Date()
+): Promise<OccupancyReport> => {
+  if (to < from) {
+    throw new Error('The report end date must be after its start date');
+  }
+
+  if (!REPORT_GROUPINGS.includes(groupBy)) {
+    throw new Error(`Invalid report grouping: ${groupBy}`);
+  }
+
+  const end = to > now ? now : to;
+  if (end < from) {
+    throw new Error('Occupancy can only be reported for past dates');
+  }
+
+  const properties = await prisma.property.findMany({
+    where: { id: { in: propertyIds } },
+    include: { rooms: { include: { contracts: true } } },
+    orderBy: { name: 'asc' }
+  });
+
+  const histories = properties.map((property) => ({
+    property,
+    rooms: property.rooms.map((room): RoomHistory => ({
+      propertyId: property.id,
+      createdAt: room.createdAt,
+      price: room.price,
+      spans: occupiedSpans(room.contracts, room.createdAt)
+    }))
+  }));
+  const allRooms = histories.flatMap((history) => history.rooms);
+  const periods = buildReportPeriods(from, end, groupBy);
+
+  return {
+    from,
+    to: end,
+    groupBy,
+    summary: summarize(allRooms, from, end),
+    periods: periods.map((period) => ({ ...period, summary: summarize(allRooms, period.start, period.end) })),
+    properties: histories.map(({ property, rooms }) => ({
+      propertyId: property.id,
+      propertyName: property.name,
+      summary: summarize(rooms, from, end),
+      periods: periods.map((period) => ({ ...period, summary: summarize(rooms, period.start, period.end) }))
+    }))
+  };
+};
@@ -0,0 +1,217 @@
+import { Contract, PrismaClient, Renter, Room } from '@prisma/client';
+import { contractHistoryIds } from '../contracts';
+import { daysOverdue } from '../billing/lateFees';
+import { roundAmount, startOfDay } from '../billing/period';
+import {
+  amountPaidAt,
+  balanceAt,
+  paymentPropertyId,
+  paymentPropertyWhere,
+  ReportPayment,
+  reportPaymentInclude
+} from './financial';
+import { contractEnd } from './occupancy';
+
+export interface RentRollEntry {
+  room: Room;
+  contract: Contract | null;
+  renters: Renter[];
+  monthlyAmount: number;
+  depositHeld: number;
+  balance: number;
+}
+
+export interface RentRoll {
+  propertyId: string;
+  propertyName: string;
+  asOf: Date;
+  entries: RentRollEntry[];
+  occupiedRooms: number;
+  vacantRooms: number;
+  totalMonthlyAmount: number;
+  totalDepositHeld: number;
+  totalBalance: number;
+}
+
+// Unpaid amounts by how many days past their due date they are
+export interface AgingBuckets {
+  current: number;
+  days1To30: number;
+  days31To60: number;
+  days61To90: number;
+  over90: number;
+  total: number;
+}
+
+export interface AgingReport {
+  asOf: Date;
+  totals: AgingBuckets;
+  properties: { propertyId: string; propertyName: string; buckets: AgingBuckets }[];
+  renters: { renterId: string; renterName: string; propertyId: string | null; buckets: AgingBuckets }[];
+}
+
+/**
+ * The contract letting a room at `asOf`, if any
+ */
+const contractAt = <T extends Contract>(contracts: T[], asOf: Date): T | null => {
+  return contracts
+    .filter((contract) => {
+      const start = contract.startDate || contract.createdAt;
+      const end = contractEnd(contract);
+      return start <= asOf && (!end || startOfDay(end) >= startOfDay(asOf));
+    })
+    .sort((a, b) => (b.startDate || b.createdAt).getTime() - (a.startDate || a.createdAt).getTime())[0] || null;
+};
+
+/**
+ * Every room of a property with the contract running at `asOf`, its renters and rent, the deposit
+ * collected and what is still owed. Renewals carry deposits and arrears over, so the contracts a
+ * contract renewed are included in its figures.
+ */
+export const buildRentRoll = async (prisma: PrismaClient, propertyId: string, asOf: Date = new Date()): Promise<RentRoll> => {
+  const property = await prisma.property.findUnique({
+    where: { id: propertyId },
+    include: {
+      rooms: {
+        include: { contracts: { include: { renters: true } } },
+        orderBy: [{ floor: 'asc' }, { number: 'asc' }]
+      }
+    }
+  });
+
+  if (!property) {
+    throw new Error('Property not found');
+  }
+
+  const entries: RentRollEntry[] = [];
+
+  for (const { contracts, ...room } of property.rooms) {
+    const current = contractAt(contracts, asOf);
+
+    if (!current) {
+      entries.push({ room, contract: null, renters: [], monthlyAmount: 0, depositHeld: 0, balance: 0 });
+      continue;
+    }
+
+    const { renters, ...contract } = current;
+    const payments: ReportPayment[] = await prisma.payment.findMany({
+      where: {
+        contractId: { in: await contractHistoryIds(prisma, contract.id) },
+        status: { not: 'CANCELLED' },
+        createdAt: { lte: asOf }
+      },
+      include: reportPaymentInclude
+    });
+
+    const deposits = payments.filter((payment) => payment.type === 'DEPOSIT');
+    const charges = payments.filter((payment) => payment.type !== 'DEPOSIT' && payment.dueDate <= asOf);
+
+    entries.push({
+      room,
+      contract,
+      renters,
+      monthlyAmount: contract.amount,
+      depositHeld: roundAmount(deposits.reduce((total, payment) => total + amountPaidAt(payment, asOf), 0)),
+      balance: roundAmount(charges.reduce((total, payment) => total + balanceAt(payment, asOf), 0))
+    });
+  }
+
+  const occupied = entries.filter((entry) => entry.contract);
+
+  return {
+    propertyId: property.id,
+    propertyName: property.name,
+    asOf,
+    entries,
+    occupiedRooms: occupied.length,
+    vacantRooms: entries.length - occupied.length,
+    totalMonthlyAmount: roundAmount(occupied.reduce((total, entry) => total + entry.monthlyAmount, 0)),
+    totalDepositHeld: roundAmount(entries.reduce((total, entry) => total + entry.depositHeld, 0)),
+    totalBalance: roundAmount(entries.reduce((total, entry) => total + entry.balance, 0))
+  };
+};
+
+const emptyBuckets = (): AgingBuckets => ({
+  current: 0,
+  days1To30: 0,
+  days31To60: 0,
+  days61To90: 0,
+  over90: 0,
+  total: 0
+});
+
+const addToBuckets = (buckets: AgingBuckets, amount: number, days: number) => {
+  const key: keyof AgingBuckets = days === 0 ? 'current'
+    : days <= 30 ? 'days1To30'
+    : days <= 60 ? 'days31To60'
+    : days <= 90 ? 'days61To90'
+    : 'over90';
+
+  buckets[key] = roundAmount(buckets[key] + amount);
+  buckets.total = roundAmount(buckets.total + amount);
+};
+
+/**
+ * Unpaid payments at `asOf`, bucketed by days past their due date, for the whole set of properties,
+ * per property and per renter. Payments billed but not yet due are `current`.
+ */
+export const buildAgingReport = async (
+  prisma: PrismaClient,
+  propertyIds: string[],
+  asOf: Date = new Date()
+): Promise<AgingReport> => {
+  const [properties, payments] = await Promise.all([
+    prisma.property.findMany({
+      where: { id: { in: propertyIds } },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' }
+    }),
+    prisma.payment.findMany({
+      where: {
+        AND: [
+          paymentPropertyWhere(propertyIds),
+          { status: { not: 'CANCELLED' } },
+          { createdAt: { lte: asOf } },
+          { OR: [{ paidDate: null }, { paidDate: { gt: asOf } }] }
+        ]
+      },
+      include: reportPaymentInclude,
+      orderBy: { dueDate: 'asc' }
+    })
+  ]);
+
+  const totals = emptyBuckets();
+  const byProperty = new Map(properties.map((property) => [property.id, emptyBuckets()]));
+  const byRenter = new Map<string, AgingReport['renters'][number]>();
+
+  for (const payment of payments) {
+    const balance = balanceAt(payment, asOf);
+    if (balance <= 0) continue;
+
+    const days = daysOverdue(payment.dueDate, asOf);
+    const propertyId = paymentPropertyId(payment) || null;
+
+    let renter = byRenter.get(payment.renterId);
+    if (!renter) {
+      renter = { renterId: payment.renterId, renterName: payment.renter.name, propertyId, buckets: emptyBuckets() };
+      byRenter.set(payment.renterId, renter);
+    }
+
+    addToBuckets(totals, balance, days);
+    addToBuckets(renter.buckets, balance, days);
+    if (propertyId && byProperty.has(propertyId)) {
+      addToBuckets(byProperty.get(propertyId)!, balance, days);
+    }
+  }
+
+  return {
+    asOf,
+    totals,
+    properties: properties.map((property) => ({
+      propertyId: property.id,
+      propertyName: property.name,
+      buckets: byProperty.get(property.id)!
+    })),
+    renters: Array.from(byRenter.values()).sort((a, b) => b.buckets.total - a.buckets.total)
+  };
+};
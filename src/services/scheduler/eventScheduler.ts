@@ -0,0 +1,75 @@
+import { Event, EventTarget, PrismaClient } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { computeNextRun } from './schedule';
+import { notifyEventTargets } from '../notifications';
+
+export type EventWithTargets = Event & { eventTargets: EventTarget[] };
+
+/**
+ * Deliver a fired event to its targets
+ */
+const deliverEvent = async (prisma: PrismaClient, event: EventWithTargets, firedAt: Date) => {
+  const result = await notifyEventTargets(prisma, event);
+
+  logger.info(`🔔 Event ${event.name} fired`, {
+    eventId: event.id,
+    eventType: event.eventType,
+    notifyBy: event.notifyBy,
+    targets: event.eventTargets.length,
+    ...result,
+    firedAt
+  });
+};
+
+/**
+ * Fire a single event: deliver it, then record lastRun, lastNotified and the next occurrence
+ */
+export const fireEvent = async (prisma: PrismaClient, event: EventWithTargets, firedAt: Date = new Date()) => {
+  await deliverEvent(prisma, event, firedAt);
+
+  const nextRun = computeNextRun(event, firedAt);
+
+  const [updated] = await prisma.$transaction([
+    prisma.event.update({
+      where: { id: event.id },
+      data: {
+        lastRun: firedAt,
+        nextRun,
+        updatedAt: new Date()
+      },
+      include: { eventTargets: true }
+    }),
+    prisma.eventTarget.updateMany({
+      where: { eventId: event.id },
+      data: { lastNotified: firedAt }
+    })
+  ]);
+
+  return updated;
+};
+
+/**
+ * Fire every active event whose nextRun is due
+ */
+export const dispatchDueEvents = async (prisma: PrismaClient, now: Date = new Date()) => {
+  const dueEvents = await prisma.event.findMany({
+    where: {
+      active: true,
+      nextRun: { lte: now }
+    },
+    include: { eventTargets: true },
+    orderBy: { nextRun: 'asc' }
+  });
+
+  let fired = 0;
+  for (const event of dueEvents) {
+    try {
+      await fireEvent(prisma, event, now);
+      fired++;
+    } catch (error: any) {
+      logger.error(`❌ Event ${event.id} failed to fire`, { message: error?.message || 'Unknown error' });
+    }
+  }
+
+  return { due: dueEvents.length, fired };
+};
@@ -0,0 +1,83 @@
+import { prisma } from '../../graphql/context';
+import { registerJob, startJobs, stopJobs } from './jobQueue';
+import { dispatchDueEvents } from './eventScheduler';
+import { retryFailedDeliveries } from '../notifications';
+import { formatPeriod, generateRentInvoices, generateServiceCharges, processOverduePayments } from '../billing';
+import { activateDueContracts, processContractExpiry } from '../contracts';
+import { scheduleDocumentExpiryNotices } from '../documents';
+import { processExportJobs } from '../exports';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Register the application's recurring jobs and start running them.
+ * Set SCHEDULER_ENABLED=false to run an instance without background jobs.
+ */
+export const startScheduler = async () => {
+  if (process.env.SCHEDULER_ENABLED === 'false') {
+    return;
+  }
+
+  registerJob({
+    name: 'dispatch-events',
+    intervalMs: Number(process.env.EVENT_DISPATCH_INTERVAL_MS) || MINUTE,
+    handler: () => dispatchDueEvents(prisma)
+  });
+
+  registerJob({
+    name: 'retry-notifications',
+    intervalMs: 5 * MINUTE,
+    handler: () => retryFailedDeliveries(prisma)
+  });
+
+  // Invoice generation is idempotent, so running it several times a day is safe
+  registerJob({
+    name: 'generate-rent-invoices',
+    intervalMs: 6 * HOUR,
+    handler: () => generateRentInvoices(prisma, { period: formatPeriod(new Date()) })
+  });
+
+  registerJob({
+    name: 'generate-service-charges',
+    intervalMs: 6 * HOUR,
+    handler: () => generateServiceCharges(prisma, { period: formatPeriod(new Date()) })
+  });
+
+  registerJob({
+    name: 'process-overdue-payments',
+    intervalMs: HOUR,
+    handler: () => processOverduePayments(prisma)
+  });
+
+  registerJob({
+    name: 'activate-contracts',
+    intervalMs: HOUR,
+    handler: () => activateDueContracts(prisma)
+  });
+
+  registerJob({
+    name: 'process-contract-expiry',
+    intervalMs: HOUR,
+    handler: () => processContractExpiry(prisma)
+  });
+
+  registerJob({
+    name: 'document-expiry-reminders',
+    intervalMs: HOUR,
+    handler: () => scheduleDocumentExpiryNotices(prisma)
+  });
+
+  registerJob({
+    name: 'process-export-jobs',
+    intervalMs: MINUTE,
+    handler: () => processExportJobs(prisma)
+  });
+
+  await startJobs();
+};
+
+export const stopScheduler = stopJobs;
+
+export { computeNextRun, validateSchedule } from './schedule';
+export { fireEvent, dispatchDueEvents } from './eventScheduler';
@@ -0,0 +1,82 @@
+import Queue from 'bull';
+import { logger } from '../../utils/logger';
+
+/**
+ * A recurring background job
+ */
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  handler: () => Promise<unknown>;
+}
+
+const jobs: ScheduledJob[] = [];
+const timers: NodeJS.Timeout[] = [];
+let queue: Queue.Queue | null = null;
+
+/**
+ * Register a recurring job. Jobs must be registered before startJobs() is called.
+ */
+export const registerJob = (job: ScheduledJob) => {
+  if (jobs.some((existing) => existing.name === job.name)) {
+    throw new Error(`Job ${job.name} is already registered`);
+  }
+  jobs.push(job);
+};
+
+/**
+ * Run a job and log its outcome without letting errors escape
+ */
+const runJob = async (job: ScheduledJob) => {
+  try {
+    const result = await job.handler();
+    logger.debug(`⏱️ Job ${job.name} finished`, { result });
+  } catch (error: any) {
+    logger.error(`❌ Job ${job.name} failed`, { message: error?.message || 'Unknown error' });
+  }
+};
+
+/**
+ * Start all registered jobs.
+ * Uses Bull repeatable jobs when REDIS_URL is set, otherwise falls back to in-process timers.
+ */
+export const startJobs = async () => {
+  const redisUrl = process.env.REDIS_URL;
+
+  if (redisUrl) {
+    queue = new Queue('scheduler', redisUrl);
+
+    for (const job of jobs) {
+      queue.process(job.name, () => runJob(job));
+      await queue.add(job.name, {}, {
+        repeat: { every: job.intervalMs },
+        jobId: job.name,
+        removeOnComplete: true,
+        removeOnFail: true
+      });
+    }
+
+    logger.info(`Scheduler started with Bull (${jobs.length} jobs)`);
+    return;
+  }
+
+  for (const job of jobs) {
+    timers.push(setInterval(() => runJob(job), job.intervalMs));
+  }
+
+  logger.info(`Scheduler started in-process (${jobs.length} jobs)`);
+};
+
+/**
+ * Stop all running jobs
+ */
+export const stopJobs = async () => {
+  while (timers.length > 0) {
+    clearInterval(timers.pop());
+  }
+
+  if (queue) {
+    await queue.close();
+    queue = null;
+  }
+};
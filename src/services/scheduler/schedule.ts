@@ -0,0 +1,115 @@
+import { EventType } from '@prisma/client';
+
+// Fields of an Event that drive its schedule
+export interface EventSchedule {
+  eventType: EventType;
+  scheduleDate: Date | null;
+  scheduleDay: number | null;
+  scheduleTime: string | null;
+}
+
+const DEFAULT_TIME = '09:00';
+
+/**
+ * Parse an "HH:mm" string into hours and minutes
+ */
+export const parseScheduleTime = (time: string | null): { hours: number; minutes: number } => {
+  const match = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(time || DEFAULT_TIME);
+  if (!match) {
+    throw new Error('Schedule time must use the HH:mm format');
+  }
+  return { hours: Number(match[1]), minutes: Number(match[2]) };
+};
+
+/**
+ * Build a date for the given month, clamping the day to the length of that month
+ */
+const buildDate = (year: number, month: number, day: number, time: string | null): Date => {
+  const { hours, minutes } = parseScheduleTime(time);
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, Math.min(day, daysInMonth), hours, minutes, 0, 0);
+};
+
+/**
+ * Find the first occurrence after `from`, stepping `monthStep` months from the anchor month
+ */
+const nextMonthlyOccurrence = (
+  from: Date,
+  anchorMonth: number,
+  monthStep: number,
+  day: number,
+  time: string | null
+): Date => {
+  const offset = (((from.getMonth() - anchorMonth) % monthStep) + monthStep) % monthStep;
+  const year = from.getFullYear();
+  let month = from.getMonth() - offset;
+
+  let candidate = buildDate(year, month, day, time);
+  while (candidate <= from) {
+    month += monthStep;
+    candidate = buildDate(year, month, day, time);
+  }
+  return candidate;
+};
+
+/**
+ * Validate the schedule fields required by each event type
+ */
+export const validateSchedule = (schedule: EventSchedule) => {
+  parseScheduleTime(schedule.scheduleTime);
+
+  if (schedule.scheduleDay !== null && (schedule.scheduleDay < 1 || schedule.scheduleDay > 31)) {
+    throw new Error('Schedule day must be between 1 and 31');
+  }
+
+  switch (schedule.eventType) {
+    case 'MONTHLY':
+    case 'QUARTERLY':
+      if (!schedule.scheduleDay && !schedule.scheduleDate) {
+        throw new Error(`${schedule.eventType} events require a schedule day or schedule date`);
+      }
+      break;
+    default:
+      if (!schedule.scheduleDate) {
+        throw new Error(`${schedule.eventType} events require a schedule date`);
+      }
+  }
+};
+
+/**
+ * Compute the next time an event should fire after `from`.
+ * Returns null when the event has no further occurrences.
+ *
+ * ONE_TIME, CONTRACT_EXPIRY, PAYMENT_DUE and DOCUMENT_EXPIRY events fire once at scheduleDate.
+ * MONTHLY events fire on scheduleDay of every month, QUARTERLY every third month
+ * counted from scheduleDate (or January), ANNUALLY on the month and day of scheduleDate.
+ */
+export const computeNextRun = (schedule: EventSchedule, from: Date = new Date()): Date | null => {
+  const { eventType, scheduleDate, scheduleDay, scheduleTime } = schedule;
+
+  switch (eventType) {
+    case 'MONTHLY': {
+      const day = scheduleDay || scheduleDate!.getDate();
+      return nextMonthlyOccurrence(from, 0, 1, day, scheduleTime);
+    }
+
+    case 'QUARTERLY': {
+      const day = scheduleDay || scheduleDate!.getDate();
+      const anchorMonth = scheduleDate ? scheduleDate.getMonth() : 0;
+      return nextMonthlyOccurrence(from, anchorMonth, 3, day, scheduleTime);
+    }
+
+    case 'ANNUALLY': {
+      const day = scheduleDay || scheduleDate!.getDate();
+      return nextMonthlyOccurrence(from, scheduleDate!.getMonth(), 12, day, scheduleTime);
+    }
+
+    default: {
+      if (!scheduleDate) return null;
+      const runAt = scheduleTime
+        ? buildDate(scheduleDate.getFullYear(), scheduleDate.getMonth(), scheduleDate.getDate(), scheduleTime)
+        : scheduleDate;
+      return runAt > from ? runAt : null;
+    }
+  }
+};
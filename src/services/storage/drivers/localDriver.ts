@@ -0,0 +1,64 @@
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { StorageDriver } from '../types';
+
+/**
+ * Driver that keeps files on the local disk under a root directory (UPLOAD_DIR)
+ */
+export const createLocalDriver = (rootDir: string): StorageDriver => {
+  const root = path.resolve(rootDir);
+
+  // Map a key to a file under the root, refusing keys that escape it
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    name: 'local',
+
+    put: async (key, body) => {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, body);
+    },
+
+    putStream: async (key, body) => {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await pipeline(body, createWriteStream(filePath));
+    },
+
+    get: async (key) => {
+      try {
+        return await fs.readFile(resolveKey(key));
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          throw new Error('File not found');
+        }
+        throw error;
+      }
+    },
+
+    getStream: async (key) => {
+      const filePath = resolveKey(key);
+      try {
+        await fs.access(filePath);
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          throw new Error('File not found');
+        }
+        throw error;
+      }
+      return createReadStream(filePath);
+    },
+
+    delete: async (key) => {
+      await fs.rm(resolveKey(key), { force: true });
+    }
+  };
+};
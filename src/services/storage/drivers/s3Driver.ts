@@ -0,0 +1,81 @@
+import { DeleteObjectCommand, GetObjectCommand, NoSuchKey, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import { StorageDriver } from '../types';
+
+export interface S3DriverOptions {
+  bucket: string;
+  region?: string;
+  // Set for S3-compatible stores, e.g. a local MinIO at http://localhost:9000
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean;
+}
+
+/**
+ * Driver that keeps files in an S3 bucket or any S3-compatible object store
+ */
+export const createS3Driver = (options: S3DriverOptions): StorageDriver => {
+  const client = new S3Client({
+    region: options.region || 'us-east-1',
+    endpoint: options.endpoint,
+    forcePathStyle: options.forcePathStyle,
+    credentials:
+      options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined
+  });
+
+  return {
+    name: 's3',
+
+    put: async (key, body, contentType) => {
+      await client.send(new PutObjectCommand({ Bucket: options.bucket, Key: key, Body: body, ContentType: contentType }));
+    },
+
+    putStream: async (key, body, size, contentType) => {
+      await client.send(new PutObjectCommand({
+        Bucket: options.bucket,
+        Key: key,
+        Body: body,
+        ContentLength: size,
+        ContentType: contentType
+      }));
+    },
+
+    get: async (key) => {
+      try {
+        const object = await client.send(new GetObjectCommand({ Bucket: options.bucket, Key: key }));
+        if (!object.Body) {
+          throw new Error('File not found');
+        }
+        return Buffer.from(await object.Body.transformToByteArray());
+      } catch (error) {
+        if (error instanceof NoSuchKey) {
+          throw new Error('File not found');
+        }
+        throw error;
+      }
+    },
+
+    getStream: async (key) => {
+      try {
+        const object = await client.send(new GetObjectCommand({ Bucket: options.bucket, Key: key }));
+        if (!object.Body) {
+          throw new Error('File not found');
+        }
+        // The SDK returns a Node stream when running under Node
+        return object.Body as Readable;
+      } catch (error) {
+        if (error instanceof NoSuchKey) {
+          throw new Error('File not found');
+        }
+        throw error;
+      }
+    },
+
+    delete: async (key) => {
+      await client.send(new DeleteObjectCommand({ Bucket: options.bucket, Key: key }));
+    }
+  };
+};
@@ -0,0 +1,139 @@
+import { Document, PrismaClient } from '@prisma/client';
+import { nanoid } from 'nanoid';
+import sharp from 'sharp';
+import { logger } from '../../utils/logger';
+import { getStorage } from './storage';
+import { StoredFile, UploadedFile } from './types';
+
+export const MAX_FILE_SIZE = Number(process.env.MAX_FILE_SIZE) || 5 * 1024 * 1024;
+
+// File types accepted for upload, with the extension they are stored under
+const FILE_EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp'
+};
+
+export const ALLOWED_MIME_TYPES = Object.keys(FILE_EXTENSIONS);
+
+const THUMBNAIL_SIZE = 320;
+
+/**
+ * Work out a file's type from its first bytes, so a renamed file cannot pass as another type
+ */
+export const detectMimeType = (buffer: Buffer): string | null => {
+  if (buffer.subarray(0, 5).toString('latin1') === '%PDF-') return 'application/pdf';
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'image/jpeg';
+  if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (buffer.subarray(0, 4).toString('latin1') === 'RIFF' && buffer.subarray(8, 12).toString('latin1') === 'WEBP') {
+    return 'image/webp';
+  }
+  return null;
+};
+
+export const isImage = (mimeType: string) => mimeType.startsWith('image/');
+
+// Documents can also point at a file hosted elsewhere instead of one in storage
+export const isExternalPath = (path: string) => /^https?:\/\//i.test(path);
+
+/**
+ * Content type of a stored file, from its extension
+ */
+export const mimeTypeFromPath = (path: string) => {
+  const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+  const mimeType = Object.keys(FILE_EXTENSIONS).find((type) => FILE_EXTENSIONS[type] === extension);
+  return mimeType || 'application/octet-stream';
+};
+
+/**
+ * Reject empty or oversized files and types we do not accept
+ */
+export const validateUpload = (file: UploadedFile) => {
+  if (file.size === 0) {
+    throw new Error('File is empty');
+  }
+
+  if (file.size > MAX_FILE_SIZE) {
+    throw new Error(`File is larger than the ${(MAX_FILE_SIZE / 1024 / 1024).toFixed(1)} MB limit`);
+  }
+
+  if (!ALLOWED_MIME_TYPES.includes(file.mimetype)) {
+    throw new Error(`Unsupported file type: ${file.mimetype}`);
+  }
+
+  if (detectMimeType(file.buffer) !== file.mimetype) {
+    throw new Error('File content does not match its type');
+  }
+};
+
+/**
+ * Scale an image down to fit a small square, as WebP
+ */
+export const createThumbnail = (image: Buffer): Promise<Buffer> => {
+  return sharp(image)
+    .rotate()
+    .resize({ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer();
+};
+
+/**
+ * Validate an uploaded file and save it under the given folder, with a thumbnail for images
+ * unless thumbnails are turned off
+ */
+export const storeUploadedFile = async (
+  file: UploadedFile,
+  folder: string,
+  options: { thumbnail?: boolean } = {}
+): Promise<StoredFile> => {
+  validateUpload(file);
+
+  const storage = getStorage();
+  const id = nanoid();
+  const path = `${folder}/${id}.${FILE_EXTENSIONS[file.mimetype]}`;
+
+  await storage.put(path, file.buffer, file.mimetype);
+
+  let thumbnailPath: string | null = null;
+  if (isImage(file.mimetype) && options.thumbnail !== false) {
+    try {
+      thumbnailPath = `${folder}/thumbnails/${id}.webp`;
+      await storage.put(thumbnailPath, await createThumbnail(file.buffer), 'image/webp');
+    } catch (error) {
+      // The original is still usable without a preview
+      logger.warn('Could not create thumbnail', { path, error: (error as Error).message });
+      thumbnailPath = null;
+    }
+  }
+
+  return { path, mimeType: file.mimetype, size: file.size, thumbnailPath };
+};
+
+/**
+ * Delete a document's stored files unless another document still points at them
+ * (generated contracts share one file between all renters)
+ */
+export const removeDocumentFiles = async (prisma: PrismaClient, document: Document) => {
+  if (isExternalPath(document.path)) {
+    return;
+  }
+
+  const shared = await prisma.document.count({
+    where: { path: document.path, id: { not: document.id } }
+  });
+
+  if (shared > 0) {
+    return;
+  }
+
+  const storage = getStorage();
+  try {
+    await storage.delete(document.path);
+    if (document.thumbnailPath) {
+      await storage.delete(document.thumbnailPath);
+    }
+  } catch (error) {
+    logger.warn('Could not delete stored file', { path: document.path, error: (error as Error).message });
+  }
+};
@@ -0,0 +1,84 @@
+import { nanoid } from 'nanoid';
+import sharp from 'sharp';
+import { isImage, validateUpload } from './files';
+import { getStorage } from './storage';
+import { UploadedFile } from './types';
+
+// Longest side, in pixels, of each resized variant
+export const IMAGE_VARIANT_SIZES = {
+  medium: 1024,
+  thumbnail: 320
+} as const;
+
+const ORIGINAL_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp'
+};
+
+export interface StoredImage {
+  originalPath: string;
+  mediumPath: string;
+  thumbnailPath: string;
+  mimeType: string;
+  size: number;
+  width: number;
+  height: number;
+}
+
+const resize = (image: Buffer, size: number) => {
+  return sharp(image)
+    .rotate()
+    .resize({ width: size, height: size, fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer();
+};
+
+/**
+ * Validate an uploaded image and store the original along with medium and thumbnail
+ * WebP variants under the given folder
+ */
+export const storeImageVariants = async (file: UploadedFile, folder: string): Promise<StoredImage> => {
+  validateUpload(file);
+
+  if (!isImage(file.mimetype)) {
+    throw new Error('Only JPEG, PNG and WebP images are accepted');
+  }
+
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(file.buffer).metadata();
+  } catch {
+    throw new Error('File is not a readable image');
+  }
+
+  // EXIF orientations 5-8 are rotated by 90 degrees, so width and height swap
+  const rotated = (metadata.orientation || 1) >= 5;
+  const width = (rotated ? metadata.height : metadata.width) || 0;
+  const height = (rotated ? metadata.width : metadata.height) || 0;
+
+  const storage = getStorage();
+  const id = nanoid();
+  const originalPath = `${folder}/${id}.${ORIGINAL_EXTENSIONS[file.mimetype]}`;
+  const mediumPath = `${folder}/${id}-medium.webp`;
+  const thumbnailPath = `${folder}/${id}-thumbnail.webp`;
+
+  const [medium, thumbnail] = await Promise.all([
+    resize(file.buffer, IMAGE_VARIANT_SIZES.medium),
+    resize(file.buffer, IMAGE_VARIANT_SIZES.thumbnail)
+  ]);
+
+  await storage.put(originalPath, file.buffer, file.mimetype);
+  await storage.put(mediumPath, medium, 'image/webp');
+  await storage.put(thumbnailPath, thumbnail, 'image/webp');
+
+  return { originalPath, mediumPath, thumbnailPath, mimeType: file.mimetype, size: file.size, width, height };
+};
+
+/**
+ * Delete every stored variant of an image
+ */
+export const removeImageVariants = async (image: Pick<StoredImage, 'originalPath' | 'mediumPath' | 'thumbnailPath'>) => {
+  const storage = getStorage();
+  await Promise.all([image.originalPath, image.mediumPath, image.thumbnailPath].map((path) => storage.delete(path)));
+};
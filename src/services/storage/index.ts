@@ -0,0 +1,20 @@
+export * from './types';
+export { getStorage, setStorage } from './storage';
+export { createLocalDriver } from './drivers/localDriver';
+export { createS3Driver } from './drivers/s3Driver';
+export type { S3DriverOptions } from './drivers/s3Driver';
+export {
+  MAX_FILE_SIZE,
+  ALLOWED_MIME_TYPES,
+  detectMimeType,
+  isImage,
+  isExternalPath,
+  mimeTypeFromPath,
+  validateUpload,
+  createThumbnail,
+  storeUploadedFile,
+  removeDocumentFiles
+} from './files';
+export { IMAGE_VARIANT_SIZES, storeImageVariants, removeImageVariants } from './images';
+export type { StoredImage } from './images';
+export { FILE_URL_TTL_SECONDS, FILE_ROUTE, assertFileUrlSecret, createSignedFileUrl, verifySignedFileUrl } from './signedUrls';
@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+
+// How long a download link stays valid
+export const FILE_URL_TTL_SECONDS = Number(process.env.FILE_URL_TTL_SECONDS) || 300;
+
+// Path the download route is mounted on
+export const FILE_ROUTE = '/files';
+
+const getSecret = () => {
+  const secret = process.env.FILE_URL_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('FILE_URL_SECRET (or JWT_SECRET) must be set to sign file download links');
+  }
+  return secret;
+};
+
+/**
+ * Check a signing secret is configured, so the server refuses to start rather than hand out forgeable links
+ */
+export const assertFileUrlSecret = () => {
+  getSecret();
+};
+
+const sign = (key: string, expires: number) => {
+  return crypto.createHmac('sha256', getSecret()).update(`${key}:${expires}`).digest('hex');
+};
+
+/**
+ * Build a download link for a stored file that expires after the given number of seconds.
+ * Callers must check the user may read the file before handing out the link.
+ */
+export const createSignedFileUrl = (key: string, ttlSeconds: number = FILE_URL_TTL_SECONDS, now: Date = new Date()) => {
+  const expires = Math.floor(now.getTime() / 1000) + ttlSeconds;
+  const query = new URLSearchParams({ expires: String(expires), signature: sign(key, expires) });
+  const path = key.split('/').map(encodeURIComponent).join('/');
+
+  return `${process.env.PUBLIC_API_URL || ''}${FILE_ROUTE}/${path}?${query}`;
+};
+
+/**
+ * Check a download link's signature and that it has not expired
+ */
+export const verifySignedFileUrl = (key: string, expires: string, signature: string, now: Date = new Date()) => {
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || expiresAt < now.getTime() / 1000) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(key, expiresAt));
+  const actual = Buffer.from(signature);
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
@@ -0,0 +1,48 @@
+import { logger } from '../../utils/logger';
+import { createLocalDriver } from './drivers/localDriver';
+import { createS3Driver } from './drivers/s3Driver';
+import { StorageDriver } from './types';
+
+let driver: StorageDriver | null = null;
+
+/**
+ * Build the driver selected by STORAGE_DRIVER: "local" (default, files under UPLOAD_DIR)
+ * or "s3" (S3_BUCKET, plus S3_ENDPOINT for S3-compatible stores such as MinIO)
+ */
+const createDriverFromEnv = (): StorageDriver => {
+  const driverName = process.env.STORAGE_DRIVER || 'local';
+
+  if (driverName === 'local') {
+    return createLocalDriver(process.env.UPLOAD_DIR || 'uploads');
+  }
+
+  if (driverName === 's3') {
+    if (!process.env.S3_BUCKET) {
+      throw new Error('S3_BUCKET must be set to use the s3 storage driver');
+    }
+
+    return createS3Driver({
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION,
+      endpoint: process.env.S3_ENDPOINT,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true'
+    });
+  }
+
+  throw new Error(`Unknown storage driver: ${driverName}`);
+};
+
+export const getStorage = (): StorageDriver => {
+  if (!driver) {
+    driver = createDriverFromEnv();
+    logger.info('🗄️ File storage ready', { driver: driver.name });
+  }
+  return driver;
+};
+
+// Swap the storage driver, e.g. for a local stand-in
+export const setStorage = (storageDriver: StorageDriver) => {
+  driver = storageDriver;
+};
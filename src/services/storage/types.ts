@@ -0,0 +1,32 @@
+import { Readable } from 'stream';
+
+/**
+ * Where uploaded and generated files live. Keys are relative, slash-separated paths such as
+ * "documents/abc.pdf" and are what gets stored on records like Document.path.
+ */
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  // Store a file of known size from a stream, for files too large to hold in memory
+  putStream(key: string, body: Readable, size: number, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  // Read a file as a stream, so downloads don't have to be held in memory
+  getStream(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+// A file received from a multipart upload
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+// Where a stored file ended up, ready to be saved on a Document
+export interface StoredFile {
+  path: string;
+  mimeType: string;
+  size: number;
+  thumbnailPath: string | null;
+}
@@ -0,0 +1,78 @@
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, CRLF or LF line endings) into rows of fields.
+ * A UTF-8 byte order mark and blank lines are skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('CSV has an unterminated quoted field');
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+/**
+ * Parse CSV text whose first row is a header into one record per row, keyed by trimmed header names.
+ * Values are trimmed; missing trailing fields are empty strings.
+ */
+export const parseCsvRecords = (text: string) => {
+  const [header = [], ...rows] = parseCsv(text);
+  const headers = header.map((name) => name.trim());
+
+  const records = rows.map((row) =>
+    Object.fromEntries(headers.map((name, index) => [name, (row[index] || '').trim()]))
+  );
+
+  return { headers, records };
+};
+
+/**
+ * Quote a value for a CSV field when it contains a comma, quote or line break
+ */
+export const escapeCsvValue = (text: string): string => {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
@@ -0,0 +1,169 @@
+import { computeDepositSettlement } from '../src/services/billing/deposits';
+
+// Just enough of the Prisma client to work out a settlement, backed by arrays
+const createFakePrisma = (contracts: any[], payments: any[], maintenanceEvents: any[] = []) => {
+  const findContract = ({ where }: any) => contracts.find((contract) =>
+    where.id !== undefined ? contract.id === where.id : contract.previousContractId === where.previousContractId
+  ) || null;
+
+  return {
+    contract: {
+      findUnique: async (args: any) => findContract(args),
+      findUniqueOrThrow: async (args: any) => findContract(args)
+    },
+    payment: {
+      findMany: async ({ where }: any) => payments
+        .filter((payment) => where.contractId.in.includes(payment.contractId))
+        .map((payment) => ({ allocations: [], ...payment }))
+        .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime())
+    },
+    maintenanceEvent: {
+      findMany: async ({ where }: any) => maintenanceEvents.filter((event) =>
+        event.roomId === where.roomId &&
+        event.status === where.status &&
+        event.chargeToRenter === where.chargeToRenter &&
+        event.cost > where.cost.gt &&
+        event.createdAt >= where.createdAt.gte &&
+        event.createdAt <= where.createdAt.lte
+      )
+    }
+  } as any;
+};
+
+const contract = (overrides: any = {}) => ({
+  id: 'contract-1',
+  roomId: 'room-1',
+  securityDeposit: 1000,
+  startDate: new Date('2025-01-01'),
+  endDate: new Date('2025-12-31'),
+  terminationDate: null,
+  previousContractId: null,
+  createdAt: new Date('2024-12-15'),
+  ...overrides
+});
+
+const payment = (id: string, type: string, amount: number, dueDate: string, overrides: any = {}) => ({
+  id,
+  contractId: 'contract-1',
+  type,
+  amount,
+  status: 'PENDING',
+  dueDate: new Date(dueDate),
+  description: null,
+  ...overrides
+});
+
+const damage = (id: string, cost: number, status: string, createdAt: string) => ({
+  id,
+  roomId: 'room-1',
+  title: `Repair ${id}`,
+  status,
+  chargeToRenter: true,
+  cost,
+  createdAt: new Date(createdAt)
+});
+
+describe('computeDepositSettlement', () => {
+  it('deducts unpaid payments and completed damage from the deposit held', async () => {
+    const prisma = createFakePrisma(
+      [contract({ terminationDate: new Date('2025-06-30') })],
+      [
+        payment('deposit', 'DEPOSIT', 1000, '2025-01-01', { status: 'PAID' }),
+        payment('may-rent', 'RENT', 500, '2025-05-01', { status: 'PAID' }),
+        payment('june-rent', 'RENT', 500, '2025-06-01', { allocations: [{ amount: 200 }] })
+      ],
+      [damage('window', 150, 'COMPLETED', '2025-03-10')]
+    );
+
+    const breakdown = await computeDepositSettlement(prisma, 'contract-1');
+
+    expect(breakdown.depositHeld).toBe(1000);
+    expect(breakdown.deductions).toEqual([
+      { type: 'UNPAID_PAYMENT', description: 'Unpaid rent payment', amount: 300, paymentId: 'june-rent' },
+      { type: 'DAMAGE', description: 'Repair window', amount: 150, maintenanceEventId: 'window' }
+    ]);
+    expect(breakdown).toMatchObject({ totalDeductions: 450, refundDue: 550, amountOwed: 0, settled: false });
+  });
+
+  it('leaves out damage that has not been repaired yet', async () => {
+    const prisma = createFakePrisma(
+      [contract()],
+      [payment('deposit', 'DEPOSIT', 1000, '2025-01-01', { status: 'PAID' })],
+      [damage('door', 200, 'IN_PROGRESS', '2025-03-10'), damage('sink', 80, 'PENDING', '2025-04-02')]
+    );
+
+    const breakdown = await computeDepositSettlement(prisma, 'contract-1', { asOf: new Date('2025-06-30') });
+
+    expect(breakdown.deductions).toEqual([]);
+    expect(breakdown.refundDue).toBe(1000);
+  });
+
+  it('leaves out payments that fall due after the tenancy ends', async () => {
+    const prisma = createFakePrisma(
+      [contract({ terminationDate: new Date('2025-06-15') })],
+      [
+        payment('deposit', 'DEPOSIT', 1000, '2025-01-01', { status: 'PAID' }),
+        payment('june-rent', 'RENT', 500, '2025-06-01'),
+        payment('july-rent', 'RENT', 500, '2025-07-01')
+      ]
+    );
+
+    const breakdown = await computeDepositSettlement(prisma, 'contract-1');
+
+    expect(breakdown.deductions.map((deduction) => deduction.paymentId)).toEqual(['june-rent']);
+    expect(breakdown.refundDue).toBe(500);
+  });
+
+  it('counts only what was collected of the deposit and reports what is still owed', async () => {
+    const prisma = createFakePrisma(
+      [contract()],
+      [
+        payment('deposit', 'DEPOSIT', 1000, '2025-01-01', { allocations: [{ amount: 400 }] }),
+        payment('may-rent', 'RENT', 500, '2025-05-01', { status: 'OVERDUE' })
+      ]
+    );
+
+    const breakdown = await computeDepositSettlement(prisma, 'contract-1', {
+      asOf: new Date('2025-06-30'),
+      extraDeductions: [{ description: 'Cleaning', amount: 60 }],
+      notes: 'Moved out early'
+    });
+
+    expect(breakdown).toMatchObject({
+      depositHeld: 400,
+      totalDeductions: 560,
+      refundDue: 0,
+      amountOwed: 160,
+      notes: 'Moved out early'
+    });
+    expect(breakdown.deductions[1]).toEqual({ type: 'OTHER', description: 'Cleaning', amount: 60 });
+  });
+
+  it('carries the deposit and unpaid payments over from the contracts a renewal replaced', async () => {
+    const prisma = createFakePrisma(
+      [
+        contract({ id: 'original', endDate: new Date('2024-12-31'), startDate: new Date('2024-01-01') }),
+        contract({ previousContractId: 'original', terminationDate: new Date('2025-06-30') })
+      ],
+      [
+        payment('deposit', 'DEPOSIT', 1000, '2024-01-01', { contractId: 'original', status: 'PAID' }),
+        payment('december-rent', 'RENT', 450, '2024-12-01', { contractId: 'original' })
+      ],
+      [damage('floor', 120, 'COMPLETED', '2024-06-01')]
+    );
+
+    const breakdown = await computeDepositSettlement(prisma, 'contract-1');
+
+    expect(breakdown.depositHeld).toBe(1000);
+    expect(breakdown.deductions.map((deduction) => deduction.amount)).toEqual([450, 120]);
+    expect(breakdown.refundDue).toBe(430);
+  });
+
+  it('rejects manual deductions that are not positive', async () => {
+    const prisma = createFakePrisma([contract()], []);
+
+    await expect(computeDepositSettlement(prisma, 'contract-1', {
+      extraDeductions: [{ description: 'Cleaning', amount: -10 }]
+    })).rejects.toThrow('Deduction amounts must be greater than zero');
+  });
+});
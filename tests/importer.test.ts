@@ -0,0 +1,114 @@
+import { importCsv } from '../src/services/imports/importer';
+
+const manager = { id: 'manager-1', role: 'PROPERTY_MANAGER' };
+
+// A Prisma client holding properties in memory. Transactions work on a copy that is only kept
+// when they succeed, so a rolled back import leaves the properties as they were.
+const createFakePrisma = (initial: any[] = []) => {
+  const db = { properties: initial };
+
+  const clientFor = (properties: any[]) => ({
+    property: {
+      findMany: async ({ where }: any) => properties.filter((property) =>
+        property.name === where.name && (!where.userId || property.userId === where.userId)
+      ),
+      create: async ({ data }: any) => {
+        properties.push(data);
+        return data;
+      },
+      update: async ({ where, data }: any) => {
+        const property = properties.find((candidate) => candidate.id === where.id);
+        Object.assign(property, data);
+        return property;
+      }
+    }
+  });
+
+  return {
+    db,
+    $transaction: async (run: (tx: any) => Promise<unknown>) => {
+      const staged = db.properties.map((property) => ({ ...property }));
+      const result = await run(clientFor(staged));
+      db.properties = staged;
+      return result;
+    }
+  } as any;
+};
+
+const existing = { id: 'property-1', name: 'Riverside', address: '1 River Road', userId: 'manager-1' };
+
+const csv = [
+  'name,address',
+  'Riverside,1 River Road',
+  'Hilltop,5 Hill Street',
+  'Parkview,9 Park Lane'
+].join('\n');
+
+describe('importCsv', () => {
+  it('reports what a dry run would change without writing anything', async () => {
+    const prisma = createFakePrisma([{ ...existing, address: 'Old address' }]);
+
+    const report = await importCsv(prisma, manager, 'properties', csv);
+
+    expect(report).toMatchObject({ dryRun: true, committed: false, totalRows: 3, created: 2, updated: 1, unchanged: 0 });
+    expect(report.rows.map((row) => [row.row, row.key, row.action])).toEqual([
+      [2, 'Riverside', 'UPDATE'],
+      [3, 'Hilltop', 'CREATE'],
+      [4, 'Parkview', 'CREATE']
+    ]);
+    expect(report.rows[0].changes).toEqual([{ field: 'address', from: 'Old address', to: '1 River Road' }]);
+    expect(prisma.db.properties).toEqual([{ ...existing, address: 'Old address' }]);
+  });
+
+  it('commits the rows when asked to, and changes nothing on a second run', async () => {
+    const prisma = createFakePrisma([existing]);
+
+    const first = await importCsv(prisma, manager, 'properties', csv, false);
+    expect(first).toMatchObject({ committed: true, created: 2, unchanged: 1 });
+    expect(prisma.db.properties.map((property: any) => property.name)).toEqual(['Riverside', 'Hilltop', 'Parkview']);
+    expect(prisma.db.properties[1].userId).toBe('manager-1');
+
+    const second = await importCsv(prisma, manager, 'properties', csv, false);
+    expect(second).toMatchObject({ committed: true, created: 0, updated: 0, unchanged: 3 });
+  });
+
+  it('rolls back every row when one of them fails', async () => {
+    const prisma = createFakePrisma([existing]);
+    const withError = [
+      'name,address',
+      'Hilltop,5 Hill Street',
+      'Parkview,',
+      'Hilltop,7 Hill Street'
+    ].join('\n');
+
+    const report = await importCsv(prisma, manager, 'properties', withError, false);
+
+    expect(report.committed).toBe(false);
+    expect(report.errors).toEqual([
+      { row: 3, message: 'Address is required' },
+      { row: 4, message: 'Duplicate of row 2 (Hilltop)' }
+    ]);
+    expect(prisma.db.properties).toEqual([existing]);
+  });
+
+  it('only matches properties the user manages', async () => {
+    const prisma = createFakePrisma([{ ...existing, userId: 'someone-else' }]);
+
+    const report = await importCsv(prisma, manager, 'properties', 'name,address\nRiverside,1 River Road');
+
+    expect(report.rows[0].action).toBe('CREATE');
+  });
+
+  it('rejects files with unknown or missing columns, or no rows', async () => {
+    const prisma = createFakePrisma();
+
+    await expect(importCsv(prisma, manager, 'properties', 'name,address,colour\nA,B,red'))
+      .rejects.toThrow('Unknown columns for properties: colour');
+    await expect(importCsv(prisma, manager, 'properties', 'name\nA'))
+      .rejects.toThrow('Missing columns for properties: address');
+    await expect(importCsv(prisma, manager, 'properties', 'name,address\n'))
+      .rejects.toThrow('The file has no rows to import');
+    await expect(importCsv(prisma, manager, 'buildings', 'name\nA'))
+      .rejects.toThrow('Unknown import: buildings');
+  });
+});
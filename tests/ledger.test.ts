@@ -0,0 +1,174 @@
+import { applyRenterCredit, recordPaymentTransaction } from '../src/services/billing/ledger';
+
+interface FakeAllocation {
+  id: string;
+  transactionId: string;
+  paymentId: string;
+  amount: number;
+}
+
+// Just enough of the Prisma client for the ledger, backed by arrays
+const createFakePrisma = (payments: any[], transactions: any[] = []) => {
+  const allocations: FakeAllocation[] = [];
+  const withAllocations = (key: 'paymentId' | 'transactionId') => (record: any) => ({
+    ...record,
+    allocations: allocations.filter((allocation) => allocation[key] === record.id)
+  });
+
+  const client: any = {
+    allocations,
+    payments,
+    transactions,
+    renter: {
+      findUnique: async ({ where }: any) => (where.id === 'renter-1' ? { id: 'renter-1' } : null)
+    },
+    payment: {
+      findMany: async ({ where }: any) => payments
+        .filter((payment) => payment.renterId === where.renterId)
+        .filter((payment) => where.status.in.includes(payment.status))
+        .filter((payment) => !where.id || where.id.in.includes(payment.id))
+        .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime())
+        .map(withAllocations('paymentId')),
+      update: async ({ where, data }: any) => {
+        const payment = payments.find((candidate) => candidate.id === where.id);
+        Object.assign(payment, data);
+        return payment;
+      }
+    },
+    paymentTransaction: {
+      findMany: async ({ where }: any) => transactions
+        .filter((transaction) => transaction.renterId === where.renterId)
+        .map(withAllocations('transactionId')),
+      create: async ({ data }: any) => {
+        transactions.push(data);
+        return data;
+      }
+    },
+    paymentAllocation: {
+      create: async ({ data }: any) => {
+        allocations.push(data);
+        return data;
+      }
+    },
+    $transaction: async (run: (tx: any) => Promise<any>) => run(client)
+  };
+
+  return client;
+};
+
+const payment = (id: string, amount: number, dueDate: string) => ({
+  id,
+  renterId: 'renter-1',
+  amount,
+  status: 'PENDING',
+  dueDate: new Date(dueDate),
+  paidDate: null
+});
+
+describe('recordPaymentTransaction', () => {
+  it('settles the oldest payments first and keeps the rest as credit', async () => {
+    const prisma = createFakePrisma([
+      payment('may', 500, '2025-05-01'),
+      payment('april', 500, '2025-04-01')
+    ]);
+    const receivedAt = new Date('2025-05-03');
+
+    const result = await recordPaymentTransaction(prisma, {
+      renterId: 'renter-1',
+      amount: 1200,
+      method: 'CASH',
+      receivedAt
+    });
+
+    expect(result.allocations.map((allocation) => allocation.paymentId)).toEqual(['april', 'may']);
+    expect(result.allocations.every((allocation) => allocation.status === 'PAID')).toBe(true);
+    expect(result.credit).toBe(200);
+    expect(prisma.payments.find((entry: any) => entry.id === 'april')).toMatchObject({ status: 'PAID', paidDate: receivedAt });
+  });
+
+  it('leaves a partly paid payment pending with its remaining balance', async () => {
+    const prisma = createFakePrisma([payment('may', 500, '2025-05-01')]);
+
+    const result = await recordPaymentTransaction(prisma, { renterId: 'renter-1', amount: 120.1, method: 'CASH' });
+
+    expect(result.allocations).toEqual([
+      { paymentId: 'may', allocated: 120.1, remainingBalance: 379.9, status: 'PENDING' }
+    ]);
+    expect(prisma.payments[0].status).toBe('PENDING');
+    expect(result.credit).toBe(0);
+  });
+
+  it('only settles the listed payments, in the order given', async () => {
+    const prisma = createFakePrisma([
+      payment('april', 500, '2025-04-01'),
+      payment('may', 500, '2025-05-01')
+    ]);
+
+    const result = await recordPaymentTransaction(prisma, {
+      renterId: 'renter-1',
+      amount: 500,
+      method: 'BANK_TRANSFER',
+      paymentIds: ['may']
+    });
+
+    expect(result.allocations.map((allocation) => allocation.paymentId)).toEqual(['may']);
+    expect(prisma.payments.find((entry: any) => entry.id === 'april').status).toBe('PENDING');
+  });
+
+  it('uses credit the renter already holds after the new receipt', async () => {
+    const prisma = createFakePrisma(
+      [payment('may', 500, '2025-05-01')],
+      [{ id: 'old', renterId: 'renter-1', amount: 300, receivedAt: new Date('2025-04-01') }]
+    );
+
+    const result = await recordPaymentTransaction(prisma, { renterId: 'renter-1', amount: 400, method: 'CASH' });
+
+    expect(result.allocations[0]).toMatchObject({ allocated: 500, status: 'PAID' });
+    expect(prisma.allocations.map((allocation: FakeAllocation) => [allocation.transactionId, allocation.amount])).toEqual([
+      [result.transaction.id, 400],
+      ['old', 100]
+    ]);
+    expect(result.credit).toBe(200);
+  });
+
+  it('rejects payments that are not outstanding for the renter', async () => {
+    const prisma = createFakePrisma([payment('may', 500, '2025-05-01')]);
+
+    await expect(recordPaymentTransaction(prisma, {
+      renterId: 'renter-1',
+      amount: 100,
+      method: 'CASH',
+      paymentIds: ['other']
+    })).rejects.toThrow('Payment other is not an outstanding payment of this renter');
+  });
+
+  it('rejects amounts that are not positive and unknown methods', async () => {
+    const prisma = createFakePrisma([]);
+
+    await expect(recordPaymentTransaction(prisma, { renterId: 'renter-1', amount: 0, method: 'CASH' }))
+      .rejects.toThrow('Transaction amount must be greater than zero');
+    await expect(recordPaymentTransaction(prisma, { renterId: 'renter-1', amount: 10, method: 'BARTER' }))
+      .rejects.toThrow('Invalid payment method: BARTER');
+  });
+});
+
+describe('applyRenterCredit', () => {
+  it('does nothing when the renter holds no credit', async () => {
+    const prisma = createFakePrisma([payment('may', 500, '2025-05-01')]);
+
+    await expect(applyRenterCredit(prisma, 'renter-1')).resolves.toEqual({ transaction: null, allocations: [], credit: 0 });
+    expect(prisma.allocations).toHaveLength(0);
+  });
+
+  it('pays new payments out of existing credit', async () => {
+    const prisma = createFakePrisma(
+      [payment('may', 500, '2025-05-01')],
+      [{ id: 'old', renterId: 'renter-1', amount: 650, receivedAt: new Date('2025-04-01') }]
+    );
+
+    const result = await applyRenterCredit(prisma, 'renter-1');
+
+    expect(result.allocations).toEqual([{ paymentId: 'may', allocated: 500, remainingBalance: 0, status: 'PAID' }]);
+    expect(result.credit).toBe(150);
+  });
+});
@@ -0,0 +1,80 @@
+import { parsePeriod, prorateMonthly } from '../src/services/billing/period';
+import { generateRentInvoices } from '../src/services/billing/rentInvoices';
+
+const may = parsePeriod('2025-05');
+
+// Enough of the Prisma client for a dry run: the records to bill and the invoice keys already used
+const createFakePrisma = (records: { contracts: any[]; existingKeys?: string[] }) => ({
+  contract: { findMany: async () => records.contracts },
+  payment: {
+    findMany: async ({ where }: any) => (records.existingKeys || [])
+      .filter((invoiceKey) => where.invoiceKey.in.includes(invoiceKey))
+      .map((invoiceKey) => ({ invoiceKey }))
+  }
+}) as any;
+
+const renters = [{ id: 'renter-1' }, { id: 'renter-2' }];
+
+describe('prorateMonthly', () => {
+  it('charges a full month in full', () => {
+    expect(prorateMonthly(900, new Date(2025, 0, 1), null, may)).toBe(900);
+  });
+
+  it('charges the days covered when starting or ending mid-month', () => {
+    expect(prorateMonthly(930, new Date(2025, 4, 16), null, may)).toBe(480);
+    expect(prorateMonthly(930, new Date(2025, 0, 1), new Date(2025, 4, 10), may)).toBe(300);
+    expect(prorateMonthly(930, new Date(2025, 4, 10), new Date(2025, 4, 19), may)).toBe(300);
+  });
+
+  it('uses the length of the month being billed', () => {
+    expect(prorateMonthly(280, new Date(2025, 1, 15), null, parsePeriod('2025-02'))).toBe(140);
+  });
+
+  it('charges nothing outside the range', () => {
+    expect(prorateMonthly(930, new Date(2025, 5, 1), null, may)).toBe(0);
+  });
+});
+
+describe('generateRentInvoices', () => {
+  const contract = (overrides: any) => ({
+    id: 'contract-1',
+    amount: 930,
+    startDate: new Date(2025, 0, 1),
+    endDate: null,
+    renters,
+    room: { number: '101' },
+    ...overrides
+  });
+
+  it('prorates rent for a contract that starts mid-month and splits it between renters', async () => {
+    const prisma = createFakePrisma({ contracts: [contract({ startDate: new Date(2025, 4, 16) })] });
+
+    const result = await generateRentInvoices(prisma, { period: '2025-05', dryRun: true });
+
+    expect(result.invoices.map((invoice) => invoice.amount)).toEqual([240, 240]);
+    expect(result.invoices[0]).toMatchObject({ dueDate: new Date(2025, 4, 16), status: 'WOULD_CREATE' });
+  });
+
+  it('prorates rent for a contract that ends mid-month', async () => {
+    const prisma = createFakePrisma({ contracts: [contract({ endDate: new Date(2025, 4, 10), renters: [renters[0]] })] });
+
+    const result = await generateRentInvoices(prisma, { period: '2025-05', dryRun: true });
+
+    expect(result.invoices.map((invoice) => invoice.amount)).toEqual([300]);
+  });
+
+  it('charges a full month in full and skips periods already billed', async () => {
+    const prisma = createFakePrisma({
+      contracts: [contract({})],
+      existingKeys: ['RENT:contract-1:renter-1:2025-05']
+    });
+
+    const result = await generateRentInvoices(prisma, { period: '2025-05', dryRun: true });
+
+    expect(result.invoices.map((invoice) => [invoice.amount, invoice.status])).toEqual([
+      [465, 'EXISTS'],
+      [465, 'WOULD_CREATE']
+    ]);
+    expect(result.skipped).toBe(1);
+  });
+});
@@ -0,0 +1,69 @@
+import { parsePeriod } from '../src/services/billing/period';
+import { computeServiceCharge, generateServiceCharges } from '../src/services/billing/serviceCharges';
+
+const may = parsePeriod('2025-05');
+
+// Enough of the Prisma client for a dry run: the records to bill and the invoice keys already used
+const createFakePrisma = (records: { roomServices: any[]; existingKeys?: string[] }) => ({
+  roomService: { findMany: async () => records.roomServices },
+  payment: {
+    findMany: async ({ where }: any) => (records.existingKeys || [])
+      .filter((invoiceKey) => where.invoiceKey.in.includes(invoiceKey))
+      .map((invoiceKey) => ({ invoiceKey }))
+  }
+}) as any;
+
+const renters = [{ id: 'renter-1' }, { id: 'renter-2' }];
+
+describe('computeServiceCharge', () => {
+  it('prorates MONTHLY fees like rent', () => {
+    expect(computeServiceCharge('MONTHLY', 62, new Date(2025, 4, 16), null, may)).toBe(32);
+  });
+
+  it('charges ONE_TIME fees in full in any month the service covers', () => {
+    expect(computeServiceCharge('ONE_TIME', 150, new Date(2025, 4, 20), null, may)).toBe(150);
+    expect(computeServiceCharge('ONE_TIME', 150, new Date(2025, 2, 3), null, may)).toBe(150);
+    expect(computeServiceCharge('ONE_TIME', 150, new Date(2025, 5, 1), null, may)).toBeNull();
+  });
+
+  it('charges YEARLY fees in the month the service started', () => {
+    expect(computeServiceCharge('YEARLY', 365, new Date(2024, 4, 1), null, may)).toBe(365);
+    expect(computeServiceCharge('YEARLY', 365, new Date(2024, 3, 1), null, may)).toBeNull();
+  });
+});
+
+describe('generateServiceCharges', () => {
+  const roomService = (feeType: string, startDate: Date) => ({
+    id: 'room-service-1',
+    startDate,
+    endDate: null,
+    service: { name: 'Installation', feeType, fee: 150 },
+    room: {
+      number: '101',
+      contracts: [{ id: 'contract-1', startDate: new Date(2025, 0, 1), renters }]
+    }
+  });
+
+  it('bills a ONE_TIME charge in a later month when its start month was never billed', async () => {
+    const prisma = createFakePrisma({ roomServices: [roomService('ONE_TIME', new Date(2025, 2, 3))] });
+
+    const result = await generateServiceCharges(prisma, { period: '2025-05', dryRun: true });
+
+    expect(result.invoices.map((invoice) => [invoice.invoiceKey, invoice.amount, invoice.status])).toEqual([
+      ['SERVICE:room-service-1:renter-1:ONCE', 75, 'WOULD_CREATE'],
+      ['SERVICE:room-service-1:renter-2:ONCE', 75, 'WOULD_CREATE']
+    ]);
+  });
+
+  it('does not bill a ONE_TIME charge twice', async () => {
+    const prisma = createFakePrisma({
+      roomServices: [roomService('ONE_TIME', new Date(2025, 2, 3))],
+      existingKeys: ['SERVICE:room-service-1:renter-1:ONCE', 'SERVICE:room-service-1:renter-2:ONCE']
+    });
+
+    const result = await generateServiceCharges(prisma, { period: '2025-05', dryRun: true });
+
+    expect(result.invoices.every((invoice) => invoice.status === 'EXISTS')).toBe(true);
+    expect(result.skipped).toBe(2);
+  });
+});